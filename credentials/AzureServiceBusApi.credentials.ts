@@ -19,7 +19,35 @@ export class AzureServiceBusApi implements ICredentialType {
 			},
 			default: '',
 			placeholder: 'Endpoint=sb://your-namespace.servicebus.windows.net/;SharedAccessKeyName=RootManageSharedAccessKey;SharedAccessKey=your-key',
-			description: 'Azure Service Bus connection string',
+			description: 'Azure Service Bus connection string. Either SharedAccessKeyName and SharedAccessKey, or a pre-issued SharedAccessSignature=SharedAccessSignature sr=...&sig=...&se=...&skn=....',
+		},
+		{
+			displayName: 'Token Lifetime (Seconds)',
+			name: 'tokenLifetime',
+			type: 'number',
+			typeOptions: {
+				minValue: 60,
+			},
+			default: 3600,
+			description: 'How long SAS tokens signed for HTTP requests stay valid. Tokens are cached and renewed shortly before they expire. The Azure SDK (AMQP) signs and renews its own tokens. Ignored for a pre-issued SharedAccessSignature.',
+		},
+		{
+			displayName: 'Token Scope',
+			name: 'tokenScope',
+			type: 'options',
+			options: [
+				{
+					name: 'Entity',
+					value: 'entity',
+					description: 'Sign a separate token for each queue, topic or subscription accessed',
+				},
+				{
+					name: 'Namespace',
+					value: 'namespace',
+					description: 'Sign one token that is valid for every entity in the namespace',
+				},
+			],
+			default: 'entity',
 		},
 	];
 
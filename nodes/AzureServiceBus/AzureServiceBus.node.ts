@@ -6,21 +6,79 @@ import {
 	INodeTypeDescription,
 	NodeOperationError,
 } from 'n8n-workflow';
-import { ServiceBusClient, ServiceBusMessage } from '@azure/service-bus';
+import {
+	ServiceBusClient,
+	ServiceBusMessage,
+	ServiceBusMessageBatch,
+	ServiceBusReceivedMessage,
+	ServiceBusReceiver,
+	ServiceBusReceiverOptions,
+	ServiceBusSessionReceiver,
+	ServiceBusSender,
+	ServiceBusSessionReceiverOptions,
+	ServiceBusAdministrationClient,
+	PeekMessagesOptions,
+} from '@azure/service-bus';
+import Long from 'long';
+import { randomUUID } from 'crypto';
+import { entityManagementProperties, executeEntityManagement } from './EntityManagement';
+import {
+	authenticationProperty,
+	createAdministrationClient,
+	createServiceBusClient,
+	credentialDescriptions,
+	getServiceBusConnection,
+	SERVICE_BUS_TOKEN_SCOPE,
+	ServiceBusConnection,
+} from './Connection';
+import { testConnectionStringCredential } from './CredentialTest';
+import { BodyOutput, bodyOutputOptions, formatMessageBody, setBinaryBody } from './MessageBody';
+import {
+	createLockedMessageReference,
+	formatRawAmqpMessage,
+	formatSystemProperties,
+	MessageMetadata,
+	messageMetadataOptions,
+} from './ReceivedMessage';
+import { getSasToken, SasConnectionProperties, SasTokenOptions } from './SasToken';
+import { TokenCredential } from '@azure/identity';
 import fetch from 'node-fetch';
 
 interface ConnectionDetails {
 	hostname: string;
-	username: string;
-	password: string;
-	entityPath?: string;
+	sas?: SasConnectionProperties;
+	sasTokenOptions?: SasTokenOptions;
+	tokenCredential?: TokenCredential;
 }
 
 interface MessageWithSession extends ServiceBusMessage {
 	sessionId?: string;
-	applicationProperties?: Record<string, string | number | boolean>;
 }
 
+interface BatchedItem {
+	itemIndex: number;
+	messageId: MessageWithSession['messageId'];
+}
+
+interface PendingMessageBatch {
+	batch: ServiceBusMessageBatch;
+	items: BatchedItem[];
+}
+
+interface PendingHttpBatch {
+	entries: IDataObject[];
+	sizeInBytes: number;
+	items: BatchedItem[];
+}
+
+type ApplicationPropertyValue = string | number | boolean | Date | null;
+
+/**
+ * Raised when Send and Wait for Reply gets no reply in time. It is passed on as is rather than
+ * wrapped as a failed operation, since the request itself was sent.
+ */
+export class ReplyTimeoutError extends NodeOperationError {}
+
 function isEmptyMessageBody(messageBody: unknown): boolean {
 	if (messageBody === null || messageBody === undefined) {
 		return true;
@@ -37,104 +95,122 @@ function isEmptyMessageBody(messageBody: unknown): boolean {
 	return true;
 }
 
-function parseConnectionString(connectionString: string): ConnectionDetails {
-	console.log('🔧 Parsing connection string for HTTP REST API...');
-	const parts = connectionString.split(';');
-	const parsed: Record<string, string> = {};
-
-	for (const part of parts) {
-		const [key, value] = part.split('=', 2);
-		if (key && value) {
-			parsed[key.toLowerCase()] = value;
+/**
+ * Returns a bearer token for Entra ID connections, otherwise a SAS token signed for the resource.
+ */
+async function getAuthorizationHeader(connectionDetails: ConnectionDetails, resourceUri: string): Promise<string> {
+	if (connectionDetails.tokenCredential) {
+		const accessToken = await connectionDetails.tokenCredential.getToken(SERVICE_BUS_TOKEN_SCOPE);
+		if (!accessToken) {
+			throw new Error('Microsoft Entra ID did not return an access token for Service Bus');
 		}
+		return `Bearer ${accessToken.token}`;
 	}
+	return getSasToken(connectionDetails.sas as SasConnectionProperties, resourceUri, connectionDetails.sasTokenOptions).token;
+}
 
-	console.log('🔧 Parsed connection parts:', Object.keys(parsed));
-
-	const endpoint = parsed.endpoint;
-	if (!endpoint) {
-		throw new Error('Missing Endpoint in connection string');
+/**
+ * Maps the system properties of a message to the REST API's BrokerProperties. The REST API
+ * uses Label for the subject and seconds for the time to live.
+ */
+function getBrokerProperties(message: MessageWithSession): Record<string, string | number> {
+	const brokerProperties: Record<string, string | number> = {};
+	if (message.messageId) {
+		brokerProperties.MessageId = String(message.messageId);
 	}
-
-	const hostname = endpoint.replace('sb://', '').replace('/', '');
-	const result: ConnectionDetails = {
-		hostname,
-		username: parsed.sharedaccesskeyname || '',
-		password: parsed.sharedaccesskey || '',
-		entityPath: parsed.entitypath
-	};
-
-	console.log('🔧 Connection details for HTTP:', {
-		hostname: result.hostname,
-		hasUsername: !!result.username,
-		hasPassword: !!result.password,
-		entityPath: result.entityPath
-	});
-
-	return result;
+	if (message.sessionId) {
+		brokerProperties.SessionId = message.sessionId;
+	}
+	if (message.correlationId) {
+		brokerProperties.CorrelationId = String(message.correlationId);
+	}
+	if (message.subject) {
+		brokerProperties.Label = message.subject;
+	}
+	if (message.replyTo) {
+		brokerProperties.ReplyTo = message.replyTo;
+	}
+	if (message.replyToSessionId) {
+		brokerProperties.ReplyToSessionId = message.replyToSessionId;
+	}
+	if (message.to) {
+		brokerProperties.To = message.to;
+	}
+	if (message.timeToLive !== undefined) {
+		brokerProperties.TimeToLive = message.timeToLive / 1000;
+	}
+	if (message.scheduledEnqueueTimeUtc) {
+		brokerProperties.ScheduledEnqueueTimeUtc = message.scheduledEnqueueTimeUtc.toUTCString();
+	}
+	if (message.partitionKey) {
+		brokerProperties.PartitionKey = message.partitionKey;
+	}
+	return brokerProperties;
 }
 
-function createSasToken(uri: string, keyName: string, key: string): string {
-	const encoded = encodeURIComponent(uri);
-	const now = new Date();
-	const ttl = Math.floor(now.getTime() / 1000) + 3600;
-	const signature = encoded + '\n' + ttl;
-
-	console.log('🔐 Creating SAS token for:', { uri, keyName, ttl });
-	console.log('🔐 Signature string:', signature);
+/**
+ * Encodes an application property for a REST API custom header. The broker reads header values
+ * as JSON-like literals, so strings and dates are quoted and numbers, booleans and null are not.
+ */
+function toHttpPropertyHeader(value: ApplicationPropertyValue): string {
+	if (value instanceof Date) {
+		return `"${value.toUTCString()}"`;
+	}
+	return JSON.stringify(value);
+}
 
-	const crypto = require('crypto');
-	const hmac = crypto.createHmac('sha256', key);
-	hmac.update(signature, 'utf8');
-	const hash = hmac.digest('base64');
-	const encodedSignature = encodeURIComponent(hash);
+/**
+ * The batch endpoint takes UserProperties as a JSON object, where dates have to be RFC 1123 strings.
+ */
+function toHttpUserProperties(applicationProperties: Record<string, ApplicationPropertyValue>): IDataObject {
+	const userProperties: IDataObject = {};
+	for (const [key, value] of Object.entries(applicationProperties)) {
+		userProperties[key] = value instanceof Date ? value.toUTCString() : value;
+	}
+	return userProperties;
+}
 
-	const token = `SharedAccessSignature sr=${encoded}&sig=${encodedSignature}&se=${ttl}&skn=${keyName}`;
-	console.log('🔐 SAS token created successfully');
-	return token;
+function serializeHttpBody(body: unknown): string | Buffer {
+	if (Buffer.isBuffer(body)) {
+		return body;
+	}
+	return typeof body === 'string' ? body : JSON.stringify(body);
 }
 
-async function sendMessageViaHTTP(connectionDetails: ConnectionDetails, queueName: string, message: MessageWithSession): Promise<void> {
+/**
+ * Sends one message to a queue or topic. Topics share the queue endpoint shape, so the entity
+ * path is simply the queue or topic name.
+ */
+async function sendMessageViaHTTP(connectionDetails: ConnectionDetails, entityPath: string, message: MessageWithSession): Promise<void> {
 	console.log('🌍 Starting HTTP REST API approach...');
 
-	const url = `https://${connectionDetails.hostname}/${queueName}/messages?timeout=60`;
+	const url = `https://${connectionDetails.hostname}/${entityPath}/messages?timeout=60`;
 	console.log('🌍 HTTP URL:', url);
 
-	const sasToken = createSasToken(
-		`https://${connectionDetails.hostname}/${queueName}`,
-		connectionDetails.username,
-		connectionDetails.password
-	);
+	const authorization = await getAuthorizationHeader(connectionDetails, `https://${connectionDetails.hostname}/${entityPath}`);
 
-	const messageBody = typeof message.body === 'string' ? message.body : JSON.stringify(message.body);
+	const messageBody = serializeHttpBody(message.body);
 
 	const headers: Record<string, string> = {
-		'Authorization': sasToken,
+		'Authorization': authorization,
 		'Content-Type': message.contentType || 'application/atom+xml;type=entry;charset=utf-8',
 	};
 
-	const brokerProperties: Record<string, string> = {};
-	if (message.messageId) {
-		brokerProperties.MessageId = String(message.messageId);
-	}
-	if (message.sessionId) {
-		brokerProperties.SessionId = message.sessionId;
-		console.log(`🔐 HTTP: Added session ID: ${message.sessionId}`);
-	}
-
+	const brokerProperties = getBrokerProperties(message);
 	if (Object.keys(brokerProperties).length > 0) {
 		headers['BrokerProperties'] = JSON.stringify(brokerProperties);
+		console.log('🔐 HTTP: Broker properties:', Object.keys(brokerProperties));
 	}
 
 	if (message.applicationProperties) {
 		for (const [key, value] of Object.entries(message.applicationProperties)) {
-			headers[key] = String(value);
+			headers[key] = toHttpPropertyHeader(value);
 		}
 	}
 
 	console.log('🌍 Request headers (auth hidden):', {
 		...headers,
-		Authorization: 'SharedAccessSignature sr=***'
+		Authorization: connectionDetails.tokenCredential ? 'Bearer ***' : 'SharedAccessSignature sr=***'
 	});
 	console.log('🌍 Message body length:', messageBody.length);
 	console.log('🌍 Sending HTTP POST request...');
@@ -156,109 +232,1837 @@ async function sendMessageViaHTTP(connectionDetails: ConnectionDetails, queueNam
 	console.log('✅ Message sent via HTTP REST API!');
 }
 
-export class AzureServiceBus implements INodeType {
-	description: INodeTypeDescription = {
-		displayName: 'Azure Service Bus',
-		name: 'azureServiceBus',
-		icon: 'file:azureServiceBus.svg',
-		group: ['transform'],
-		version: 1,
-		subtitle: '={{$parameter["operation"] + ": " + $parameter["resource"]}}',
-		description: 'Send and receive messages from Azure Service Bus',
-		defaults: {
-			name: 'Azure Service Bus',
-		},
-		inputs: ['main'],
-		outputs: ['main'],
-		credentials: [
-			{
-				name: 'azureServiceBusApi',
-				required: true,
-			},
-		],
-		properties: [
-			{
-				displayName: 'Protocol',
-				name: 'protocol',
-				type: 'options',
-				noDataExpression: true,
-				options: [
-					{
-						name: 'Azure SDK (Recommended)',
-						value: 'sdk',
-						description: 'Use official @azure/service-bus SDK',
-					},
-					{
-						name: 'HTTP REST API',
-						value: 'http',
-						description: 'Use Azure Service Bus REST API (firewall-friendly)',
-					},
-				],
-				default: 'sdk',
-				description: 'Protocol to use for Azure Service Bus connection',
-			},
-			{
-				displayName: 'Resource',
-				name: 'resource',
-				type: 'options',
-				noDataExpression: true,
-				options: [
-					{
-						name: 'Queue',
-						value: 'queue',
-					},
-					{
-						name: 'Topic',
-						value: 'topic',
-					},
-				],
-				default: 'queue',
+/**
+ * Largest batch request body sent over HTTP. Matches the Standard tier message size limit,
+ * which also applies to a whole batch.
+ */
+const HTTP_BATCH_MAX_SIZE_IN_BYTES = 256 * 1024;
+
+/**
+ * HTTP counterpart of sendMessagesInBatches, using the REST batch format and the same grouping
+ * by session ID or partition key. The batch format has no per-message content type, so each
+ * message's Content Type is not carried over.
+ */
+async function sendMessageBatchesViaHTTP(
+	this: IExecuteFunctions,
+	connectionDetails: ConnectionDetails,
+	entityPath: string,
+	entityInfo: IDataObject,
+	itemCount: number,
+): Promise<INodeExecutionData[]> {
+	const url = `https://${connectionDetails.hostname}/${entityPath}/messages?timeout=60`;
+	const results: IDataObject[] = new Array(itemCount);
+	const openBatches = new Map<string, PendingHttpBatch>();
+	let batchNumber = 1;
+
+	const sendBatch = async ({ entries, sizeInBytes, items }: PendingHttpBatch): Promise<void> => {
+		console.log(`📦 Sending HTTP batch ${batchNumber} with ${entries.length} messages (${sizeInBytes} bytes)`);
+		const response = await fetch(url, {
+			method: 'POST',
+			headers: {
+				Authorization: await getAuthorizationHeader(connectionDetails, `https://${connectionDetails.hostname}/${entityPath}`),
+				'Content-Type': 'application/vnd.microsoft.servicebus.json',
 			},
-			{
-				displayName: 'Operation',
-				name: 'operation',
-				type: 'options',
-				noDataExpression: true,
-				displayOptions: {
-					show: {
-						resource: ['queue'],
-					},
+			body: JSON.stringify(entries),
+		});
+
+		if (!response.ok) {
+			const errorText = await response.text();
+			console.error('❌ HTTP Error response:', errorText);
+			throw new Error(`HTTP ${response.status}: ${errorText}`);
+		}
+
+		const sentAt = new Date().toISOString();
+		for (const { itemIndex, messageId } of items) {
+			results[itemIndex] = {
+				success: true,
+				messageId,
+				...entityInfo,
+				batchNumber,
+				sentAt,
+			};
+		}
+		console.log(`✅ HTTP batch ${batchNumber} sent`);
+		batchNumber++;
+	};
+
+	for (let i = 0; i < itemCount; i++) {
+		const message = await buildMessageFromParameters.call(this, i);
+		if (Buffer.isBuffer(message.body)) {
+			throw new NodeOperationError(
+				this.getNode(),
+				'Binary bodies cannot be sent through the HTTP batch endpoint. Use One Message per Request or the Azure SDK protocol.',
+				{ itemIndex: i },
+			);
+		}
+		const entry: IDataObject = { Body: serializeHttpBody(message.body) };
+		const brokerProperties = getBrokerProperties(message);
+		if (Object.keys(brokerProperties).length > 0) {
+			entry.BrokerProperties = brokerProperties;
+		}
+		if (message.applicationProperties) {
+			entry.UserProperties = toHttpUserProperties(message.applicationProperties);
+		}
+
+		// Entries are joined with commas inside the surrounding brackets
+		const entrySize = Buffer.byteLength(JSON.stringify(entry)) + 1;
+		if (entrySize + 2 > HTTP_BATCH_MAX_SIZE_IN_BYTES) {
+			console.error(`❌ Message ${i + 1} is too large to fit in a batch`);
+			results[i] = {
+				success: false,
+				messageId: message.messageId,
+				...entityInfo,
+				error: `Message is too large to fit in a batch (maximum batch size is ${HTTP_BATCH_MAX_SIZE_IN_BYTES} bytes)`,
+			};
+			continue;
+		}
+
+		const groupKey = getBatchGroupKey(message);
+		let pending = openBatches.get(groupKey);
+		if (pending && pending.sizeInBytes + entrySize > HTTP_BATCH_MAX_SIZE_IN_BYTES) {
+			await sendBatch(pending);
+			pending = undefined;
+		}
+		if (!pending) {
+			pending = { entries: [], sizeInBytes: 2, items: [] };
+			openBatches.set(groupKey, pending);
+		}
+
+		pending.entries.push(entry);
+		pending.sizeInBytes += entrySize;
+		pending.items.push({ itemIndex: i, messageId: message.messageId });
+	}
+
+	for (const pending of openBatches.values()) {
+		if (pending.entries.length > 0) {
+			await sendBatch(pending);
+		}
+	}
+
+	return results.map((json) => ({ json }));
+}
+
+/**
+ * Builds the outgoing message for an input item from the send parameters.
+ */
+async function buildMessageFromParameters(this: IExecuteFunctions, itemIndex: number): Promise<MessageWithSession> {
+	const bodySource = this.getNodeParameter('bodySource', itemIndex, 'field') as string;
+	if (bodySource === 'binary') {
+		return buildBinaryMessageFromParameters.call(this, itemIndex);
+	}
+
+	const messageBody = this.getNodeParameter('messageBody', itemIndex);
+	const contentType = this.getNodeParameter('contentType', itemIndex, 'application/json') as string;
+	const messageId = this.getNodeParameter('messageId', itemIndex, '') as string;
+	const sessionId = this.getNodeParameter('sessionId', itemIndex, '') as string;
+
+	console.log(`📝 Message details:`, {
+		bodyType: typeof messageBody,
+		bodyLength: typeof messageBody === 'string' ? messageBody.length : 'N/A',
+		contentType,
+		hasMessageId: !!messageId,
+		hasSessionId: !!sessionId,
+	});
+
+	if (isEmptyMessageBody(messageBody)) {
+		console.error('❌ Message body is empty!');
+		throw new NodeOperationError(this.getNode(), 'Message Body cannot be empty');
+	}
+
+	const message: MessageWithSession = {
+		body: messageBody,
+		contentType,
+	};
+
+	applyMessageParameters.call(this, message, itemIndex);
+
+	return message;
+}
+
+/**
+ * Builds the outgoing message from an n8n binary property. The bytes are sent as they are,
+ * with the binary's MIME type as content type unless one is given.
+ */
+async function buildBinaryMessageFromParameters(this: IExecuteFunctions, itemIndex: number): Promise<MessageWithSession> {
+	const binaryPropertyName = this.getNodeParameter('binaryPropertyName', itemIndex, 'data') as string;
+	const binaryData = this.helpers.assertBinaryData(itemIndex, binaryPropertyName);
+	const buffer = await this.helpers.getBinaryDataBuffer(itemIndex, binaryPropertyName);
+	const contentType = (this.getNodeParameter('contentType', itemIndex, '') as string) || binaryData.mimeType;
+
+	console.log(`📝 Binary message details: property=${binaryPropertyName}, contentType=${contentType}, bytes=${buffer.length}`);
+
+	if (buffer.length === 0) {
+		throw new NodeOperationError(this.getNode(), `Binary property '${binaryPropertyName}' is empty`, { itemIndex });
+	}
+
+	const message: MessageWithSession = {
+		body: buffer,
+		contentType,
+	};
+
+	applyMessageParameters.call(this, message, itemIndex);
+
+	return message;
+}
+
+/**
+ * Applies the parameters shared by text and binary bodies: message ID, session and properties.
+ */
+function applyMessageParameters(this: IExecuteFunctions, message: MessageWithSession, itemIndex: number): void {
+	const messageId = this.getNodeParameter('messageId', itemIndex, '') as string;
+	const sessionId = this.getNodeParameter('sessionId', itemIndex, '') as string;
+
+	if (messageId && messageId.trim() !== '') {
+		message.messageId = messageId;
+	}
+
+	if (sessionId && sessionId.trim() !== '') {
+		message.sessionId = sessionId;
+		console.log(`🔐 Added session ID: ${sessionId}`);
+	}
+
+	const applicationProperties = getApplicationProperties.call(this, itemIndex);
+	if (Object.keys(applicationProperties).length > 0) {
+		message.applicationProperties = applicationProperties;
+		console.log(`🏷️ Application properties: ${Object.keys(applicationProperties).join(', ')}`);
+	}
+
+	applySystemProperties.call(this, message, itemIndex);
+}
+
+/**
+ * Reads the application properties either from the typed fields or from a JSON object whose
+ * native types are kept. Rows without a key are skipped; empty string values are kept.
+ */
+function getApplicationProperties(this: IExecuteFunctions, itemIndex: number): Record<string, ApplicationPropertyValue> {
+	const mode = this.getNodeParameter('messagePropertiesMode', itemIndex, 'fields') as string;
+	const applicationProperties: Record<string, ApplicationPropertyValue> = {};
+
+	if (mode === 'json') {
+		let value = this.getNodeParameter('messagePropertiesJson', itemIndex, {}) as unknown;
+		if (typeof value === 'string') {
+			if (value.trim() === '') {
+				return applicationProperties;
+			}
+			try {
+				value = JSON.parse(value);
+			} catch (error) {
+				throw new NodeOperationError(this.getNode(), `Message Properties (JSON) is not valid JSON: ${(error as Error).message}`, { itemIndex });
+			}
+		}
+		if (!value || typeof value !== 'object' || Array.isArray(value)) {
+			throw new NodeOperationError(this.getNode(), 'Message Properties (JSON) must be an object', { itemIndex });
+		}
+		for (const [key, propertyValue] of Object.entries(value as IDataObject)) {
+			if (propertyValue !== null && !['string', 'number', 'boolean'].includes(typeof propertyValue)) {
+				throw new NodeOperationError(this.getNode(), `Application property '${key}' must be a string, number, boolean or null`, { itemIndex });
+			}
+			applicationProperties[key] = propertyValue as ApplicationPropertyValue;
+		}
+		return applicationProperties;
+	}
+
+	const messageProperties = this.getNodeParameter('messageProperties', itemIndex, {}) as {
+		property?: Array<{ key: string; type?: string; value?: unknown }>;
+	};
+	for (const property of messageProperties.property ?? []) {
+		if (!property.key) {
+			continue;
+		}
+		applicationProperties[property.key] = convertApplicationPropertyValue.call(this, property, itemIndex);
+	}
+	return applicationProperties;
+}
+
+function convertApplicationPropertyValue(
+	this: IExecuteFunctions,
+	property: { key: string; type?: string; value?: unknown },
+	itemIndex: number,
+): ApplicationPropertyValue {
+	const rawValue = property.value ?? '';
+
+	if (property.type === 'number') {
+		const value = Number(rawValue);
+		if (String(rawValue).trim() === '' || isNaN(value)) {
+			throw new NodeOperationError(this.getNode(), `Application property '${property.key}' is not a valid number: '${String(rawValue)}'`, { itemIndex });
+		}
+		return value;
+	}
+	if (property.type === 'boolean') {
+		const value = String(rawValue).trim().toLowerCase();
+		if (value !== 'true' && value !== 'false') {
+			throw new NodeOperationError(this.getNode(), `Application property '${property.key}' must be true or false, got '${String(rawValue)}'`, { itemIndex });
+		}
+		return value === 'true';
+	}
+	if (property.type === 'dateTime') {
+		const value = parseDateParameter(rawValue);
+		if (!value || isNaN(value.getTime())) {
+			throw new NodeOperationError(this.getNode(), `Application property '${property.key}' is not a valid date: '${String(rawValue)}'`, { itemIndex });
+		}
+		return value;
+	}
+	if (property.type === 'null') {
+		return null;
+	}
+	return String(rawValue);
+}
+
+/**
+ * Copies the System Properties collection onto the message. Time to Live is entered in
+ * seconds and converted to the milliseconds the SDK expects.
+ */
+function applySystemProperties(this: IExecuteFunctions, message: MessageWithSession, itemIndex: number): void {
+	const systemProperties = this.getNodeParameter('systemProperties', itemIndex, {}) as IDataObject;
+
+	for (const key of ['correlationId', 'subject', 'to', 'replyTo', 'replyToSessionId', 'partitionKey'] as const) {
+		const value = systemProperties[key];
+		if (typeof value === 'string' && value.trim() !== '') {
+			message[key] = value;
+		}
+	}
+
+	if (systemProperties.timeToLive !== undefined && systemProperties.timeToLive !== '') {
+		const timeToLive = Number(systemProperties.timeToLive);
+		if (isNaN(timeToLive) || timeToLive <= 0) {
+			throw new NodeOperationError(this.getNode(), `Invalid Time to Live: '${String(systemProperties.timeToLive)}'. Use a positive number of seconds.`, { itemIndex });
+		}
+		message.timeToLive = timeToLive * 1000;
+	}
+
+	if (systemProperties.scheduledEnqueueTimeUtc) {
+		const scheduledEnqueueTimeUtc = parseDateParameter(systemProperties.scheduledEnqueueTimeUtc);
+		if (!scheduledEnqueueTimeUtc || isNaN(scheduledEnqueueTimeUtc.getTime())) {
+			throw new NodeOperationError(this.getNode(), `Invalid Scheduled Enqueue Time (UTC): '${String(systemProperties.scheduledEnqueueTimeUtc)}'`, { itemIndex });
+		}
+		message.scheduledEnqueueTimeUtc = scheduledEnqueueTimeUtc;
+	}
+
+	if (message.sessionId && message.partitionKey && message.sessionId !== message.partitionKey) {
+		throw new NodeOperationError(this.getNode(), 'Partition Key must match Session ID when both are set', { itemIndex });
+	}
+
+	const applied = Object.keys(systemProperties).filter((key) => message[key as keyof MessageWithSession] !== undefined);
+	if (applied.length > 0) {
+		console.log(`🏷️ Applied system properties: ${applied.join(', ')}`);
+	}
+}
+
+/**
+ * Converts a date parameter, which may be an ISO string from the date picker or a
+ * Date/Luxon DateTime returned by an expression.
+ */
+function parseDateParameter(value: unknown): Date | undefined {
+	if (value instanceof Date) {
+		return value;
+	} else if (value && typeof value === 'object' && typeof (value as { toJSDate?: unknown }).toJSDate === 'function') {
+		return (value as { toJSDate: () => Date }).toJSDate();
+	} else if (typeof value === 'string' && value.trim() !== '') {
+		return new Date(value);
+	} else if (typeof value === 'number') {
+		return new Date(value);
+	}
+	return undefined;
+}
+
+function getScheduledEnqueueTime(this: IExecuteFunctions, itemIndex: number): Date {
+	const value = this.getNodeParameter('scheduledEnqueueTime', itemIndex, '') as unknown;
+	const scheduledEnqueueTime = parseDateParameter(value);
+
+	if (!scheduledEnqueueTime || isNaN(scheduledEnqueueTime.getTime())) {
+		throw new NodeOperationError(this.getNode(), `Invalid Scheduled Enqueue Time: '${String(value)}'`, { itemIndex });
+	}
+
+	return scheduledEnqueueTime;
+}
+
+function getSequenceNumbers(this: IExecuteFunctions, itemIndex: number): Long[] {
+	const value = this.getNodeParameter('sequenceNumbers', itemIndex, '') as unknown;
+	const rawValues = Array.isArray(value) ? value : String(value ?? '').split(',');
+
+	const sequenceNumbers: Long[] = [];
+	for (const rawValue of rawValues) {
+		const sequenceNumber = String(rawValue).trim();
+		if (sequenceNumber === '') {
+			continue;
+		}
+		if (!/^\d+$/.test(sequenceNumber)) {
+			throw new NodeOperationError(this.getNode(), `Invalid sequence number: '${sequenceNumber}'`, { itemIndex });
+		}
+		sequenceNumbers.push(Long.fromString(sequenceNumber));
+	}
+
+	if (sequenceNumbers.length === 0) {
+		throw new NodeOperationError(this.getNode(), 'Sequence Numbers cannot be empty', { itemIndex });
+	}
+
+	return sequenceNumbers;
+}
+
+async function scheduleMessagesOnEntity(
+	this: IExecuteFunctions,
+	serviceBusClient: ServiceBusClient,
+	entityName: string,
+	entityInfo: IDataObject,
+	itemCount: number,
+): Promise<INodeExecutionData[]> {
+	const returnData: INodeExecutionData[] = [];
+	const sender = serviceBusClient.createSender(entityName);
+
+	try {
+		for (let i = 0; i < itemCount; i++) {
+			const message = await buildMessageFromParameters.call(this, i);
+			const scheduledEnqueueTime = getScheduledEnqueueTime.call(this, i);
+
+			console.log(`⏰ Scheduling message for ${scheduledEnqueueTime.toISOString()} on ${entityName}`);
+			const sequenceNumbers = await sender.scheduleMessages(message, scheduledEnqueueTime);
+			console.log(`✅ Message scheduled with sequence numbers: ${sequenceNumbers.join(', ')}`);
+
+			returnData.push({
+				json: {
+					success: true,
+					messageId: message.messageId,
+					...entityInfo,
+					scheduledEnqueueTime: scheduledEnqueueTime.toISOString(),
+					sequenceNumbers: sequenceNumbers.map((sequenceNumber) => sequenceNumber.toString()),
 				},
-				options: [
-					{
-						name: 'Send Message',
-						value: 'sendMessage',
-						description: 'Send a message to a queue',
-						action: 'Send a message to a queue',
-					},
-					{
-						name: 'Receive Messages',
-						value: 'receiveMessages',
-						description: 'Receive messages from a queue',
-						action: 'Receive messages from a queue',
-					},
-				],
-				default: 'sendMessage',
-			},
-			{
-				displayName: 'Operation',
-				name: 'operation',
-				type: 'options',
-				noDataExpression: true,
-				displayOptions: {
-					show: {
-						resource: ['topic'],
-					},
+			});
+		}
+	} finally {
+		await sender.close();
+	}
+
+	return returnData;
+}
+
+async function cancelScheduledMessagesOnEntity(
+	this: IExecuteFunctions,
+	serviceBusClient: ServiceBusClient,
+	entityName: string,
+	entityInfo: IDataObject,
+	itemCount: number,
+): Promise<INodeExecutionData[]> {
+	const returnData: INodeExecutionData[] = [];
+	const sender = serviceBusClient.createSender(entityName);
+
+	try {
+		for (let i = 0; i < itemCount; i++) {
+			const sequenceNumbers = getSequenceNumbers.call(this, i);
+
+			console.log(`🗑️ Cancelling scheduled messages on ${entityName}: ${sequenceNumbers.join(', ')}`);
+			await sender.cancelScheduledMessages(sequenceNumbers);
+
+			returnData.push({
+				json: {
+					success: true,
+					...entityInfo,
+					cancelledSequenceNumbers: sequenceNumbers.map((sequenceNumber) => sequenceNumber.toString()),
+					cancelledAt: new Date().toISOString(),
 				},
-				options: [
-					{
-						name: 'Send Message',
-						value: 'sendMessage',
-						description: 'Send a message to a topic',
-						action: 'Send a message to a topic',
-					},
-				],
-				default: 'sendMessage',
+			});
+		}
+	} finally {
+		await sender.close();
+	}
+
+	return returnData;
+}
+
+/**
+ * Messages in one batch must share a session ID and partition key, or partitioned and
+ * session-enabled entities reject the whole batch. The session ID is used as the partition key
+ * when both are set, and applySystemProperties rejects messages where they differ.
+ */
+function getBatchGroupKey(message: MessageWithSession): string {
+	return message.sessionId || message.partitionKey || '';
+}
+
+/**
+ * Packs the input items into as few ServiceBusMessageBatch instances as possible, one open
+ * batch per session ID or partition key, sending each batch once it is full. Items too large
+ * to fit even an empty batch are reported as failed instead of aborting the whole send.
+ */
+async function sendMessagesInBatches(
+	this: IExecuteFunctions,
+	sender: ServiceBusSender,
+	entityInfo: IDataObject,
+	itemCount: number,
+): Promise<INodeExecutionData[]> {
+	const results: IDataObject[] = new Array(itemCount);
+	const openBatches = new Map<string, PendingMessageBatch>();
+	let batchNumber = 1;
+
+	const sendBatch = async ({ batch, items }: PendingMessageBatch): Promise<void> => {
+		console.log(`📦 Sending batch ${batchNumber} with ${batch.count} messages (${batch.sizeInBytes} bytes)`);
+		await sender.sendMessages(batch);
+		const sentAt = new Date().toISOString();
+		for (const { itemIndex, messageId } of items) {
+			results[itemIndex] = {
+				success: true,
+				messageId,
+				...entityInfo,
+				batchNumber,
+				sentAt,
+			};
+		}
+		console.log(`✅ Batch ${batchNumber} sent`);
+		batchNumber++;
+	};
+
+	for (let i = 0; i < itemCount; i++) {
+		const message = await buildMessageFromParameters.call(this, i);
+		const groupKey = getBatchGroupKey(message);
+
+		let pending = openBatches.get(groupKey);
+		if (!pending) {
+			pending = { batch: await sender.createMessageBatch(), items: [] };
+			openBatches.set(groupKey, pending);
+		}
+
+		if (!pending.batch.tryAddMessage(message)) {
+			if (pending.batch.count > 0) {
+				await sendBatch(pending);
+				pending = { batch: await sender.createMessageBatch(), items: [] };
+				openBatches.set(groupKey, pending);
+			}
+
+			if (!pending.batch.tryAddMessage(message)) {
+				console.error(`❌ Message ${i + 1} is too large to fit in a batch`);
+				results[i] = {
+					success: false,
+					messageId: message.messageId,
+					...entityInfo,
+					error: `Message is too large to fit in a batch (maximum batch size is ${pending.batch.maxSizeInBytes} bytes)`,
+				};
+				continue;
+			}
+		}
+
+		pending.items.push({ itemIndex: i, messageId: message.messageId });
+	}
+
+	for (const pending of openBatches.values()) {
+		if (pending.batch.count > 0) {
+			await sendBatch(pending);
+		}
+	}
+
+	return results.map((json) => ({ json }));
+}
+
+interface ReceiverEntity {
+	queueName?: string;
+	topicName?: string;
+	subscriptionName?: string;
+}
+
+function describeEntity(entity: ReceiverEntity): string {
+	if (entity.queueName !== undefined) {
+		return `queue ${entity.queueName}`;
+	}
+	return `subscription ${entity.topicName}/${entity.subscriptionName}`;
+}
+
+function createEntityReceiver(
+	serviceBusClient: ServiceBusClient,
+	entity: ReceiverEntity,
+	options: ServiceBusReceiverOptions,
+): ServiceBusReceiver {
+	if (entity.queueName !== undefined) {
+		return serviceBusClient.createReceiver(entity.queueName, options);
+	}
+	return serviceBusClient.createReceiver(entity.topicName!, entity.subscriptionName!, options);
+}
+
+/**
+ * Accepts a specific session, or the next available one when no session ID is given.
+ */
+async function acceptEntitySession(
+	serviceBusClient: ServiceBusClient,
+	entity: ReceiverEntity,
+	sessionId: string | undefined,
+	options: ServiceBusSessionReceiverOptions,
+): Promise<ServiceBusSessionReceiver> {
+	if (entity.queueName !== undefined) {
+		return sessionId === undefined
+			? serviceBusClient.acceptNextSession(entity.queueName, options)
+			: serviceBusClient.acceptSession(entity.queueName, sessionId, options);
+	}
+	return sessionId === undefined
+		? serviceBusClient.acceptNextSession(entity.topicName!, entity.subscriptionName!, options)
+		: serviceBusClient.acceptSession(entity.topicName!, entity.subscriptionName!, sessionId, options);
+}
+
+interface OpenedReceiver {
+	receiver: ServiceBusReceiver;
+	sessionId?: string;
+}
+
+/**
+ * Opens a receiver on the entity according to the Sub-Queue and Session Mode parameters.
+ */
+async function openEntityReceiver(
+	this: IExecuteFunctions,
+	serviceBusClient: ServiceBusClient,
+	entity: ReceiverEntity,
+	receiveMode: 'peekLock' | 'receiveAndDelete',
+): Promise<OpenedReceiver> {
+	const subQueue = this.getNodeParameter('subQueue', 0, 'none') as string;
+	const sessionMode = this.getNodeParameter('sessionMode', 0, 'none') as string;
+
+	if (subQueue === 'deadLetter' || subQueue === 'transferDeadLetter') {
+		console.log(`☠️ Creating receiver for ${subQueue} sub-queue of ${describeEntity(entity)}`);
+		return {
+			receiver: createEntityReceiver(serviceBusClient, entity, {
+				receiveMode,
+				subQueueType: subQueue,
+			}),
+		};
+	}
+
+	if (sessionMode === 'specific') {
+		const receiveSessionId = this.getNodeParameter('receiveSessionId', 0) as string;
+		const sessionTimeout = this.getNodeParameter('sessionTimeout', 0, 60) as number;
+
+		console.log(`🔐 Accepting specific session: ${receiveSessionId}`);
+		try {
+			const receiver = await acceptEntitySession(serviceBusClient, entity, receiveSessionId, {
+				receiveMode,
+				maxAutoLockRenewalDurationInMs: sessionTimeout * 1000,
+			});
+			console.log(`✅ Successfully accepted session: ${receiveSessionId}`);
+			return { receiver, sessionId: receiveSessionId };
+		} catch (sessionError) {
+			console.error(`❌ Failed to accept session ${receiveSessionId}:`, sessionError);
+			throw new NodeOperationError(
+				this.getNode(),
+				`Failed to accept session '${receiveSessionId}': ${sessionError instanceof Error ? sessionError.message : String(sessionError)}`
+			);
+		}
+	} else if (sessionMode === 'next') {
+		const sessionTimeout = this.getNodeParameter('sessionTimeout', 0, 60) as number;
+
+		console.log('🔐 Accepting next available session...');
+		try {
+			const receiver = await acceptEntitySession(serviceBusClient, entity, undefined, {
+				receiveMode,
+				maxAutoLockRenewalDurationInMs: sessionTimeout * 1000,
+			});
+			console.log(`✅ Successfully accepted next session: ${receiver.sessionId}`);
+			return { receiver, sessionId: receiver.sessionId };
+		} catch (sessionError) {
+			console.error('❌ Failed to accept next session:', sessionError);
+			throw new NodeOperationError(
+				this.getNode(),
+				`No available sessions or failed to accept session: ${sessionError instanceof Error ? sessionError.message : String(sessionError)}`
+			);
+		}
+	}
+
+	console.log('📨 Creating standard receiver (no sessions)');
+	return {
+		receiver: createEntityReceiver(serviceBusClient, entity, {
+			receiveMode,
+		}),
+	};
+}
+
+/**
+ * Maps a received or peeked message to the node's output shape.
+ */
+function formatReceivedMessage(
+	message: ServiceBusReceivedMessage,
+	bodyOutput: BodyOutput = 'auto',
+	metadata: MessageMetadata = 'standard',
+): IDataObject {
+	console.log(`📝 Processing message ID: ${message.messageId}`);
+	console.log(`📝 Original body type: ${typeof message.body}, isBuffer: ${Buffer.isBuffer(message.body)}`);
+
+	const result: IDataObject = {
+		messageId: message.messageId,
+		...formatMessageBody(message, bodyOutput),
+		contentType: message.contentType,
+		enqueuedTimeUtc: message.enqueuedTimeUtc,
+		applicationProperties: message.applicationProperties,
+		deliveryCount: message.deliveryCount,
+		sequenceNumber: message.sequenceNumber?.toString(),
+		sessionId: message.sessionId,
+		...(message.deadLetterReason !== undefined || message.deadLetterErrorDescription !== undefined
+			? {
+					deadLetterReason: message.deadLetterReason,
+					deadLetterErrorDescription: message.deadLetterErrorDescription,
+					deadLetterSource: message.deadLetterSource,
+				}
+			: {}),
+	};
+
+	if (metadata !== 'standard') {
+		Object.assign(result, formatSystemProperties(message));
+	}
+	if (metadata === 'rawAmqp') {
+		result.rawAmqpMessage = formatRawAmqpMessage(message);
+	}
+
+	return result;
+}
+
+/**
+ * Wraps a formatted message in an output item, moving the body into a binary property when asked to.
+ */
+async function createReceivedItem(
+	this: IExecuteFunctions,
+	json: IDataObject,
+	message: ServiceBusReceivedMessage,
+	bodyOutput: BodyOutput,
+	binaryPropertyParameter = 'binaryPropertyName',
+): Promise<INodeExecutionData> {
+	const item: INodeExecutionData = { json };
+	if (bodyOutput === 'binary') {
+		const binaryPropertyName = this.getNodeParameter(binaryPropertyParameter, 0, 'data') as string;
+		await setBinaryBody.call(this, item, message.body, message.contentType, binaryPropertyName);
+	}
+	return item;
+}
+
+/**
+ * Reads Leave Messages Locked. Messages left locked are settled later by lock token on the
+ * entity itself, which cannot reach session or sub-queue messages, so those are rejected.
+ */
+function getLeaveMessagesLocked(this: IExecuteFunctions, receiveMode: string, subQueue: string, sessionMode: string): boolean {
+	if (receiveMode !== 'peekLock' || !(this.getNodeParameter('leaveMessagesLocked', 0, false) as boolean)) {
+		return false;
+	}
+	if (subQueue !== 'none') {
+		throw new NodeOperationError(this.getNode(), 'Leave Messages Locked is not available for sub-queues', {
+			description: 'Messages left locked are settled by lock token on the entity itself. Turn it off to complete sub-queue messages on receive.',
+		});
+	}
+	if (sessionMode !== 'none') {
+		throw new NodeOperationError(this.getNode(), 'Leave Messages Locked is not available with sessions', {
+			description: 'Session messages can only be settled while their session is locked by the receiver. Turn it off, or set Session Mode to None.',
+		});
+	}
+	return true;
+}
+
+async function receiveMessagesFromEntity(
+	this: IExecuteFunctions,
+	serviceBusClient: ServiceBusClient,
+	entity: ReceiverEntity,
+): Promise<INodeExecutionData[]> {
+	const maxMessageCount = this.getNodeParameter('maxMessageCount', 0) as number;
+	const maxWaitTimeInSeconds = this.getNodeParameter('maxWaitTimeInSeconds', 0) as number;
+	const receiveMode = this.getNodeParameter('receiveMode', 0) as 'peekLock' | 'receiveAndDelete';
+	const bodyOutput = this.getNodeParameter('bodyOutput', 0, 'auto') as BodyOutput;
+	const metadata = this.getNodeParameter('messageMetadata', 0, 'standard') as MessageMetadata;
+	const subQueue = this.getNodeParameter('subQueue', 0, 'none') as string;
+	const sessionMode = subQueue === 'none' ? (this.getNodeParameter('sessionMode', 0, 'none') as string) : 'none';
+	const leaveMessagesLocked = getLeaveMessagesLocked.call(this, receiveMode, subQueue, sessionMode);
+
+	console.log(`📨 Receiving messages from ${describeEntity(entity)} with session mode: ${sessionMode}`);
+
+	const returnData: INodeExecutionData[] = [];
+	const { receiver, sessionId: currentSessionId } = await openEntityReceiver.call(this, serviceBusClient, entity, receiveMode);
+	const isSessionReceiver = currentSessionId !== undefined;
+	let currentSessionState: unknown = null;
+
+	if (isSessionReceiver && sessionMode !== 'none') {
+		const manageSessionState = this.getNodeParameter('manageSessionState', 0, false) as boolean;
+		if (manageSessionState) {
+			try {
+				currentSessionState = await (receiver as ServiceBusSessionReceiver).getSessionState();
+				console.log(`🔐 Retrieved session state for ${currentSessionId}:`, currentSessionState);
+			} catch (stateError) {
+				console.log(`⚠️ No session state found for ${currentSessionId} (this is normal for new sessions)`);
+				currentSessionState = null;
+			}
+		}
+	}
+
+	const messages = await receiver.receiveMessages(maxMessageCount, {
+		maxWaitTimeInMs: maxWaitTimeInSeconds * 1000,
+	});
+
+	console.log(`📨 Received ${messages.length} messages from ${isSessionReceiver ? `session ${currentSessionId}` : describeEntity(entity)}`);
+
+	for (const message of messages) {
+		const result = formatReceivedMessage(message, bodyOutput, metadata);
+
+		if (isSessionReceiver && currentSessionId) {
+			result.sessionInfo = {
+				sessionId: currentSessionId,
+				sessionState: currentSessionState,
+				isSessionMessage: true,
+			};
+		}
+
+		if (leaveMessagesLocked) {
+			result.lockToken = message.lockToken;
+			result.lockedUntilUtc = message.lockedUntilUtc;
+		}
+
+		returnData.push(await createReceivedItem.call(this, result, message, bodyOutput));
+
+		if (receiveMode === 'peekLock' && !leaveMessagesLocked) {
+			await receiver.completeMessage(message);
+		}
+	}
+
+	if (isSessionReceiver && sessionMode !== 'none') {
+		const manageSessionState = this.getNodeParameter('manageSessionState', 0, false) as boolean;
+		const newSessionState = this.getNodeParameter('newSessionState', 0, '') as string;
+
+		if (manageSessionState && newSessionState && newSessionState.trim() !== '') {
+			try {
+				const stateObject = JSON.parse(newSessionState);
+				await (receiver as ServiceBusSessionReceiver).setSessionState(stateObject);
+				console.log(`✅ Updated session state for ${currentSessionId}:`, stateObject);
+			} catch (stateError) {
+				console.error(`❌ Failed to update session state for ${currentSessionId}:`, stateError);
+				throw new NodeOperationError(
+					this.getNode(),
+					`Failed to update session state: ${stateError instanceof Error ? stateError.message : String(stateError)}`
+				);
+			}
+		}
+	}
+
+	await receiver.close();
+	console.log(`✅ Receiver closed successfully`);
+
+	return returnData;
+}
+
+/**
+ * Browses messages without locking or removing them. With Return All enabled the
+ * receiver keeps peeking from where the previous page ended until the entity is exhausted.
+ */
+async function peekMessagesFromEntity(
+	this: IExecuteFunctions,
+	serviceBusClient: ServiceBusClient,
+	entity: ReceiverEntity,
+): Promise<INodeExecutionData[]> {
+	const maxMessageCount = this.getNodeParameter('maxMessageCount', 0) as number;
+	const returnAll = this.getNodeParameter('peekReturnAll', 0, false) as boolean;
+	const fromSequenceNumber = (this.getNodeParameter('fromSequenceNumber', 0, '') as string).trim();
+	const bodyOutput = this.getNodeParameter('bodyOutput', 0, 'auto') as BodyOutput;
+	const metadata = this.getNodeParameter('messageMetadata', 0, 'standard') as MessageMetadata;
+
+	if (fromSequenceNumber && !/^\d+$/.test(fromSequenceNumber)) {
+		throw new NodeOperationError(this.getNode(), `From Sequence Number must be a non-negative integer, got '${fromSequenceNumber}'`);
+	}
+
+	console.log(`👀 Peeking messages from ${describeEntity(entity)}${fromSequenceNumber ? ` starting at sequence number ${fromSequenceNumber}` : ''}`);
+
+	const returnData: INodeExecutionData[] = [];
+	const { receiver, sessionId: currentSessionId } = await openEntityReceiver.call(this, serviceBusClient, entity, 'peekLock');
+
+	try {
+		let peekOptions: PeekMessagesOptions = fromSequenceNumber
+			? { fromSequenceNumber: Long.fromString(fromSequenceNumber) }
+			: {};
+
+		while (true) {
+			const messages = await receiver.peekMessages(maxMessageCount, peekOptions);
+			console.log(`👀 Peeked ${messages.length} messages`);
+
+			for (const message of messages) {
+				const result = formatReceivedMessage(message, bodyOutput, metadata);
+				if (currentSessionId !== undefined) {
+					result.sessionInfo = {
+						sessionId: currentSessionId,
+						isSessionMessage: true,
+					};
+				}
+				returnData.push(await createReceivedItem.call(this, result, message, bodyOutput));
+			}
+
+			if (!returnAll || messages.length === 0) {
+				break;
+			}
+
+			// The receiver remembers where the last peek ended, so later pages need no explicit start
+			peekOptions = {};
+		}
+	} finally {
+		await receiver.close();
+	}
+
+	return returnData;
+}
+
+/**
+ * Waits for the reply sent to a session: the session is locked for this request, so the
+ * first message in it is the reply.
+ */
+async function receiveReplyFromSession(
+	serviceBusClient: ServiceBusClient,
+	replyQueueName: string,
+	sessionId: string,
+	deadline: number,
+): Promise<ServiceBusReceivedMessage | undefined> {
+	const receiver = await serviceBusClient.acceptSession(replyQueueName, sessionId);
+	try {
+		const [reply] = await receiver.receiveMessages(1, { maxWaitTimeInMs: Math.max(deadline - Date.now(), 0) });
+		if (reply) {
+			await receiver.completeMessage(reply);
+		}
+		return reply;
+	} finally {
+		await receiver.close();
+	}
+}
+
+/**
+ * Waits for a reply with a matching correlation ID on a subscription created for this request
+ * alone. Its correlation filter keeps replies to other requests out of it, so they are never
+ * received (and their delivery count never raised) here. The subscription is deleted afterwards,
+ * and deletes itself after five idle minutes should that fail.
+ */
+async function receiveReplyByCorrelationId(
+	serviceBusClient: ServiceBusClient,
+	adminClient: ServiceBusAdministrationClient,
+	replyTopicName: string,
+	correlationId: string,
+	sendRequest: () => Promise<number>,
+): Promise<ServiceBusReceivedMessage | undefined> {
+	const subscriptionName = `n8n-reply-${randomUUID()}`;
+	await adminClient.createSubscription(replyTopicName, subscriptionName, {
+		autoDeleteOnIdle: 'PT5M',
+		defaultRuleOptions: { name: 'reply', filter: { correlationId } },
+	});
+
+	const receiver = serviceBusClient.createReceiver(replyTopicName, subscriptionName);
+	try {
+		// The subscription has to exist before the request is sent, or an early reply would be missed
+		const deadline = await sendRequest();
+		const [reply] = await receiver.receiveMessages(1, { maxWaitTimeInMs: Math.max(deadline - Date.now(), 0) });
+		if (reply) {
+			await receiver.completeMessage(reply);
+		}
+		return reply;
+	} finally {
+		await receiver.close();
+		await adminClient.deleteSubscription(replyTopicName, subscriptionName).catch((deleteError) => {
+			console.log(`⚠️ Could not delete reply subscription ${replyTopicName}/${subscriptionName}:`, deleteError);
+		});
+	}
+}
+
+/**
+ * Sends each item as a request and waits for its reply. Replies are matched by a generated Reply
+ * To Session ID on the reply queue, or by correlation ID on a reply topic.
+ */
+async function sendAndWaitForReplyOnEntity(
+	this: IExecuteFunctions,
+	serviceBusClient: ServiceBusClient,
+	connection: ServiceBusConnection,
+	entityName: string,
+	entityInfo: IDataObject,
+	itemCount: number,
+): Promise<INodeExecutionData[]> {
+	const returnData: INodeExecutionData[] = [];
+	const replyCorrelation = this.getNodeParameter('replyCorrelation', 0, 'session') as string;
+	const replyEntityName = (
+		this.getNodeParameter(replyCorrelation === 'session' ? 'replyQueueName' : 'replyTopicName', 0, '') as string
+	).trim();
+	const replyTimeoutInSeconds = this.getNodeParameter('replyTimeout', 0, 30) as number;
+	const bodyOutput = this.getNodeParameter('bodyOutput', 0, 'auto') as BodyOutput;
+	const metadata = this.getNodeParameter('messageMetadata', 0, 'standard') as MessageMetadata;
+
+	if (!replyEntityName) {
+		throw new NodeOperationError(this.getNode(), `Reply ${replyCorrelation === 'session' ? 'Queue' : 'Topic'} Name cannot be empty`);
+	}
+
+	const adminClient = replyCorrelation === 'session' ? undefined : createAdministrationClient(connection);
+	const sender = serviceBusClient.createSender(entityName);
+	try {
+		for (let i = 0; i < itemCount; i++) {
+			const message = await buildMessageFromParameters.call(this, i);
+			message.replyTo = replyEntityName;
+
+			let correlationKey: string;
+			if (replyCorrelation === 'session') {
+				message.replyToSessionId = message.replyToSessionId || randomUUID();
+				correlationKey = message.replyToSessionId;
+			} else {
+				// Repliers copy either the request's message ID or its correlation ID, so both carry the key
+				correlationKey = String(message.correlationId ?? message.messageId ?? randomUUID());
+				message.messageId = message.messageId ?? correlationKey;
+				message.correlationId = message.correlationId ?? correlationKey;
+			}
+
+			let sentAt = Date.now();
+			const sendRequest = async (): Promise<number> => {
+				console.log(`📤 Sending request to ${entityName}, waiting up to ${replyTimeoutInSeconds}s for a reply on ${replyEntityName} (${replyCorrelation} ${correlationKey})`);
+				await sender.sendMessages(message);
+				sentAt = Date.now();
+				return sentAt + replyTimeoutInSeconds * 1000;
+			};
+
+			const reply = adminClient
+				? await receiveReplyByCorrelationId(serviceBusClient, adminClient, replyEntityName, correlationKey, sendRequest)
+				: await receiveReplyFromSession(serviceBusClient, replyEntityName, correlationKey, await sendRequest());
+
+			if (!reply) {
+				console.error(`⏱️ No reply for ${correlationKey} within ${replyTimeoutInSeconds}s`);
+				throw new ReplyTimeoutError(
+					this.getNode(),
+					`Reply timeout: no reply on '${replyEntityName}' within ${replyTimeoutInSeconds}s for ${replyCorrelation === 'session' ? 'session' : 'correlation ID'} '${correlationKey}'`,
+					{
+						itemIndex: i,
+						description: 'The request was sent, so the replier may still process it. Increase the Reply Timeout or check that the replier is running.',
+					},
+				);
+			}
+
+			console.log(`📨 Reply ${reply.messageId} received after ${Date.now() - sentAt}ms`);
+			const result = formatReceivedMessage(reply, bodyOutput, metadata);
+			result.request = {
+				messageId: message.messageId,
+				correlationId: message.correlationId,
+				replyTo: message.replyTo,
+				replyToSessionId: message.replyToSessionId,
+				...entityInfo,
+				sentAt: new Date(sentAt).toISOString(),
+			};
+			result.roundTripMs = Date.now() - sentAt;
+			returnData.push(await createReceivedItem.call(this, result, reply, bodyOutput, 'replyBinaryPropertyName'));
+		}
+	} finally {
+		await sender.close();
+	}
+
+	return returnData;
+}
+
+interface ResubmitFilters {
+	deadLetterReason?: string;
+	errorDescriptionContains?: string;
+	enqueuedAfter?: string;
+	enqueuedBefore?: string;
+	sessionId?: string;
+}
+
+function matchesResubmitFilters(message: ServiceBusReceivedMessage, filters: ResubmitFilters): boolean {
+	if (filters.deadLetterReason && message.deadLetterReason !== filters.deadLetterReason) {
+		return false;
+	}
+	if (
+		filters.errorDescriptionContains &&
+		!(message.deadLetterErrorDescription ?? '').includes(filters.errorDescriptionContains)
+	) {
+		return false;
+	}
+	if (filters.sessionId && message.sessionId !== filters.sessionId) {
+		return false;
+	}
+	const enqueuedTime = message.enqueuedTimeUtc?.getTime();
+	if (filters.enqueuedAfter && (enqueuedTime === undefined || enqueuedTime <= new Date(filters.enqueuedAfter).getTime())) {
+		return false;
+	}
+	if (filters.enqueuedBefore && (enqueuedTime === undefined || enqueuedTime >= new Date(filters.enqueuedBefore).getTime())) {
+		return false;
+	}
+	return true;
+}
+
+/**
+ * Application properties the broker or the trigger set when dead-lettering a message. They
+ * describe the earlier failure, so they are not carried over to the resubmitted message.
+ */
+const DEAD_LETTER_APPLICATION_PROPERTIES = ['DeadLetterReason', 'DeadLetterErrorDescription'];
+
+/**
+ * Application property naming the subscription a message was resubmitted for, so the rules of
+ * the other subscriptions of the topic can leave it out.
+ */
+const RESUBMIT_SUBSCRIPTION_PROPERTY = 'n8nResubmitSubscription';
+
+interface ResubmitOptions {
+	/** Keep the original message ID. Duplicate detection then drops the message if the ID is still in its window. */
+	keepMessageId: boolean;
+	/** Subscription the dead-lettered message came from, when it is resubmitted to its topic. */
+	subscriptionName?: string;
+}
+
+/**
+ * Copies the body, system properties and application properties of a dead-lettered
+ * message into a new message that can be sent back to its source entity.
+ */
+function createResubmitMessage(message: ServiceBusReceivedMessage, options: ResubmitOptions): ServiceBusMessage {
+	const applicationProperties = { ...message.applicationProperties };
+	for (const property of DEAD_LETTER_APPLICATION_PROPERTIES) {
+		delete applicationProperties[property];
+	}
+	if (options.subscriptionName) {
+		applicationProperties[RESUBMIT_SUBSCRIPTION_PROPERTY] = options.subscriptionName;
+	}
+
+	return {
+		body: message.body,
+		contentType: message.contentType,
+		correlationId: message.correlationId,
+		messageId: options.keepMessageId ? message.messageId : randomUUID(),
+		partitionKey: message.partitionKey,
+		replyTo: message.replyTo,
+		replyToSessionId: message.replyToSessionId,
+		sessionId: message.sessionId,
+		subject: message.subject,
+		timeToLive: message.timeToLive,
+		to: message.to,
+		applicationProperties,
+	};
+}
+
+/**
+ * Receives a batch from the dead-letter sub-queue, re-sends each matching message to the
+ * source queue or topic and completes it. Messages that don't match the filters, or fail
+ * to send, are abandoned so they stay in the dead-letter queue.
+ */
+async function resubmitDeadLettersOnEntity(
+	this: IExecuteFunctions,
+	serviceBusClient: ServiceBusClient,
+	entity: ReceiverEntity,
+	targetName: string,
+): Promise<INodeExecutionData[]> {
+	const maxMessageCount = this.getNodeParameter('maxMessageCount', 0) as number;
+	const maxWaitTimeInSeconds = this.getNodeParameter('maxWaitTimeInSeconds', 0) as number;
+	const subQueueType = this.getNodeParameter('resubmitFrom', 0, 'deadLetter') as 'deadLetter' | 'transferDeadLetter';
+	const filters = this.getNodeParameter('resubmitFilters', 0, {}) as ResubmitFilters;
+	const resubmitOptions: ResubmitOptions = {
+		keepMessageId: this.getNodeParameter('resubmitMessageId', 0, 'new') === 'keep',
+		subscriptionName: entity.subscriptionName,
+	};
+
+	if (entity.subscriptionName && !this.getNodeParameter('resubmitToTopic', 0, false)) {
+		throw new NodeOperationError(this.getNode(), `Resubmitting dead-letters of subscription '${entity.subscriptionName}' sends them to topic '${targetName}'`, {
+			description: `Every subscription of the topic receives them again. Turn on Send to Whole Topic to confirm, and filter on the ${RESUBMIT_SUBSCRIPTION_PROPERTY} application property in the rules of the other subscriptions to keep them out.`,
+		});
+	}
+
+	console.log(`♻️ Resubmitting messages from ${subQueueType} sub-queue of ${describeEntity(entity)} to ${targetName}`);
+
+	const returnData: INodeExecutionData[] = [];
+	const receiver = createEntityReceiver(serviceBusClient, entity, { receiveMode: 'peekLock', subQueueType });
+	const sender = serviceBusClient.createSender(targetName);
+
+	try {
+		const messages = await receiver.receiveMessages(maxMessageCount, {
+			maxWaitTimeInMs: maxWaitTimeInSeconds * 1000,
+		});
+		console.log(`♻️ Received ${messages.length} dead-lettered messages`);
+
+		for (const message of messages) {
+			const result: IDataObject = {
+				messageId: message.messageId,
+				sequenceNumber: message.sequenceNumber?.toString(),
+				sessionId: message.sessionId,
+				deadLetterReason: message.deadLetterReason,
+				deadLetterErrorDescription: message.deadLetterErrorDescription,
+				resubmittedTo: targetName,
+			};
+
+			if (!matchesResubmitFilters(message, filters)) {
+				await receiver.abandonMessage(message);
+				result.resubmitted = false;
+				result.skippedReason = 'Did not match filters';
+				returnData.push({ json: result });
+				continue;
+			}
+
+			try {
+				const resubmitMessage = createResubmitMessage(message, resubmitOptions);
+				await sender.sendMessages(resubmitMessage);
+				await receiver.completeMessage(message);
+				result.resubmitted = true;
+				result.resubmittedMessageId = resubmitMessage.messageId;
+				result.resubmittedAt = new Date().toISOString();
+				console.log(`✅ Resubmitted dead-lettered message ${message.messageId}`);
+			} catch (sendError) {
+				console.error(`❌ Failed to resubmit message ${message.messageId}:`, sendError);
+				await receiver.abandonMessage(message);
+				result.resubmitted = false;
+				result.error = sendError instanceof Error ? sendError.message : String(sendError);
+			}
+
+			returnData.push({ json: result });
+		}
+	} finally {
+		await sender.close();
+		await receiver.close();
+	}
+
+	return returnData;
+}
+
+async function settleMessagesOnEntity(
+	this: IExecuteFunctions,
+	serviceBusClient: ServiceBusClient,
+	entity: ReceiverEntity,
+	operation: string,
+	itemCount: number,
+): Promise<INodeExecutionData[]> {
+	const returnData: INodeExecutionData[] = [];
+	const receiver = createEntityReceiver(serviceBusClient, entity, { receiveMode: 'peekLock' });
+	console.log(`🔏 Settling messages on ${describeEntity(entity)} with operation: ${operation}`);
+
+	try {
+		for (let i = 0; i < itemCount; i++) {
+			const lockToken = (this.getNodeParameter('lockToken', i, '') as string).trim();
+			if (!lockToken) {
+				throw new NodeOperationError(this.getNode(), 'Lock Token cannot be empty', { itemIndex: i });
+			}
+
+			const message = createLockedMessageReference(lockToken);
+			const result: IDataObject = {
+				success: true,
+				operation,
+				lockToken,
+				...entity,
+			};
+
+			if (operation === 'complete') {
+				await receiver.completeMessage(message);
+			} else if (operation === 'abandon') {
+				await receiver.abandonMessage(message, getPropertiesToModify.call(this, i));
+			} else if (operation === 'defer') {
+				await receiver.deferMessage(message, getPropertiesToModify.call(this, i));
+			} else if (operation === 'deadLetter') {
+				const deadLetterReason = this.getNodeParameter('deadLetterReason', i, '') as string;
+				const deadLetterErrorDescription = this.getNodeParameter('deadLetterErrorDescription', i, '') as string;
+				await receiver.deadLetterMessage(message, {
+					...getPropertiesToModify.call(this, i),
+					deadLetterReason,
+					deadLetterErrorDescription,
+				});
+				result.deadLetterReason = deadLetterReason;
+			} else if (operation === 'renewLock') {
+				result.lockedUntilUtc = await receiver.renewMessageLock(message);
+			} else {
+				throw new NodeOperationError(this.getNode(), `Unsupported message operation: ${operation}`);
+			}
+
+			console.log(`✅ Message with lock token ${lockToken} settled: ${operation}`);
+			result.settledAt = new Date().toISOString();
+			returnData.push({ json: result });
+		}
+	} finally {
+		await receiver.close();
+	}
+
+	return returnData;
+}
+
+function getPropertiesToModify(this: IExecuteFunctions, itemIndex: number): Record<string, string> | undefined {
+	const propertiesToModify = this.getNodeParameter('propertiesToModify', itemIndex, {}) as { property?: Array<{ key: string; value: string }> };
+	if (!propertiesToModify?.property) {
+		return undefined;
+	}
+
+	const properties: Record<string, string> = {};
+	for (const prop of propertiesToModify.property) {
+		if (prop.key) {
+			properties[prop.key] = prop.value;
+		}
+	}
+	return properties;
+}
+
+/**
+ * Response headers the REST API always sends. Every other header on a received message is an
+ * application property. node-fetch lower-cases header names, so property names arrive lower-cased.
+ */
+const STANDARD_HTTP_HEADERS = new Set([
+	'brokerproperties',
+	'connection',
+	'content-length',
+	'content-type',
+	'date',
+	'location',
+	'server',
+	'strict-transport-security',
+	'transfer-encoding',
+]);
+
+/**
+ * REST path of the entity, including the dead-letter sub-queue when one is selected.
+ */
+function getHttpEntityPath(entity: ReceiverEntity, subQueue: string): string {
+	const entityPath =
+		entity.queueName !== undefined ? entity.queueName : `${entity.topicName}/subscriptions/${entity.subscriptionName}`;
+	if (subQueue === 'deadLetter') {
+		return `${entityPath}/$DeadLetterQueue`;
+	} else if (subQueue === 'transferDeadLetter') {
+		return `${entityPath}/$Transfer/$DeadLetterQueue`;
+	}
+	return entityPath;
+}
+
+/**
+ * Rebuilds a received message from a REST response so it can share the SDK output formatting.
+ */
+function createMessageFromHttpResponse(
+	headers: { forEach(callback: (value: string, name: string) => void): void; get(name: string): string | null },
+	body: Buffer,
+): ServiceBusReceivedMessage {
+	const brokerProperties = JSON.parse(headers.get('brokerproperties') || '{}');
+	const applicationProperties: Record<string, string | number | boolean> = {};
+
+	headers.forEach((value, name) => {
+		if (STANDARD_HTTP_HEADERS.has(name)) {
+			return;
+		}
+		// Property values are JSON encoded, so strings arrive quoted and numbers and booleans bare
+		try {
+			applicationProperties[name] = JSON.parse(value);
+		} catch {
+			applicationProperties[name] = value;
+		}
+	});
+
+	const deadLetterReason = applicationProperties.deadletterreason;
+	const deadLetterErrorDescription = applicationProperties.deadlettererrordescription;
+	const enqueuedTimeUtc = brokerProperties.EnqueuedTimeUtc ? new Date(brokerProperties.EnqueuedTimeUtc) : undefined;
+	// The REST API reports the time to live in seconds; the SDK and the node output use milliseconds
+	const timeToLive = brokerProperties.TimeToLive !== undefined ? brokerProperties.TimeToLive * 1000 : undefined;
+
+	return {
+		messageId: brokerProperties.MessageId,
+		body,
+		contentType: headers.get('content-type') || undefined,
+		correlationId: brokerProperties.CorrelationId,
+		subject: brokerProperties.Label,
+		to: brokerProperties.To,
+		replyTo: brokerProperties.ReplyTo,
+		replyToSessionId: brokerProperties.ReplyToSessionId,
+		partitionKey: brokerProperties.PartitionKey,
+		sessionId: brokerProperties.SessionId,
+		timeToLive,
+		scheduledEnqueueTimeUtc: brokerProperties.ScheduledEnqueueTimeUtc ? new Date(brokerProperties.ScheduledEnqueueTimeUtc) : undefined,
+		enqueuedTimeUtc,
+		expiresAtUtc: enqueuedTimeUtc && timeToLive !== undefined ? new Date(Math.min(enqueuedTimeUtc.getTime() + timeToLive, 8640000000000000)) : undefined,
+		enqueuedSequenceNumber: brokerProperties.EnqueuedSequenceNumber,
+		state: typeof brokerProperties.State === 'string' ? brokerProperties.State.toLowerCase() : undefined,
+		lockedUntilUtc: brokerProperties.LockedUntilUtc ? new Date(brokerProperties.LockedUntilUtc) : undefined,
+		lockToken: brokerProperties.LockToken,
+		deliveryCount: brokerProperties.DeliveryCount,
+		sequenceNumber: brokerProperties.SequenceNumber !== undefined ? Long.fromString(String(brokerProperties.SequenceNumber)) : undefined,
+		deadLetterSource: brokerProperties.DeadLetterSource,
+		deadLetterReason: deadLetterReason !== undefined ? String(deadLetterReason) : undefined,
+		deadLetterErrorDescription: deadLetterErrorDescription !== undefined ? String(deadLetterErrorDescription) : undefined,
+		applicationProperties,
+	} as unknown as ServiceBusReceivedMessage;
+}
+
+/**
+ * Receives messages one at a time from the REST API: DELETE on the head of the entity for
+ * Receive and Delete, POST for Peek Lock. Stops early once the entity returns no content.
+ */
+async function receiveMessagesViaHTTP(
+	this: IExecuteFunctions,
+	connectionDetails: ConnectionDetails,
+	entity: ReceiverEntity,
+): Promise<INodeExecutionData[]> {
+	const maxMessageCount = this.getNodeParameter('maxMessageCount', 0) as number;
+	const maxWaitTimeInSeconds = this.getNodeParameter('maxWaitTimeInSeconds', 0) as number;
+	const receiveMode = this.getNodeParameter('receiveMode', 0) as 'peekLock' | 'receiveAndDelete';
+	const bodyOutput = this.getNodeParameter('bodyOutput', 0, 'auto') as BodyOutput;
+	const metadata = this.getNodeParameter('messageMetadata', 0, 'standard') as MessageMetadata;
+	const subQueue = this.getNodeParameter('subQueue', 0, 'none') as string;
+	const sessionMode = subQueue === 'none' ? (this.getNodeParameter('sessionMode', 0, 'none') as string) : 'none';
+	if (sessionMode !== 'none') {
+		throw new NodeOperationError(this.getNode(), 'Sessions are only supported with Azure SDK protocol');
+	}
+	const leaveMessagesLocked = getLeaveMessagesLocked.call(this, receiveMode, subQueue, sessionMode);
+	if (metadata === 'rawAmqp') {
+		throw new NodeOperationError(this.getNode(), 'Raw AMQP output is only supported with Azure SDK protocol');
+	}
+
+	const entityPath = getHttpEntityPath(entity, subQueue);
+	const baseUri = `https://${connectionDetails.hostname}/${getHttpEntityPath(entity, 'none')}`;
+	const method = receiveMode === 'peekLock' ? 'POST' : 'DELETE';
+	console.log(`🌍 Receiving up to ${maxMessageCount} messages via HTTP from ${entityPath} (${method})`);
+
+	const returnData: INodeExecutionData[] = [];
+	while (returnData.length < maxMessageCount) {
+		// Only the first request waits for a message to arrive; later ones collect what is already there
+		const timeout = returnData.length === 0 ? maxWaitTimeInSeconds : 1;
+		const response = await fetch(`https://${connectionDetails.hostname}/${entityPath}/messages/head?timeout=${timeout}`, {
+			method,
+			headers: { Authorization: await getAuthorizationHeader(connectionDetails, baseUri) },
+		});
+
+		if (response.status === 204) {
+			break;
+		}
+		if (!response.ok) {
+			const errorText = await response.text();
+			console.error('❌ HTTP Error response:', errorText);
+			throw new Error(`HTTP ${response.status}: ${errorText}`);
+		}
+
+		const message = createMessageFromHttpResponse(response.headers, await response.buffer());
+		const result = formatReceivedMessage(message, bodyOutput, metadata);
+		const lockLocation = response.headers.get('location');
+
+		if (leaveMessagesLocked) {
+			result.lockToken = message.lockToken;
+			result.lockedUntilUtc = message.lockedUntilUtc;
+			result.lockLocation = lockLocation;
+		} else if (receiveMode === 'peekLock' && lockLocation) {
+			await sendLockRequest(connectionDetails, lockLocation, 'DELETE');
+		}
+
+		returnData.push(await createReceivedItem.call(this, result, message, bodyOutput));
+	}
+
+	console.log(`🌍 Received ${returnData.length} messages via HTTP`);
+	return returnData;
+}
+
+/**
+ * Acts on a peek-locked message through its lock URI: DELETE completes, PUT unlocks (abandons)
+ * and POST renews the lock.
+ */
+async function sendLockRequest(
+	connectionDetails: ConnectionDetails,
+	lockLocation: string,
+	method: 'DELETE' | 'PUT' | 'POST',
+): Promise<void> {
+	const messagesIndex = lockLocation.indexOf('/messages/');
+	const resourceUri = messagesIndex > 0 ? lockLocation.substring(0, messagesIndex) : lockLocation;
+
+	const response = await fetch(lockLocation, {
+		method,
+		headers: { Authorization: await getAuthorizationHeader(connectionDetails, resourceUri) },
+	});
+
+	if (!response.ok) {
+		const errorText = await response.text();
+		console.error('❌ HTTP Error response:', errorText);
+		throw new Error(`HTTP ${response.status}: ${errorText}`);
+	}
+}
+
+async function settleMessagesViaHTTP(
+	this: IExecuteFunctions,
+	connectionDetails: ConnectionDetails,
+	operation: string,
+	itemCount: number,
+): Promise<INodeExecutionData[]> {
+	const lockMethods: Record<string, 'DELETE' | 'PUT' | 'POST'> = {
+		complete: 'DELETE',
+		abandon: 'PUT',
+		renewLock: 'POST',
+	};
+	const method = lockMethods[operation];
+	if (!method) {
+		throw new NodeOperationError(this.getNode(), `The ${operation} operation is only supported with Azure SDK protocol`);
+	}
+
+	const returnData: INodeExecutionData[] = [];
+	for (let i = 0; i < itemCount; i++) {
+		const lockLocation = (this.getNodeParameter('lockLocation', i, '') as string).trim();
+		if (!lockLocation) {
+			throw new NodeOperationError(this.getNode(), 'Lock Location cannot be empty', { itemIndex: i });
+		}
+		if (!lockLocation.startsWith(`https://${connectionDetails.hostname}/`)) {
+			throw new NodeOperationError(this.getNode(), `Lock Location must be a URI on ${connectionDetails.hostname}`, { itemIndex: i });
+		}
+
+		await sendLockRequest(connectionDetails, lockLocation, method);
+		console.log(`✅ Message at ${lockLocation} settled via HTTP: ${operation}`);
+
+		returnData.push({
+			json: {
+				success: true,
+				operation,
+				lockLocation,
+				settledAt: new Date().toISOString(),
+			},
+		});
+	}
+
+	return returnData;
+}
+
+export class AzureServiceBus implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Azure Service Bus',
+		name: 'azureServiceBus',
+		icon: 'file:azureServiceBus.svg',
+		group: ['transform'],
+		version: 1,
+		subtitle: '={{$parameter["operation"] + ": " + $parameter["resource"]}}',
+		description: 'Send and receive messages from Azure Service Bus',
+		defaults: {
+			name: 'Azure Service Bus',
+		},
+		inputs: ['main'],
+		outputs: ['main'],
+		credentials: credentialDescriptions,
+		properties: [
+			authenticationProperty,
+			{
+				displayName: 'Protocol',
+				name: 'protocol',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Azure SDK (Recommended)',
+						value: 'sdk',
+						description: 'Use official @azure/service-bus SDK',
+					},
+					{
+						name: 'HTTP REST API',
+						value: 'http',
+						description: 'Use Azure Service Bus REST API (firewall-friendly)',
+					},
+				],
+				default: 'sdk',
+				description: 'Protocol to use for Azure Service Bus connection',
+			},
+			{
+				displayName: 'Resource',
+				name: 'resource',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Queue',
+						value: 'queue',
+					},
+					{
+						name: 'Topic',
+						value: 'topic',
+					},
+					{
+						name: 'Message',
+						value: 'message',
+					},
+					{
+						name: 'Entity Management',
+						value: 'entityManagement',
+					},
+				],
+				default: 'queue',
+			},
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['queue'],
+					},
+				},
+				options: [
+					{
+						name: 'Send Message',
+						value: 'sendMessage',
+						description: 'Send a message to a queue',
+						action: 'Send a message to a queue',
+					},
+					{
+						name: 'Schedule Message',
+						value: 'scheduleMessage',
+						description: 'Schedule a message to be enqueued in a queue at a later time',
+						action: 'Schedule a message in a queue',
+					},
+					{
+						name: 'Cancel Scheduled Messages',
+						value: 'cancelScheduledMessages',
+						description: 'Cancel messages previously scheduled in a queue',
+						action: 'Cancel scheduled messages in a queue',
+					},
+					{
+						name: 'Receive Messages',
+						value: 'receiveMessages',
+						description: 'Receive messages from a queue',
+						action: 'Receive messages from a queue',
+					},
+					{
+						name: 'Send and Wait for Reply',
+						value: 'sendAndWaitForReply',
+						description: 'Send a request message and wait for the reply, on a session of a reply queue or, matched by correlation ID, on a reply topic (needs Manage rights)',
+						action: 'Send a message to a queue and wait for a reply',
+					},
+					{
+						name: 'Peek Messages',
+						value: 'peekMessages',
+						description: 'Browse messages in a queue without locking or removing them',
+						action: 'Peek messages in a queue',
+					},
+					{
+						name: 'Resubmit Dead-Lettered Messages',
+						value: 'resubmitDeadLetters',
+						description: 'Re-send messages from the dead-letter sub-queue back to the queue',
+						action: 'Resubmit dead lettered messages to a queue',
+					},
+				],
+				default: 'sendMessage',
+			},
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['topic'],
+					},
+				},
+				options: [
+					{
+						name: 'Send Message',
+						value: 'sendMessage',
+						description: 'Send a message to a topic',
+						action: 'Send a message to a topic',
+					},
+					{
+						name: 'Schedule Message',
+						value: 'scheduleMessage',
+						description: 'Schedule a message to be enqueued in a topic at a later time',
+						action: 'Schedule a message in a topic',
+					},
+					{
+						name: 'Cancel Scheduled Messages',
+						value: 'cancelScheduledMessages',
+						description: 'Cancel messages previously scheduled in a topic',
+						action: 'Cancel scheduled messages in a topic',
+					},
+					{
+						name: 'Receive Messages',
+						value: 'receiveMessages',
+						description: 'Receive messages from a topic subscription',
+						action: 'Receive messages from a topic subscription',
+					},
+					{
+						name: 'Send and Wait for Reply',
+						value: 'sendAndWaitForReply',
+						description: 'Send a request message to a topic and wait for the reply, on a session of a reply queue or, matched by correlation ID, on a reply topic (needs Manage rights)',
+						action: 'Send a message to a topic and wait for a reply',
+					},
+					{
+						name: 'Peek Messages',
+						value: 'peekMessages',
+						description: 'Browse messages in a topic subscription without locking or removing them',
+						action: 'Peek messages in a topic subscription',
+					},
+					{
+						name: 'Resubmit Dead-Lettered Messages',
+						value: 'resubmitDeadLetters',
+						description: 'Re-send messages from a subscription dead-letter sub-queue back to the topic',
+						action: 'Resubmit dead lettered messages to a topic',
+					},
+				],
+				default: 'sendMessage',
+			},
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['message'],
+					},
+				},
+				options: [
+					{
+						name: 'Abandon',
+						value: 'abandon',
+						description: 'Release the lock on a message so it can be received again',
+						action: 'Abandon a message',
+					},
+					{
+						name: 'Complete',
+						value: 'complete',
+						description: 'Remove a locked message from the queue or subscription',
+						action: 'Complete a message',
+					},
+					{
+						name: 'Dead-Letter',
+						value: 'deadLetter',
+						description: 'Move a locked message to the dead-letter sub-queue',
+						action: 'Dead letter a message',
+					},
+					{
+						name: 'Defer',
+						value: 'defer',
+						description: 'Defer a locked message so it can only be received by sequence number',
+						action: 'Defer a message',
+					},
+					{
+						name: 'Renew Lock',
+						value: 'renewLock',
+						description: 'Extend the lock on a message',
+						action: 'Renew the lock on a message',
+					},
+				],
+				default: 'complete',
+			},
+			{
+				displayName: 'Entity Type',
+				name: 'entityType',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['message'],
+					},
+				},
+				options: [
+					{
+						name: 'Queue',
+						value: 'queue',
+					},
+					{
+						name: 'Topic Subscription',
+						value: 'subscription',
+					},
+				],
+				default: 'queue',
+				description: 'The entity the message was received from',
+			},
+			{
+				displayName: 'Queue Name',
+				name: 'queueName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['message'],
+						entityType: ['queue'],
+					},
+				},
+				default: '',
+				placeholder: 'my-queue',
+				description: 'Name of the queue the message was received from',
+			},
+			{
+				displayName: 'Topic Name',
+				name: 'topicName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['message'],
+						entityType: ['subscription'],
+					},
+				},
+				default: '',
+				placeholder: 'my-topic',
+				description: 'Name of the topic the message was received from',
+			},
+			{
+				displayName: 'Subscription Name',
+				name: 'subscriptionName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['message'],
+						entityType: ['subscription'],
+					},
+				},
+				default: '',
+				placeholder: 'my-subscription',
+				description: 'Name of the subscription the message was received from',
+			},
+			{
+				displayName: 'Lock Token',
+				name: 'lockToken',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['message'],
+						protocol: ['sdk'],
+					},
+				},
+				default: '',
+				placeholder: '={{ $json.lockToken }}',
+				description: 'Lock token of the message, as output by Receive Messages with Leave Messages Locked enabled',
+				required: true,
+			},
+			{
+				displayName: 'Lock Location',
+				name: 'lockLocation',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['message'],
+						protocol: ['http'],
+					},
+				},
+				default: '',
+				placeholder: '={{ $json.lockLocation }}',
+				description: 'Lock URI of the message, as output by Receive Messages over HTTP with Leave Messages Locked enabled. Only Complete, Abandon and Renew Lock are available over HTTP.',
+				required: true,
+			},
+			{
+				displayName: 'Dead-Letter Reason',
+				name: 'deadLetterReason',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['message'],
+						operation: ['deadLetter'],
+					},
+				},
+				default: '',
+				description: 'Reason for dead-lettering the message',
+			},
+			{
+				displayName: 'Dead-Letter Error Description',
+				name: 'deadLetterErrorDescription',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['message'],
+						operation: ['deadLetter'],
+					},
+				},
+				default: '',
+				description: 'Detailed description of why the message was dead-lettered',
+			},
+			{
+				displayName: 'Properties to Modify',
+				name: 'propertiesToModify',
+				placeholder: 'Add Property',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				displayOptions: {
+					show: {
+						resource: ['message'],
+						operation: ['abandon', 'defer', 'deadLetter'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						name: 'property',
+						displayName: 'Property',
+						values: [
+							{
+								displayName: 'Key',
+								name: 'key',
+								type: 'string',
+								default: '',
+								description: 'Application property key',
+							},
+							{
+								displayName: 'Value',
+								name: 'value',
+								type: 'string',
+								default: '',
+								description: 'Application property value',
+							},
+						],
+					},
+				],
 			},
 			{
 				displayName: 'Queue Name',
@@ -286,6 +2090,43 @@ export class AzureServiceBus implements INodeType {
 				placeholder: 'my-topic',
 				description: 'Name of the topic',
 			},
+			{
+				displayName: 'Subscription Name',
+				name: 'subscriptionName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['topic'],
+						operation: ['receiveMessages', 'peekMessages', 'resubmitDeadLetters'],
+					},
+				},
+				default: '',
+				placeholder: 'my-subscription',
+				description: 'Name of the subscription to receive or peek messages from',
+			},
+			{
+				displayName: 'Body Source',
+				name: 'bodySource',
+				type: 'options',
+				displayOptions: {
+					show: {
+						operation: ['sendMessage', 'scheduleMessage', 'sendAndWaitForReply'],
+					},
+				},
+				options: [
+					{
+						name: 'JSON or Text Field',
+						value: 'field',
+						description: 'Send the Message Body field',
+					},
+					{
+						name: 'Binary Property',
+						value: 'binary',
+						description: 'Send the raw bytes of an n8n binary property, e.g. a PDF or protobuf payload',
+					},
+				],
+				default: 'field',
+			},
 			{
 				displayName: 'Message Body',
 				name: 'messageBody',
@@ -295,7 +2136,8 @@ export class AzureServiceBus implements INodeType {
 				},
 				displayOptions: {
 					show: {
-						operation: ['sendMessage'],
+						operation: ['sendMessage', 'scheduleMessage', 'sendAndWaitForReply'],
+						bodySource: ['field'],
 					},
 				},
 				default: '',
@@ -305,74 +2147,431 @@ export class AzureServiceBus implements INodeType {
 				displayName: 'Session ID',
 				name: 'sessionId',
 				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['sendMessage', 'scheduleMessage', 'sendAndWaitForReply'],
+					},
+				},
+				default: '',
+				description: 'Session identifier for session-enabled queues/topics (optional)',
+			},
+			{
+				displayName: 'Message Properties Input',
+				name: 'messagePropertiesMode',
+				type: 'options',
+				displayOptions: {
+					show: {
+						operation: ['sendMessage', 'scheduleMessage', 'sendAndWaitForReply'],
+					},
+				},
+				options: [
+					{
+						name: 'Fields',
+						value: 'fields',
+						description: 'Enter each property with its type',
+					},
+					{
+						name: 'JSON',
+						value: 'json',
+						description: 'Pass an object whose strings, numbers, booleans and nulls keep their types',
+					},
+				],
+				default: 'fields',
+				description: 'How to provide the application properties of the message',
+			},
+			{
+				displayName: 'Message Properties',
+				name: 'messageProperties',
+				placeholder: 'Add Property',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				displayOptions: {
+					show: {
+						operation: ['sendMessage', 'scheduleMessage', 'sendAndWaitForReply'],
+						messagePropertiesMode: ['fields'],
+					},
+				},
+				default: {},
+				description: 'Application properties, typed so that subscription SQL filters like Priority > 5 match',
+				options: [
+					{
+						name: 'property',
+						displayName: 'Property',
+						values: [
+							{
+								displayName: 'Key',
+								name: 'key',
+								type: 'string',
+								default: '',
+								description: 'Property key',
+							},
+							{
+								displayName: 'Type',
+								name: 'type',
+								type: 'options',
+								options: [
+									{
+										name: 'Boolean',
+										value: 'boolean',
+									},
+									{
+										name: 'Date and Time',
+										value: 'dateTime',
+									},
+									{
+										name: 'Null',
+										value: 'null',
+									},
+									{
+										name: 'Number',
+										value: 'number',
+									},
+									{
+										name: 'String',
+										value: 'string',
+									},
+								],
+								default: 'string',
+							},
+							{
+								displayName: 'Value',
+								name: 'value',
+								type: 'string',
+								default: '',
+								description: 'Property value. Ignored for Null.',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Message Properties (JSON)',
+				name: 'messagePropertiesJson',
+				type: 'json',
+				displayOptions: {
+					show: {
+						operation: ['sendMessage', 'scheduleMessage', 'sendAndWaitForReply'],
+						messagePropertiesMode: ['json'],
+					},
+				},
+				default: '{}',
+				description: 'Object of application properties, e.g. {"Priority": 7, "IsUrgent": true}',
+			},
+			{
+				displayName: 'Content Type',
+				name: 'contentType',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['sendMessage', 'scheduleMessage', 'sendAndWaitForReply'],
+						bodySource: ['field'],
+					},
+				},
+				default: 'application/json',
+				description: 'Content type of the message',
+			},
+			{
+				displayName: 'Input Binary Field',
+				name: 'binaryPropertyName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['sendMessage', 'scheduleMessage', 'sendAndWaitForReply'],
+						bodySource: ['binary'],
+					},
+				},
+				default: 'data',
+				required: true,
+				description: 'Name of the binary property whose bytes become the message body',
+			},
+			{
+				displayName: 'Content Type',
+				name: 'contentType',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['sendMessage', 'scheduleMessage', 'sendAndWaitForReply'],
+						bodySource: ['binary'],
+					},
+				},
+				default: '',
+				placeholder: 'application/x-protobuf',
+				description: 'Content type of the message. Leave empty to use the MIME type of the binary data.',
+			},
+			{
+				displayName: 'Message ID',
+				name: 'messageId',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['sendMessage', 'scheduleMessage', 'sendAndWaitForReply'],
+					},
+				},
+				default: '',
+				description: 'Unique identifier for the message',
+			},
+			{
+				displayName: 'System Properties',
+				name: 'systemProperties',
+				placeholder: 'Add Property',
+				type: 'collection',
+				displayOptions: {
+					show: {
+						operation: ['sendMessage', 'scheduleMessage', 'sendAndWaitForReply'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'Correlation ID',
+						name: 'correlationId',
+						type: 'string',
+						default: '',
+						description: 'Identifier used to correlate a reply with its request, or to match correlation filters',
+					},
+					{
+						displayName: 'Partition Key',
+						name: 'partitionKey',
+						type: 'string',
+						default: '',
+						description: 'Key used to assign the message to a partition of a partitioned entity. Must match the Session ID if both are set.',
+					},
+					{
+						displayName: 'Reply To',
+						name: 'replyTo',
+						type: 'string',
+						default: '',
+						description: 'Queue or topic the receiver should reply to',
+					},
+					{
+						displayName: 'Reply To Session ID',
+						name: 'replyToSessionId',
+						type: 'string',
+						default: '',
+						description: 'Session the receiver should reply to',
+					},
+					{
+						displayName: 'Scheduled Enqueue Time (UTC)',
+						name: 'scheduledEnqueueTimeUtc',
+						type: 'dateTime',
+						default: '',
+						description: 'Hold the message until this time before it becomes visible. The Schedule Message operation uses its own Scheduled Enqueue Time instead.',
+					},
+					{
+						displayName: 'Subject',
+						name: 'subject',
+						type: 'string',
+						default: '',
+						description: 'Application-specific label, sent as Label over HTTP',
+					},
+					{
+						displayName: 'Time to Live (Seconds)',
+						name: 'timeToLive',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 3600,
+						description: 'How long the message stays available before it expires. Capped by the entity\'s default time to live.',
+					},
+					{
+						displayName: 'To',
+						name: 'to',
+						type: 'string',
+						default: '',
+						description: 'Address of the intended recipient, for auto-forwarding scenarios',
+					},
+				],
+			},
+			{
+				displayName: 'Send Mode',
+				name: 'sendMode',
+				type: 'options',
 				displayOptions: {
 					show: {
 						operation: ['sendMessage'],
 					},
-				},
-				default: '',
-				description: 'Session identifier for session-enabled queues/topics (optional)',
+				},
+				options: [
+					{
+						name: 'One Message per Request',
+						value: 'individual',
+						description: 'Send each input item in its own request',
+					},
+					{
+						name: 'Batch',
+						value: 'batch',
+						description: 'Pack input items into size-limited batches and send each batch in one request',
+					},
+				],
+				default: 'individual',
+				description: 'How to send messages for multiple input items',
+			},
+			{
+				displayName: 'Scheduled Enqueue Time',
+				name: 'scheduledEnqueueTime',
+				type: 'dateTime',
+				displayOptions: {
+					show: {
+						operation: ['scheduleMessage'],
+					},
+				},
+				default: '',
+				description: 'Date and time (UTC) at which the message becomes available to receivers',
+				required: true,
+			},
+			{
+				displayName: 'Sequence Numbers',
+				name: 'sequenceNumbers',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['cancelScheduledMessages'],
+					},
+				},
+				default: '',
+				placeholder: '={{ $json.sequenceNumbers }}',
+				description: 'Sequence numbers returned by Schedule Message, as a comma-separated list or an array',
+				required: true,
+			},
+			{
+				displayName: 'Sub-Queue',
+				name: 'subQueue',
+				type: 'options',
+				displayOptions: {
+					show: {
+						operation: ['receiveMessages', 'peekMessages'],
+					},
+				},
+				options: [
+					{
+						name: 'None',
+						value: 'none',
+						description: 'Read from the queue or subscription itself',
+					},
+					{
+						name: 'Dead-Letter Queue',
+						value: 'deadLetter',
+						description: 'Read from the $DeadLetterQueue sub-queue',
+					},
+					{
+						name: 'Transfer Dead-Letter Queue',
+						value: 'transferDeadLetter',
+						description: 'Read from the $Transfer/$DeadLetterQueue sub-queue',
+					},
+				],
+				default: 'none',
+				description: 'Sub-queue to read messages from. Sessions are not available on sub-queues.',
+			},
+			{
+				displayName: 'Dead-Letter Sub-Queue',
+				name: 'resubmitFrom',
+				type: 'options',
+				displayOptions: {
+					show: {
+						operation: ['resubmitDeadLetters'],
+					},
+				},
+				options: [
+					{
+						name: 'Dead-Letter Queue',
+						value: 'deadLetter',
+					},
+					{
+						name: 'Transfer Dead-Letter Queue',
+						value: 'transferDeadLetter',
+					},
+				],
+				default: 'deadLetter',
+				description: 'Sub-queue to take dead-lettered messages from',
 			},
 			{
-				displayName: 'Message Properties',
-				name: 'messageProperties',
-				placeholder: 'Add Property',
-				type: 'fixedCollection',
-				typeOptions: {
-					multipleValues: true,
-				},
+				displayName: 'Resubmitted Message ID',
+				name: 'resubmitMessageId',
+				type: 'options',
 				displayOptions: {
 					show: {
-						operation: ['sendMessage'],
+						operation: ['resubmitDeadLetters'],
 					},
 				},
-				default: {},
 				options: [
 					{
-						name: 'property',
-						displayName: 'Property',
-						values: [
-							{
-								displayName: 'Key',
-								name: 'key',
-								type: 'string',
-								default: '',
-								description: 'Property key',
-							},
-							{
-								displayName: 'Value',
-								name: 'value',
-								type: 'string',
-								default: '',
-								description: 'Property value',
-							},
-						],
+						name: 'Generate New',
+						value: 'new',
+						description: 'Send under a new message ID, which is output as resubmittedMessageId',
+					},
+					{
+						name: 'Keep Original',
+						value: 'keep',
+						description: 'Send under the original message ID. With duplicate detection enabled, the message is silently dropped while the ID is still within the detection window.',
 					},
 				],
+				default: 'new',
 			},
 			{
-				displayName: 'Content Type',
-				name: 'contentType',
-				type: 'string',
+				displayName: 'Send to Whole Topic',
+				name: 'resubmitToTopic',
+				type: 'boolean',
 				displayOptions: {
 					show: {
-						operation: ['sendMessage'],
+						resource: ['topic'],
+						operation: ['resubmitDeadLetters'],
 					},
 				},
-				default: 'application/json',
-				description: 'Content type of the message',
+				default: false,
+				description: `Whether to resubmit to the topic, so that every subscription receives the messages again, not only the one they were dead-lettered from. They carry the subscription name in the ${RESUBMIT_SUBSCRIPTION_PROPERTY} application property for the rules of other subscriptions to filter on.`,
 			},
 			{
-				displayName: 'Message ID',
-				name: 'messageId',
-				type: 'string',
+				displayName: 'Filters',
+				name: 'resubmitFilters',
+				type: 'collection',
+				placeholder: 'Add Filter',
 				displayOptions: {
 					show: {
-						operation: ['sendMessage'],
+						operation: ['resubmitDeadLetters'],
 					},
 				},
-				default: '',
-				description: 'Unique identifier for the message',
+				default: {},
+				description: 'Only resubmit messages matching all of these filters. Other messages stay in the dead-letter queue.',
+				options: [
+					{
+						displayName: 'Dead-Letter Reason',
+						name: 'deadLetterReason',
+						type: 'string',
+						default: '',
+						description: 'Only resubmit messages with exactly this dead-letter reason',
+					},
+					{
+						displayName: 'Error Description Contains',
+						name: 'errorDescriptionContains',
+						type: 'string',
+						default: '',
+						description: 'Only resubmit messages whose dead-letter error description contains this text',
+					},
+					{
+						displayName: 'Enqueued After',
+						name: 'enqueuedAfter',
+						type: 'dateTime',
+						default: '',
+						description: 'Only resubmit messages originally enqueued after this time',
+					},
+					{
+						displayName: 'Enqueued Before',
+						name: 'enqueuedBefore',
+						type: 'dateTime',
+						default: '',
+						description: 'Only resubmit messages originally enqueued before this time',
+					},
+					{
+						displayName: 'Session ID',
+						name: 'sessionId',
+						type: 'string',
+						default: '',
+						description: 'Only resubmit messages belonging to this session',
+					},
+				],
 			},
 			{
 				displayName: 'Session Mode',
@@ -380,8 +2579,9 @@ export class AzureServiceBus implements INodeType {
 				type: 'options',
 				displayOptions: {
 					show: {
-						operation: ['receiveMessages'],
+						operation: ['receiveMessages', 'peekMessages'],
 						protocol: ['sdk'],
+						subQueue: ['none'],
 					},
 				},
 				options: [
@@ -410,7 +2610,7 @@ export class AzureServiceBus implements INodeType {
 				type: 'string',
 				displayOptions: {
 					show: {
-						operation: ['receiveMessages'],
+						operation: ['receiveMessages', 'peekMessages'],
 						sessionMode: ['specific'],
 					},
 				},
@@ -425,7 +2625,7 @@ export class AzureServiceBus implements INodeType {
 				type: 'number',
 				displayOptions: {
 					show: {
-						operation: ['receiveMessages'],
+						operation: ['receiveMessages', 'peekMessages'],
 						sessionMode: ['specific', 'next'],
 					},
 				},
@@ -469,11 +2669,36 @@ export class AzureServiceBus implements INodeType {
 				type: 'number',
 				displayOptions: {
 					show: {
-						operation: ['receiveMessages'],
+						operation: ['receiveMessages', 'peekMessages', 'resubmitDeadLetters'],
 					},
 				},
 				default: 10,
-				description: 'Maximum number of messages to receive',
+				description: 'Maximum number of messages to receive, or to peek per page',
+			},
+			{
+				displayName: 'From Sequence Number',
+				name: 'fromSequenceNumber',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['peekMessages'],
+					},
+				},
+				default: '',
+				placeholder: '42',
+				description: 'Sequence number to start peeking from (inclusive). Leave empty to start at the first active message.',
+			},
+			{
+				displayName: 'Return All',
+				name: 'peekReturnAll',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						operation: ['peekMessages'],
+					},
+				},
+				default: false,
+				description: 'Whether to keep peeking page by page until no more messages are found',
 			},
 			{
 				displayName: 'Max Wait Time (seconds)',
@@ -481,7 +2706,7 @@ export class AzureServiceBus implements INodeType {
 				type: 'number',
 				displayOptions: {
 					show: {
-						operation: ['receiveMessages'],
+						operation: ['receiveMessages', 'resubmitDeadLetters'],
 					},
 				},
 				default: 60,
@@ -510,9 +2735,151 @@ export class AzureServiceBus implements INodeType {
 				],
 				default: 'peekLock',
 			},
+			{
+				displayName: 'Leave Messages Locked',
+				name: 'leaveMessagesLocked',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						operation: ['receiveMessages'],
+						receiveMode: ['peekLock'],
+					},
+				},
+				default: false,
+				description: 'Whether to leave received messages locked instead of completing them, so a later Message node can settle them by lock token (or by lock location over HTTP). Not available with sessions or sub-queues.',
+			},
+			{
+				displayName: 'Match Reply By',
+				name: 'replyCorrelation',
+				type: 'options',
+				displayOptions: {
+					show: {
+						operation: ['sendAndWaitForReply'],
+					},
+				},
+				options: [
+					{
+						name: 'Reply To Session ID',
+						value: 'session',
+						description: 'Generate a Reply To Session ID and accept that session on the reply queue. The reply queue must have sessions enabled.',
+					},
+					{
+						name: 'Correlation ID',
+						value: 'correlationId',
+						description: 'Wait on a reply topic, through a temporary subscription that only receives replies whose Correlation ID matches the request. Needs Manage rights to create the subscription.',
+					},
+				],
+				default: 'session',
+			},
+			{
+				displayName: 'Reply Queue Name',
+				name: 'replyQueueName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['sendAndWaitForReply'],
+						replyCorrelation: ['session'],
+					},
+				},
+				default: '',
+				placeholder: 'my-replies',
+				required: true,
+				description: 'Queue the replier sends its reply to. Sent as the Reply To of the request.',
+			},
+			{
+				displayName: 'Reply Topic Name',
+				name: 'replyTopicName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['sendAndWaitForReply'],
+						replyCorrelation: ['correlationId'],
+					},
+				},
+				default: '',
+				placeholder: 'my-replies',
+				required: true,
+				description: 'Topic the replier sends its reply to. Sent as the Reply To of the request. Needs Manage rights, as a temporary subscription is created for every request.',
+			},
+			{
+				displayName: 'Reply Timeout (Seconds)',
+				name: 'replyTimeout',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						operation: ['sendAndWaitForReply'],
+					},
+				},
+				default: 30,
+				description: 'How long to wait for the reply before failing with a reply timeout',
+			},
+			{
+				displayName: 'Body Decoding',
+				name: 'bodyOutput',
+				type: 'options',
+				displayOptions: {
+					show: {
+						operation: ['receiveMessages', 'peekMessages', 'sendAndWaitForReply'],
+					},
+				},
+				options: bodyOutputOptions,
+				default: 'auto',
+				description: 'How to decode the body of received messages. The decoder used is output as bodyDecoder.',
+			},
+			{
+				displayName: 'Metadata',
+				name: 'messageMetadata',
+				type: 'options',
+				displayOptions: {
+					show: {
+						operation: ['receiveMessages', 'peekMessages', 'sendAndWaitForReply'],
+					},
+				},
+				options: messageMetadataOptions,
+				default: 'standard',
+				description: 'Which message properties to output besides the body',
+			},
+			{
+				displayName: 'Output Binary Field',
+				name: 'binaryPropertyName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['receiveMessages', 'peekMessages'],
+						bodyOutput: ['binary'],
+					},
+				},
+				default: 'data',
+				required: true,
+				description: 'Name of the binary property to put the message body in',
+			},
+			{
+				displayName: 'Output Binary Field',
+				name: 'replyBinaryPropertyName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['sendAndWaitForReply'],
+						bodyOutput: ['binary'],
+					},
+				},
+				default: 'data',
+				required: true,
+				description: 'Name of the binary property to put the reply body in',
+			},
+			...entityManagementProperties,
 		],
 	};
 
+	methods = {
+		credentialTest: {
+			azureServiceBusConnectionStringTest: testConnectionStringCredential,
+		},
+	};
+
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		console.log('🚀 AzureServiceBus execute started');
 		const items = this.getInputData();
@@ -525,24 +2892,8 @@ export class AzureServiceBus implements INodeType {
 		console.log(`📝 Parameters: resource=${resource}, operation=${operation}, protocol=${protocol}`);
 
 		console.log('🔑 Getting credentials...');
-		const credentials = await this.getCredentials('azureServiceBusApi');
-
-		console.log('🔑 Credentials received:', {
-			hasConnectionString: !!credentials.connectionString,
-			connectionStringLength: credentials.connectionString ? String(credentials.connectionString).length : 0,
-			connectionStringPreview: credentials.connectionString ? String(credentials.connectionString).substring(0, 50) + '...' : 'EMPTY'
-		});
-
-		const connectionString = credentials.connectionString as string;
-		if (!connectionString) {
-			console.error('❌ Connection string is missing!');
-			throw new NodeOperationError(this.getNode(), 'Azure Service Bus connection string is required');
-		}
-
-		if (connectionString.includes('__n8n_BLANK_VALUE_')) {
-			console.error('❌ Found __n8n_BLANK_VALUE_ in connection string!');
-			throw new NodeOperationError(this.getNode(), 'Connection string contains blank values. Please re-enter your credentials.');
-		}
+		const authentication = this.getNodeParameter('authentication', 0, 'connectionString') as string;
+		const connection = await getServiceBusConnection.call(this, authentication);
 
 		let serviceBusClient: ServiceBusClient | null = null;
 		let httpConnectionDetails: ConnectionDetails | null = null;
@@ -551,7 +2902,7 @@ export class AzureServiceBus implements INodeType {
 			console.log('🔗 Creating ServiceBusClient with WebSockets transport...');
 			try {
 				const WebSocket = require('ws');
-				serviceBusClient = new ServiceBusClient(connectionString, {
+				serviceBusClient = createServiceBusClient(connection, {
 					webSocketOptions: {
 						webSocket: WebSocket,
 					},
@@ -560,11 +2911,12 @@ export class AzureServiceBus implements INodeType {
 			} catch (wsError) {
 				console.log('⚠️ WebSockets not available, using default transport');
 				console.log('Error details:', wsError);
-				serviceBusClient = new ServiceBusClient(connectionString);
+				serviceBusClient = createServiceBusClient(connection);
 			}
 		} else if (protocol === 'http') {
-			console.log('🔗 Parsing connection string for HTTP REST API...');
-			httpConnectionDetails = parseConnectionString(connectionString);
+			httpConnectionDetails = connection.tokenCredential
+				? { hostname: connection.fullyQualifiedNamespace as string, tokenCredential: connection.tokenCredential }
+				: { hostname: connection.sas!.hostname, sas: connection.sas, sasTokenOptions: connection.sasTokenOptions };
 		}
 
 		try {
@@ -572,7 +2924,22 @@ export class AzureServiceBus implements INodeType {
 				const queueName = this.getNodeParameter('queueName', 0) as string;
 				console.log(`📫 Queue operation: ${operation} on queue: ${queueName}`);
 
-				if (operation === 'sendMessage') {
+				if (operation === 'sendMessage' && this.getNodeParameter('sendMode', 0, 'individual') === 'batch') {
+					console.log('📦 Starting batch send operation...');
+
+					if (protocol === 'http' && httpConnectionDetails) {
+						returnData.push(...(await sendMessageBatchesViaHTTP.call(this, httpConnectionDetails, queueName, { queueName }, items.length)));
+					} else if (serviceBusClient) {
+						const sender = serviceBusClient.createSender(queueName);
+						try {
+							returnData.push(...(await sendMessagesInBatches.call(this, sender, { queueName }, items.length)));
+						} finally {
+							await sender.close();
+						}
+					} else {
+						throw new NodeOperationError(this.getNode(), 'Invalid protocol configuration');
+					}
+				} else if (operation === 'sendMessage') {
 					console.log('📤 Starting send message operation...');
 
 					let sender = null;
@@ -584,48 +2951,7 @@ export class AzureServiceBus implements INodeType {
 					for (let i = 0; i < items.length; i++) {
 						console.log(`📝 Processing message ${i + 1}/${items.length}`);
 
-						const messageBody = this.getNodeParameter('messageBody', i);
-						const messageProperties = this.getNodeParameter('messageProperties', i, {}) as { property?: Array<{ key: string; value: string }> };
-						const contentType = this.getNodeParameter('contentType', i, 'application/json') as string;
-						const messageId = this.getNodeParameter('messageId', i, '') as string;
-						const sessionId = this.getNodeParameter('sessionId', i, '') as string;
-
-						console.log(`📝 Message details:`, {
-							bodyType: typeof messageBody,
-							bodyLength: typeof messageBody === 'string' ? messageBody.length : 'N/A',
-							contentType,
-							hasMessageId: !!messageId,
-							hasSessionId: !!sessionId,
-							hasProperties: !!messageProperties?.property
-						});
-
-						if (isEmptyMessageBody(messageBody)) {
-							console.error('❌ Message body is empty!');
-							throw new NodeOperationError(this.getNode(), 'Message Body cannot be empty');
-						}
-
-						const message: MessageWithSession = {
-							body: messageBody,
-							contentType,
-						};
-
-						if (messageId && messageId.trim() !== '') {
-							message.messageId = messageId;
-						}
-
-						if (sessionId && sessionId.trim() !== '') {
-							message.sessionId = sessionId;
-							console.log(`🔐 Topic: Added session ID: ${sessionId}`);
-						}
-
-						if (messageProperties?.property) {
-							message.applicationProperties = {};
-							for (const prop of messageProperties.property) {
-								if (prop.key && prop.value) {
-									message.applicationProperties[prop.key] = prop.value;
-								}
-							}
-						}
+						const message = await buildMessageFromParameters.call(this, i);
 
 						console.log('📤 Sending message to Service Bus...');
 
@@ -633,12 +2959,7 @@ export class AzureServiceBus implements INodeType {
 							await sender.sendMessages(message);
 							console.log('✅ Message sent via Azure SDK!');
 						} else if (protocol === 'http' && httpConnectionDetails) {
-							const sessionIdValue = this.getNodeParameter('sessionId', i, '') as string;
-							const messageWithSession = { ...message };
-							if (sessionIdValue && sessionIdValue.trim() !== '') {
-								messageWithSession.sessionId = sessionIdValue;
-							}
-							await sendMessageViaHTTP(httpConnectionDetails, queueName, messageWithSession);
+							await sendMessageViaHTTP(httpConnectionDetails, queueName, message);
 							console.log('✅ Message sent via HTTP!');
 						} else {
 							throw new NodeOperationError(this.getNode(), 'Invalid protocol configuration');
@@ -660,218 +2981,166 @@ export class AzureServiceBus implements INodeType {
 						console.log('✅ Azure SDK sender closed successfully');
 					}
 				} else if (operation === 'receiveMessages') {
+					if (protocol === 'http' && httpConnectionDetails) {
+						returnData.push(...(await receiveMessagesViaHTTP.call(this, httpConnectionDetails, { queueName })));
+					} else if (serviceBusClient) {
+						returnData.push(...(await receiveMessagesFromEntity.call(this, serviceBusClient, { queueName })));
+					} else {
+						throw new NodeOperationError(this.getNode(), 'Invalid protocol configuration');
+					}
+				} else if (operation === 'peekMessages') {
 					if (protocol !== 'sdk' || !serviceBusClient) {
-						throw new NodeOperationError(this.getNode(), 'Receive messages is only supported with Azure SDK protocol');
+						throw new NodeOperationError(this.getNode(), 'Peek messages is only supported with Azure SDK protocol');
 					}
 
-					const maxMessageCount = this.getNodeParameter('maxMessageCount', 0) as number;
-					const maxWaitTimeInSeconds = this.getNodeParameter('maxWaitTimeInSeconds', 0) as number;
-					const receiveMode = this.getNodeParameter('receiveMode', 0) as 'peekLock' | 'receiveAndDelete';
-					const sessionMode = this.getNodeParameter('sessionMode', 0, 'none') as string;
-
-					console.log(`📨 Receiving messages with session mode: ${sessionMode}`);
+					returnData.push(...(await peekMessagesFromEntity.call(this, serviceBusClient, { queueName })));
+				} else if (operation === 'resubmitDeadLetters') {
+					if (protocol !== 'sdk' || !serviceBusClient) {
+						throw new NodeOperationError(this.getNode(), 'Resubmitting dead-lettered messages is only supported with Azure SDK protocol');
+					}
 
-					let receiver;
-					let isSessionReceiver = false;
-					let currentSessionId: string | undefined;
-					let currentSessionState: unknown = null;
+					returnData.push(...(await resubmitDeadLettersOnEntity.call(this, serviceBusClient, { queueName }, queueName)));
+				} else if (operation === 'sendAndWaitForReply') {
+					if (protocol !== 'sdk' || !serviceBusClient) {
+						throw new NodeOperationError(this.getNode(), 'Send and Wait for Reply is only supported with Azure SDK protocol');
+					}
 
-					if (sessionMode === 'specific') {
-						const receiveSessionId = this.getNodeParameter('receiveSessionId', 0) as string;
-						const sessionTimeout = this.getNodeParameter('sessionTimeout', 0, 60) as number;
+					returnData.push(...(await sendAndWaitForReplyOnEntity.call(this, serviceBusClient, connection, queueName, { queueName }, items.length)));
+				} else if (operation === 'scheduleMessage' || operation === 'cancelScheduledMessages') {
+					if (protocol !== 'sdk' || !serviceBusClient) {
+						throw new NodeOperationError(this.getNode(), 'Scheduled messages are only supported with Azure SDK protocol');
+					}
 
-						console.log(`🔐 Accepting specific session: ${receiveSessionId}`);
-						try {
-							receiver = await serviceBusClient.acceptSession(queueName, receiveSessionId, {
-								maxAutoLockRenewalDurationInMs: sessionTimeout * 1000,
-							});
-							isSessionReceiver = true;
-							currentSessionId = receiveSessionId;
-							console.log(`✅ Successfully accepted session: ${receiveSessionId}`);
-						} catch (sessionError) {
-							console.error(`❌ Failed to accept session ${receiveSessionId}:`, sessionError);
-							throw new NodeOperationError(
-								this.getNode(),
-								`Failed to accept session '${receiveSessionId}': ${sessionError instanceof Error ? sessionError.message : String(sessionError)}`
-							);
-						}
-					} else if (sessionMode === 'next') {
-						const sessionTimeout = this.getNodeParameter('sessionTimeout', 0, 60) as number;
+					const scheduleOperation = operation === 'scheduleMessage' ? scheduleMessagesOnEntity : cancelScheduledMessagesOnEntity;
+					returnData.push(...(await scheduleOperation.call(this, serviceBusClient, queueName, { queueName }, items.length)));
+				}
+			} else if (resource === 'topic') {
+				const topicName = this.getNodeParameter('topicName', 0) as string;
 
-						console.log('🔐 Accepting next available session...');
-						try {
-							receiver = await serviceBusClient.acceptNextSession(queueName, {
-								maxAutoLockRenewalDurationInMs: sessionTimeout * 1000,
+				if (operation === 'sendMessage' && protocol === 'http' && httpConnectionDetails) {
+					if (this.getNodeParameter('sendMode', 0, 'individual') === 'batch') {
+						console.log('📦 Starting batch send operation...');
+						returnData.push(...(await sendMessageBatchesViaHTTP.call(this, httpConnectionDetails, topicName, { topicName }, items.length)));
+					} else {
+						for (let i = 0; i < items.length; i++) {
+							const message = await buildMessageFromParameters.call(this, i);
+
+							await sendMessageViaHTTP(httpConnectionDetails, topicName, message);
+							returnData.push({
+								json: {
+									success: true,
+									messageId: message.messageId,
+									topicName,
+									sentAt: new Date().toISOString(),
+								},
 							});
-							isSessionReceiver = true;
-							currentSessionId = receiver.sessionId;
-							console.log(`✅ Successfully accepted next session: ${currentSessionId}`);
-						} catch (sessionError) {
-							console.error('❌ Failed to accept next session:', sessionError);
-							throw new NodeOperationError(
-								this.getNode(),
-								`No available sessions or failed to accept session: ${sessionError instanceof Error ? sessionError.message : String(sessionError)}`
-							);
 						}
-					} else {
-						console.log('📨 Creating standard receiver (no sessions)');
-						receiver = serviceBusClient.createReceiver(queueName, {
-							receiveMode,
-						});
 					}
-
-					if (isSessionReceiver && sessionMode !== 'none') {
-						const manageSessionState = this.getNodeParameter('manageSessionState', 0, false) as boolean;
-						if (manageSessionState) {
-							try {
-								currentSessionState = await (receiver as any).getSessionState();
-								console.log(`🔐 Retrieved session state for ${currentSessionId}:`, currentSessionState);
-							} catch (stateError) {
-								console.log(`⚠️ No session state found for ${currentSessionId} (this is normal for new sessions)`);
-								currentSessionState = null;
-							}
-						}
+				} else if (operation === 'sendMessage') {
+					if (protocol !== 'sdk' || !serviceBusClient) {
+						throw new NodeOperationError(this.getNode(), 'Invalid protocol configuration');
 					}
 
-					const messages = await receiver.receiveMessages(maxMessageCount, {
-						maxWaitTimeInMs: maxWaitTimeInSeconds * 1000,
-					});
-
-					console.log(`📨 Received ${messages.length} messages from ${isSessionReceiver ? `session ${currentSessionId}` : 'queue'}`);
-
-					for (const message of messages) {
-						console.log(`📝 Processing message ID: ${message.messageId}`);
-						console.log(`📝 Original body type: ${typeof message.body}, isBuffer: ${Buffer.isBuffer(message.body)}`);
-
-						let messageBody = message.body;
-
-						if (messageBody && typeof messageBody === 'object' && (messageBody as any).type === 'Buffer') {
-							const buffer = Buffer.from((messageBody as any).data);
-							messageBody = buffer.toString('utf8');
-							console.log(`🔄 Converted Buffer to string: ${messageBody}`);
-						} else if (Buffer.isBuffer(messageBody)) {
-							messageBody = messageBody.toString('utf8');
-							console.log(`🔄 Converted Buffer to string: ${messageBody}`);
-						}
+					const sender = serviceBusClient.createSender(topicName);
 
-						if (typeof messageBody === 'string' && messageBody.trim().startsWith('{')) {
-							try {
-								messageBody = JSON.parse(messageBody);
-								console.log('📦 Parsed JSON message body');
-							} catch (parseError) {
-								console.log('⚠️ Could not parse as JSON, keeping as string');
-							}
-						}
+					if (this.getNodeParameter('sendMode', 0, 'individual') === 'batch') {
+						console.log('📦 Starting batch send operation...');
+						returnData.push(...(await sendMessagesInBatches.call(this, sender, { topicName }, items.length)));
+					} else {
+						for (let i = 0; i < items.length; i++) {
+							const message = await buildMessageFromParameters.call(this, i);
 
-						const result: IDataObject = {
-							messageId: message.messageId,
-							body: messageBody,
-							contentType: message.contentType,
-							enqueuedTimeUtc: message.enqueuedTimeUtc,
-							applicationProperties: message.applicationProperties,
-							deliveryCount: message.deliveryCount,
-							sequenceNumber: message.sequenceNumber?.toString(),
-							sessionId: message.sessionId,
-						};
-
-						if (isSessionReceiver && currentSessionId) {
-							result.sessionInfo = {
-								sessionId: currentSessionId,
-								sessionState: currentSessionState,
-								isSessionMessage: true,
-							};
+							await sender.sendMessages(message);
+							returnData.push({
+								json: {
+									success: true,
+									messageId: message.messageId,
+									topicName,
+									sentAt: new Date().toISOString(),
+								},
+							});
 						}
+					}
 
-						returnData.push({ json: result });
+					await sender.close();
+				} else if (operation === 'receiveMessages') {
+					const subscriptionName = this.getNodeParameter('subscriptionName', 0) as string;
+					console.log(`📫 Topic operation: ${operation} on subscription: ${topicName}/${subscriptionName}`);
 
-						if (receiveMode === 'peekLock') {
-							await receiver.completeMessage(message);
-						}
+					if (protocol === 'http' && httpConnectionDetails) {
+						returnData.push(...(await receiveMessagesViaHTTP.call(this, httpConnectionDetails, { topicName, subscriptionName })));
+					} else if (serviceBusClient) {
+						returnData.push(...(await receiveMessagesFromEntity.call(this, serviceBusClient, { topicName, subscriptionName })));
+					} else {
+						throw new NodeOperationError(this.getNode(), 'Invalid protocol configuration');
 					}
-
-					if (isSessionReceiver && sessionMode !== 'none') {
-						const manageSessionState = this.getNodeParameter('manageSessionState', 0, false) as boolean;
-						const newSessionState = this.getNodeParameter('newSessionState', 0, '') as string;
-
-						if (manageSessionState && newSessionState && newSessionState.trim() !== '') {
-							try {
-								const stateObject = JSON.parse(newSessionState);
-								await (receiver as any).setSessionState(stateObject);
-								console.log(`✅ Updated session state for ${currentSessionId}:`, stateObject);
-							} catch (stateError) {
-								console.error(`❌ Failed to update session state for ${currentSessionId}:`, stateError);
-								throw new NodeOperationError(
-									this.getNode(),
-									`Failed to update session state: ${stateError instanceof Error ? stateError.message : String(stateError)}`
-								);
-							}
-						}
+				} else if (operation === 'peekMessages') {
+					if (protocol !== 'sdk' || !serviceBusClient) {
+						throw new NodeOperationError(this.getNode(), 'Topic operations are only supported with Azure SDK protocol');
 					}
 
-					await receiver.close();
-					console.log(`✅ Receiver closed successfully`);
-				}
-			} else if (resource === 'topic') {
-				const topicName = this.getNodeParameter('topicName', 0) as string;
+					const subscriptionName = this.getNodeParameter('subscriptionName', 0) as string;
+					console.log(`📫 Topic operation: ${operation} on subscription: ${topicName}/${subscriptionName}`);
 
-				if (operation === 'sendMessage') {
+					returnData.push(...(await peekMessagesFromEntity.call(this, serviceBusClient, { topicName, subscriptionName })));
+				} else if (operation === 'resubmitDeadLetters') {
 					if (protocol !== 'sdk' || !serviceBusClient) {
 						throw new NodeOperationError(this.getNode(), 'Topic operations are only supported with Azure SDK protocol');
 					}
 
-					const sender = serviceBusClient.createSender(topicName);
-
-					for (let i = 0; i < items.length; i++) {
-						const messageBody = this.getNodeParameter('messageBody', i);
-						const messageProperties = this.getNodeParameter('messageProperties', i, {}) as { property?: Array<{ key: string; value: string }> };
-						const contentType = this.getNodeParameter('contentType', i, 'application/json') as string;
-						const messageId = this.getNodeParameter('messageId', i, '') as string;
-						const sessionId = this.getNodeParameter('sessionId', i, '') as string;
-
-						if (isEmptyMessageBody(messageBody)) {
-							throw new NodeOperationError(this.getNode(), 'Message Body cannot be empty');
-						}
-
-						const message: MessageWithSession = {
-							body: messageBody,
-							contentType,
-						};
-
-						if (messageId && messageId.trim() !== '') {
-							message.messageId = messageId;
-						}
-
-						if (sessionId && sessionId.trim() !== '') {
-							message.sessionId = sessionId;
-						}
+					const subscriptionName = this.getNodeParameter('subscriptionName', 0) as string;
+					console.log(`📫 Topic operation: ${operation} on subscription: ${topicName}/${subscriptionName}`);
 
-						if (messageProperties?.property) {
-							message.applicationProperties = {};
-							for (const prop of messageProperties.property) {
-								if (prop.key && prop.value) {
-									message.applicationProperties[prop.key] = prop.value;
-								}
-							}
-						}
+					returnData.push(...(await resubmitDeadLettersOnEntity.call(this, serviceBusClient, { topicName, subscriptionName }, topicName)));
+				} else if (operation === 'sendAndWaitForReply') {
+					if (protocol !== 'sdk' || !serviceBusClient) {
+						throw new NodeOperationError(this.getNode(), 'Send and Wait for Reply is only supported with Azure SDK protocol');
+					}
 
-						await sender.sendMessages(message);
-						returnData.push({
-							json: {
-								success: true,
-								messageId: message.messageId,
-								topicName,
-								sentAt: new Date().toISOString(),
-							},
-						});
+					returnData.push(...(await sendAndWaitForReplyOnEntity.call(this, serviceBusClient, connection, topicName, { topicName }, items.length)));
+				} else if (operation === 'scheduleMessage' || operation === 'cancelScheduledMessages') {
+					if (protocol !== 'sdk' || !serviceBusClient) {
+						throw new NodeOperationError(this.getNode(), 'Topic operations are only supported with Azure SDK protocol');
 					}
 
-					await sender.close();
+					const scheduleOperation = operation === 'scheduleMessage' ? scheduleMessagesOnEntity : cancelScheduledMessagesOnEntity;
+					returnData.push(...(await scheduleOperation.call(this, serviceBusClient, topicName, { topicName }, items.length)));
 				}
+			} else if (resource === 'message') {
+				if (protocol === 'http' && httpConnectionDetails) {
+					// The lock location already identifies the entity, so no entity parameters are needed
+					returnData.push(...(await settleMessagesViaHTTP.call(this, httpConnectionDetails, operation, items.length)));
+				} else if (serviceBusClient) {
+					const entityType = this.getNodeParameter('entityType', 0, 'queue') as string;
+					const entity: ReceiverEntity =
+						entityType === 'queue'
+							? { queueName: this.getNodeParameter('queueName', 0) as string }
+							: {
+									topicName: this.getNodeParameter('topicName', 0) as string,
+									subscriptionName: this.getNodeParameter('subscriptionName', 0) as string,
+								};
+
+					returnData.push(...(await settleMessagesOnEntity.call(this, serviceBusClient, entity, operation, items.length)));
+				} else {
+					throw new NodeOperationError(this.getNode(), 'Invalid protocol configuration');
+				}
+			} else if (resource === 'entityManagement') {
+				// The administration client talks to the namespace over HTTPS regardless of the selected protocol
+				const adminClient = createAdministrationClient(connection);
+				returnData.push(...(await executeEntityManagement.call(this, adminClient, items.length)));
 			}
 		} catch (error) {
 			console.error('❌ Error in Azure Service Bus operation:', error);
+			if (error instanceof ReplyTimeoutError) {
+				throw error;
+			}
 			const errorMessage = error instanceof Error ? error.message : String(error);
-			throw new NodeOperationError(this.getNode(), `Azure Service Bus operation failed: ${errorMessage}`);
+			// Keep the item and hint of errors raised by the node itself
+			const errorOptions =
+				error instanceof NodeOperationError
+					? { itemIndex: error.context.itemIndex as number | undefined, description: error.description ?? undefined }
+					: {};
+			throw new NodeOperationError(this.getNode(), `Azure Service Bus operation failed: ${errorMessage}`, errorOptions);
 		} finally {
 			if (protocol === 'sdk' && serviceBusClient) {
 				console.log('🔒 Closing ServiceBusClient...');
@@ -0,0 +1,199 @@
+import {
+	ICredentialDataDecryptedObject,
+	IExecuteFunctions,
+	INodeCredentialDescription,
+	INodeProperties,
+	ITriggerFunctions,
+	NodeOperationError,
+} from 'n8n-workflow';
+import {
+	ServiceBusAdministrationClient,
+	ServiceBusClient,
+	ServiceBusClientOptions,
+} from '@azure/service-bus';
+import {
+	ClientCertificateCredential,
+	ClientSecretCredential,
+	ManagedIdentityCredential,
+	TokenCredential,
+	WorkloadIdentityCredential,
+} from '@azure/identity';
+import { AzureNamedKeyCredential, AzureSASCredential } from '@azure/core-auth';
+import {
+	DEFAULT_SAS_TOKEN_OPTIONS,
+	parseConnectionString,
+	SasConnectionProperties,
+	SasTokenOptions,
+} from './SasToken';
+
+/**
+ * Scope requested for Microsoft Entra ID tokens used against the Service Bus data plane and REST API.
+ */
+export const SERVICE_BUS_TOKEN_SCOPE = 'https://servicebus.azure.net/.default';
+
+/**
+ * How a node reaches the namespace: either a SAS connection string or a namespace plus Entra ID identity.
+ */
+export interface ServiceBusConnection {
+	connectionString?: string;
+	sas?: SasConnectionProperties;
+	sasTokenOptions?: SasTokenOptions;
+	fullyQualifiedNamespace?: string;
+	tokenCredential?: TokenCredential;
+}
+
+export const authenticationProperty: INodeProperties = {
+	displayName: 'Authentication',
+	name: 'authentication',
+	type: 'options',
+	options: [
+		{
+			name: 'Connection String',
+			value: 'connectionString',
+		},
+		{
+			name: 'Microsoft Entra ID',
+			value: 'entraId',
+		},
+	],
+	default: 'connectionString',
+};
+
+export const credentialDescriptions: INodeCredentialDescription[] = [
+	{
+		name: 'azureServiceBusApi',
+		required: true,
+		testedBy: 'azureServiceBusConnectionStringTest',
+		displayOptions: {
+			show: {
+				authentication: ['connectionString'],
+			},
+		},
+	},
+	{
+		name: 'azureServiceBusEntraIdApi',
+		required: true,
+		displayOptions: {
+			show: {
+				authentication: ['entraId'],
+			},
+		},
+	},
+];
+
+/**
+ * Accepts the namespace with or without scheme and trailing slash, as copied from the portal.
+ */
+function normalizeNamespace(namespace: string): string {
+	return namespace.trim().replace(/^(sb|https?):\/\//i, '').replace(/\/+$/, '');
+}
+
+function createTokenCredential(
+	this: IExecuteFunctions | ITriggerFunctions,
+	credentials: ICredentialDataDecryptedObject,
+): TokenCredential {
+	const authenticationMethod = (credentials.authenticationMethod as string) || 'clientSecret';
+	const identityClientId = (credentials.identityClientId as string) || undefined;
+
+	if (authenticationMethod === 'clientSecret') {
+		return new ClientSecretCredential(
+			credentials.tenantId as string,
+			credentials.clientId as string,
+			credentials.clientSecret as string,
+		);
+	} else if (authenticationMethod === 'clientCertificate') {
+		return new ClientCertificateCredential(credentials.tenantId as string, credentials.clientId as string, {
+			certificate: credentials.certificate as string,
+			certificatePassword: (credentials.certificatePassword as string) || undefined,
+		});
+	} else if (authenticationMethod === 'managedIdentity') {
+		return identityClientId ? new ManagedIdentityCredential({ clientId: identityClientId }) : new ManagedIdentityCredential();
+	} else if (authenticationMethod === 'workloadIdentity') {
+		return new WorkloadIdentityCredential(identityClientId ? { clientId: identityClientId } : {});
+	}
+
+	throw new NodeOperationError(this.getNode(), `Unsupported Microsoft Entra ID authentication method: ${authenticationMethod}`);
+}
+
+/**
+ * Reads the credential selected by the node's Authentication parameter and validates it.
+ */
+export async function getServiceBusConnection(
+	this: IExecuteFunctions | ITriggerFunctions,
+	authentication: string,
+): Promise<ServiceBusConnection> {
+	if (authentication === 'entraId') {
+		const credentials = await this.getCredentials('azureServiceBusEntraIdApi');
+		const fullyQualifiedNamespace = normalizeNamespace((credentials.fullyQualifiedNamespace as string) || '');
+		if (!fullyQualifiedNamespace) {
+			throw new NodeOperationError(this.getNode(), 'Azure Service Bus namespace is required');
+		}
+
+		console.log(`🔑 Using Microsoft Entra ID (${credentials.authenticationMethod}) for namespace ${fullyQualifiedNamespace}`);
+		return {
+			fullyQualifiedNamespace,
+			tokenCredential: createTokenCredential.call(this, credentials),
+		};
+	}
+
+	const credentials = await this.getCredentials('azureServiceBusApi');
+	const connectionString = credentials.connectionString as string;
+
+	if (!connectionString) {
+		console.error('❌ Connection string is missing!');
+		throw new NodeOperationError(this.getNode(), 'Azure Service Bus connection string is required');
+	}
+
+	if (connectionString.includes('__n8n_BLANK_VALUE_')) {
+		console.error('❌ Found __n8n_BLANK_VALUE_ in connection string!');
+		throw new NodeOperationError(this.getNode(), 'Connection string contains blank values. Please re-enter your credentials.');
+	}
+
+	let sas: SasConnectionProperties;
+	try {
+		sas = parseConnectionString(connectionString);
+	} catch (error) {
+		throw new NodeOperationError(this.getNode(), `Invalid connection string: ${(error as Error).message}`);
+	}
+
+	console.log('🔑 Using connection string credential');
+	return {
+		connectionString,
+		sas,
+		sasTokenOptions: getSasTokenOptions(credentials),
+	};
+}
+
+/**
+ * Reads the token lifetime and scope from the connection string credential. Credentials saved
+ * before these fields existed fall back to one-hour, entity-scoped tokens.
+ */
+export function getSasTokenOptions(credentials: ICredentialDataDecryptedObject): SasTokenOptions {
+	const ttlInSeconds = Number(credentials.tokenLifetime);
+	return {
+		ttlInSeconds: ttlInSeconds > 0 ? ttlInSeconds : DEFAULT_SAS_TOKEN_OPTIONS.ttlInSeconds,
+		scope: credentials.tokenScope === 'namespace' ? 'namespace' : DEFAULT_SAS_TOKEN_OPTIONS.scope,
+	};
+}
+
+export function createServiceBusClient(connection: ServiceBusConnection, options?: ServiceBusClientOptions): ServiceBusClient {
+	if (connection.tokenCredential) {
+		return new ServiceBusClient(connection.fullyQualifiedNamespace as string, connection.tokenCredential, options);
+	}
+	// The SDK signs and renews its own tokens from a key; a pre-issued signature is used as is
+	const sas = connection.sas as SasConnectionProperties;
+	const credential = sas.sharedAccessSignature
+		? new AzureSASCredential(sas.sharedAccessSignature)
+		: new AzureNamedKeyCredential(sas.sharedAccessKeyName as string, sas.sharedAccessKey as string);
+	return new ServiceBusClient(sas.hostname, credential, options);
+}
+
+export function createAdministrationClient(connection: ServiceBusConnection): ServiceBusAdministrationClient {
+	if (connection.tokenCredential) {
+		return new ServiceBusAdministrationClient(connection.fullyQualifiedNamespace as string, connection.tokenCredential);
+	}
+	if (connection.sas?.sharedAccessSignature) {
+		throw new Error('Entity management needs a connection string with SharedAccessKeyName and SharedAccessKey; a pre-issued SharedAccessSignature is not supported');
+	}
+	return new ServiceBusAdministrationClient(connection.connectionString as string);
+}
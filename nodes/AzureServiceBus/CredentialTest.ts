@@ -0,0 +1,160 @@
+import {
+	ICredentialsDecrypted,
+	ICredentialTestFunctions,
+	INodeCredentialTestResult,
+} from 'n8n-workflow';
+import fetch from 'node-fetch';
+import { getSasTokenOptions } from './Connection';
+import { getSasToken, splitConnectionString } from './SasToken';
+
+const MANAGEMENT_API_VERSION = '2021-05';
+
+/**
+ * Connection string parts, keyed by their lower-cased name, plus everything found wrong with them.
+ */
+export interface ConnectionStringValidation {
+	parts: Record<string, string>;
+	hostname?: string;
+	problems: string[];
+}
+
+/**
+ * Checks every part of a connection string and collects what is missing or malformed.
+ */
+export function validateConnectionString(connectionString: string): ConnectionStringValidation {
+	if (!connectionString || !connectionString.trim()) {
+		return { parts: {}, problems: ['Connection string is empty'] };
+	}
+
+	if (connectionString.includes('__n8n_BLANK_VALUE_')) {
+		return { parts: {}, problems: ['Connection string contains blank values. Please re-enter it.'] };
+	}
+
+	const problems: string[] = [];
+	const parts = splitConnectionString(connectionString.trim(), problems);
+
+	let hostname: string | undefined;
+	if (!parts.endpoint) {
+		problems.push('Endpoint is missing (expected Endpoint=sb://<namespace>.servicebus.windows.net/)');
+	} else {
+		const match = /^sb:\/\/([^/\s]+)\/?$/i.exec(parts.endpoint);
+		if (match) {
+			hostname = match[1];
+		} else {
+			problems.push(`Endpoint "${parts.endpoint}" is malformed (expected sb://<namespace>.servicebus.windows.net/)`);
+		}
+	}
+
+	const hasKey = !!parts.sharedaccesskey;
+	const hasSignature = !!parts.sharedaccesssignature;
+	if (hasKey && hasSignature) {
+		problems.push('Use either SharedAccessKey or SharedAccessSignature, not both');
+	} else if (!hasKey && !hasSignature) {
+		problems.push('SharedAccessKey is missing (or provide a pre-issued SharedAccessSignature)');
+	}
+
+	if (hasKey) {
+		if (!parts.sharedaccesskeyname) {
+			problems.push('SharedAccessKeyName is missing');
+		}
+		if (!/^[A-Za-z0-9+/]+={0,2}$/.test(parts.sharedaccesskey)) {
+			problems.push('SharedAccessKey is not valid base64. Copy the whole key including any trailing "="');
+		}
+	}
+
+	if (hasSignature) {
+		problems.push(...validateSharedAccessSignature(parts.sharedaccesssignature));
+	}
+
+	return { parts, hostname, problems };
+}
+
+function validateSharedAccessSignature(signature: string): string[] {
+	if (!signature.startsWith('SharedAccessSignature ')) {
+		return ['SharedAccessSignature must start with "SharedAccessSignature "'];
+	}
+
+	const fields = new URLSearchParams(signature.substring('SharedAccessSignature '.length));
+	const missing = ['sr', 'sig', 'se', 'skn'].filter((field) => !fields.get(field));
+	if (missing.length > 0) {
+		return [`SharedAccessSignature is missing ${missing.join(', ')}`];
+	}
+
+	const expiry = Number(fields.get('se'));
+	if (isNaN(expiry)) {
+		return [`SharedAccessSignature expiry "${fields.get('se')}" is not a Unix timestamp`];
+	}
+	if (expiry * 1000 <= Date.now()) {
+		return [`SharedAccessSignature expired at ${new Date(expiry * 1000).toISOString()}`];
+	}
+	return [];
+}
+
+/**
+ * Credential test for the connection string credential. Validates the string locally, then asks the
+ * namespace (or the EntityPath entity) for its description. That needs Manage rights, so a refusal
+ * for a missing claim also passes: it proves the token was signed correctly and accepted.
+ */
+export async function testConnectionStringCredential(
+	this: ICredentialTestFunctions,
+	credential: ICredentialsDecrypted,
+): Promise<INodeCredentialTestResult> {
+	const connectionString = (credential.data?.connectionString as string) || '';
+	const { parts, hostname, problems } = validateConnectionString(connectionString);
+
+	if (problems.length > 0 || !hostname) {
+		return { status: 'Error', message: problems.join('; ') };
+	}
+
+	const entityPath = parts.entitypath;
+	const resourceUri = entityPath ? `https://${hostname}/${entityPath}` : `https://${hostname}/`;
+	const url = entityPath
+		? `${resourceUri}?api-version=${MANAGEMENT_API_VERSION}`
+		: `https://${hostname}/$namespaceinfo?api-version=${MANAGEMENT_API_VERSION}`;
+
+	let authorization: string;
+	try {
+		authorization = getSasToken(
+			{
+				hostname,
+				sharedAccessKeyName: parts.sharedaccesskeyname,
+				sharedAccessKey: parts.sharedaccesskey,
+				sharedAccessSignature: parts.sharedaccesssignature,
+			},
+			resourceUri,
+			getSasTokenOptions(credential.data ?? {}),
+		).token;
+	} catch (error) {
+		return { status: 'Error', message: `Could not sign a SAS token: ${(error as Error).message}` };
+	}
+
+	let response;
+	try {
+		response = await fetch(url, { method: 'GET', headers: { Authorization: authorization } });
+	} catch (error) {
+		return { status: 'Error', message: `Could not reach namespace ${hostname}: ${(error as Error).message}` };
+	}
+
+	if (response.ok) {
+		return { status: 'OK', message: entityPath ? `Connected to ${entityPath} on ${hostname}` : `Connected to ${hostname}` };
+	}
+
+	const errorText = await response.text();
+	if (response.status === 401 && /claim/i.test(errorText)) {
+		// Only a token the namespace accepted gets as far as the claim check, so a Send or Listen policy passes
+		return {
+			status: 'OK',
+			message: `SAS token accepted by ${hostname}. The policy has limited rights (no Manage), so Entity Management operations will fail.`,
+		};
+	}
+	if (response.status === 401) {
+		return {
+			status: 'Error',
+			message: `${hostname} rejected the SAS token (HTTP 401). Check SharedAccessKeyName and SharedAccessKey: ${errorText}`,
+		};
+	}
+	if (response.status === 404 && entityPath) {
+		return { status: 'Error', message: `EntityPath "${entityPath}" does not exist in ${hostname}` };
+	}
+	return { status: 'Error', message: `Unexpected response from ${hostname} (HTTP ${response.status}): ${errorText}` };
+}
@@ -0,0 +1,999 @@
+import {
+	IDataObject,
+	IExecuteFunctions,
+	INodeExecutionData,
+	INodeProperties,
+	NodeOperationError,
+} from 'n8n-workflow';
+import {
+	CorrelationRuleFilter,
+	CreateQueueOptions,
+	CreateSubscriptionOptions,
+	CreateTopicOptions,
+	ServiceBusAdministrationClient,
+	SqlRuleAction,
+	SqlRuleFilter,
+} from '@azure/service-bus';
+
+/**
+ * Entity options shared by queues, topics and subscriptions, keyed by the SDK property name.
+ */
+const entityOptions: Record<string, INodeProperties> = {
+	autoDeleteOnIdle: {
+		displayName: 'Auto Delete On Idle',
+		name: 'autoDeleteOnIdle',
+		type: 'string',
+		default: '',
+		placeholder: 'P10D',
+		description: 'ISO 8601 idle interval after which the entity is automatically deleted (minimum 5 minutes)',
+	},
+	deadLetteringOnFilterEvaluationExceptions: {
+		displayName: 'Dead-Lettering On Filter Evaluation Exceptions',
+		name: 'deadLetteringOnFilterEvaluationExceptions',
+		type: 'boolean',
+		default: true,
+		description: 'Whether messages that cause a filter evaluation error are moved to the dead-letter sub-queue',
+	},
+	deadLetteringOnMessageExpiration: {
+		displayName: 'Dead-Lettering On Message Expiration',
+		name: 'deadLetteringOnMessageExpiration',
+		type: 'boolean',
+		default: false,
+		description: 'Whether expired messages are moved to the dead-letter sub-queue instead of being dropped',
+	},
+	defaultMessageTimeToLive: {
+		displayName: 'Default Message Time to Live',
+		name: 'defaultMessageTimeToLive',
+		type: 'string',
+		default: '',
+		placeholder: 'P14D',
+		description: 'ISO 8601 duration after which a message expires, unless the message sets its own time to live',
+	},
+	duplicateDetectionHistoryTimeWindow: {
+		displayName: 'Duplicate Detection History Time Window',
+		name: 'duplicateDetectionHistoryTimeWindow',
+		type: 'string',
+		default: '',
+		placeholder: 'PT10M',
+		description: 'ISO 8601 duration of the duplicate detection history. Only applies when duplicate detection is enabled.',
+	},
+	enableBatchedOperations: {
+		displayName: 'Enable Batched Operations',
+		name: 'enableBatchedOperations',
+		type: 'boolean',
+		default: true,
+		description: 'Whether server-side batched operations are enabled',
+	},
+	enablePartitioning: {
+		displayName: 'Enable Partitioning',
+		name: 'enablePartitioning',
+		type: 'boolean',
+		default: false,
+		description: 'Whether the entity is partitioned across multiple message brokers',
+	},
+	forwardDeadLetteredMessagesTo: {
+		displayName: 'Forward Dead-Lettered Messages To',
+		name: 'forwardDeadLetteredMessagesTo',
+		type: 'string',
+		default: '',
+		placeholder: 'my-dead-letter-queue',
+		description: 'Name of the queue or topic that dead-lettered messages are forwarded to',
+	},
+	forwardTo: {
+		displayName: 'Forward To',
+		name: 'forwardTo',
+		type: 'string',
+		default: '',
+		placeholder: 'my-other-queue',
+		description: 'Name of the queue or topic that messages are automatically forwarded to',
+	},
+	lockDuration: {
+		displayName: 'Lock Duration',
+		name: 'lockDuration',
+		type: 'string',
+		default: '',
+		placeholder: 'PT1M',
+		description: 'ISO 8601 duration of the peek-lock on a message (maximum 5 minutes)',
+	},
+	maxDeliveryCount: {
+		displayName: 'Max Delivery Count',
+		name: 'maxDeliveryCount',
+		type: 'number',
+		default: 10,
+		description: 'Maximum number of delivery attempts before a message is dead-lettered',
+	},
+	maxSizeInMegabytes: {
+		displayName: 'Max Size in Megabytes',
+		name: 'maxSizeInMegabytes',
+		type: 'number',
+		default: 1024,
+		description: 'Maximum size of the entity in megabytes',
+	},
+	requiresDuplicateDetection: {
+		displayName: 'Requires Duplicate Detection',
+		name: 'requiresDuplicateDetection',
+		type: 'boolean',
+		default: false,
+		description: 'Whether the entity discards messages with a message ID seen within the detection window',
+	},
+	requiresSession: {
+		displayName: 'Requires Session',
+		name: 'requiresSession',
+		type: 'boolean',
+		default: false,
+		description: 'Whether the entity is session-enabled',
+	},
+	status: {
+		displayName: 'Status',
+		name: 'status',
+		type: 'options',
+		options: [
+			{
+				name: 'Active',
+				value: 'Active',
+			},
+			{
+				name: 'Disabled',
+				value: 'Disabled',
+			},
+			{
+				name: 'Receive Disabled',
+				value: 'ReceiveDisabled',
+			},
+			{
+				name: 'Send Disabled',
+				value: 'SendDisabled',
+			},
+		],
+		default: 'Active',
+		description: 'Status of the entity',
+	},
+	supportOrdering: {
+		displayName: 'Support Ordering',
+		name: 'supportOrdering',
+		type: 'boolean',
+		default: false,
+		description: 'Whether the topic delivers messages in the order they were sent',
+	},
+	userMetadata: {
+		displayName: 'User Metadata',
+		name: 'userMetadata',
+		type: 'string',
+		default: '',
+		description: 'Free-form metadata stored with the entity',
+	},
+};
+
+function pickOptions(...names: string[]): INodeProperties[] {
+	return names
+		.map((name) => entityOptions[name])
+		.sort((a, b) => a.displayName.localeCompare(b.displayName));
+}
+
+/**
+ * Options that can be changed after creation, per entity type. Create additionally
+ * offers the options listed in createOnlyOptions.
+ */
+const updatableOptions = {
+	queue: [
+		'autoDeleteOnIdle',
+		'deadLetteringOnMessageExpiration',
+		'defaultMessageTimeToLive',
+		'duplicateDetectionHistoryTimeWindow',
+		'enableBatchedOperations',
+		'forwardDeadLetteredMessagesTo',
+		'forwardTo',
+		'lockDuration',
+		'maxDeliveryCount',
+		'maxSizeInMegabytes',
+		'status',
+		'userMetadata',
+	],
+	topic: [
+		'autoDeleteOnIdle',
+		'defaultMessageTimeToLive',
+		'duplicateDetectionHistoryTimeWindow',
+		'enableBatchedOperations',
+		'maxSizeInMegabytes',
+		'status',
+		'supportOrdering',
+		'userMetadata',
+	],
+	subscription: [
+		'autoDeleteOnIdle',
+		'deadLetteringOnFilterEvaluationExceptions',
+		'deadLetteringOnMessageExpiration',
+		'defaultMessageTimeToLive',
+		'enableBatchedOperations',
+		'forwardDeadLetteredMessagesTo',
+		'forwardTo',
+		'lockDuration',
+		'maxDeliveryCount',
+		'status',
+		'userMetadata',
+	],
+};
+
+const createOnlyOptions = {
+	queue: ['enablePartitioning', 'requiresDuplicateDetection', 'requiresSession'],
+	topic: ['enablePartitioning', 'requiresDuplicateDetection'],
+	subscription: ['requiresSession'],
+};
+
+function entityOptionCollections(entityType: 'queue' | 'topic' | 'subscription'): INodeProperties[] {
+	return [
+		{
+			displayName: 'Options',
+			name: `${entityType}Options`,
+			type: 'collection',
+			placeholder: 'Add Option',
+			displayOptions: {
+				show: {
+					resource: ['entityManagement'],
+					managedEntityType: [entityType],
+					operation: ['create'],
+				},
+			},
+			default: {},
+			options: pickOptions(...updatableOptions[entityType], ...createOnlyOptions[entityType]),
+		},
+		{
+			displayName: 'Update Fields',
+			name: `${entityType}UpdateFields`,
+			type: 'collection',
+			placeholder: 'Add Field',
+			displayOptions: {
+				show: {
+					resource: ['entityManagement'],
+					managedEntityType: [entityType],
+					operation: ['update'],
+				},
+			},
+			default: {},
+			options: pickOptions(...updatableOptions[entityType]),
+		},
+	];
+}
+
+export const entityManagementProperties: INodeProperties[] = [
+	{
+		displayName: 'Entity Type',
+		name: 'managedEntityType',
+		type: 'options',
+		noDataExpression: true,
+		displayOptions: {
+			show: {
+				resource: ['entityManagement'],
+			},
+		},
+		options: [
+			{
+				name: 'Queue',
+				value: 'queue',
+			},
+			{
+				name: 'Topic',
+				value: 'topic',
+			},
+			{
+				name: 'Subscription',
+				value: 'subscription',
+			},
+			{
+				name: 'Subscription Rule',
+				value: 'rule',
+			},
+		],
+		default: 'queue',
+		description: 'The kind of entity to manage',
+	},
+	{
+		displayName: 'Operation',
+		name: 'operation',
+		type: 'options',
+		noDataExpression: true,
+		displayOptions: {
+			show: {
+				resource: ['entityManagement'],
+			},
+		},
+		options: [
+			{
+				name: 'Check Existence',
+				value: 'exists',
+				description: 'Check whether an entity exists',
+				action: 'Check whether an entity exists',
+			},
+			{
+				name: 'Create',
+				value: 'create',
+				description: 'Create an entity',
+				action: 'Create an entity',
+			},
+			{
+				name: 'Delete',
+				value: 'delete',
+				description: 'Delete an entity',
+				action: 'Delete an entity',
+			},
+			{
+				name: 'Get',
+				value: 'get',
+				description: 'Get the properties of an entity',
+				action: 'Get an entity',
+			},
+			{
+				name: 'Get Many',
+				value: 'getAll',
+				description: 'List entities in the namespace',
+				action: 'Get many entities',
+			},
+			{
+				name: 'Get Runtime Properties',
+				value: 'getRuntimeProperties',
+				description: 'Get message counts, size and last access time of a queue, topic or subscription',
+				action: 'Get runtime properties of an entity',
+			},
+			{
+				name: 'Update',
+				value: 'update',
+				description: 'Update the properties of an entity',
+				action: 'Update an entity',
+			},
+		],
+		default: 'get',
+	},
+	{
+		displayName: 'All Entities',
+		name: 'allEntities',
+		type: 'boolean',
+		displayOptions: {
+			show: {
+				resource: ['entityManagement'],
+				managedEntityType: ['queue', 'topic', 'subscription'],
+				operation: ['getRuntimeProperties'],
+			},
+		},
+		default: false,
+		description: 'Whether to return runtime properties for every queue or topic in the namespace in one call. For subscriptions this covers only the subscriptions of the one topic named in Topic Name, not those of other topics. They are listed once, however many items come in, using the Topic Name of the first item.',
+	},
+	{
+		displayName: 'Queue Name',
+		name: 'queueName',
+		type: 'string',
+		displayOptions: {
+			show: {
+				resource: ['entityManagement'],
+				managedEntityType: ['queue'],
+				operation: ['create', 'delete', 'exists', 'get', 'getRuntimeProperties', 'update'],
+			},
+			hide: {
+				allEntities: [true],
+			},
+		},
+		default: '',
+		placeholder: 'my-queue',
+		description: 'Name of the queue',
+		required: true,
+	},
+	{
+		displayName: 'Topic Name',
+		name: 'topicName',
+		type: 'string',
+		displayOptions: {
+			show: {
+				resource: ['entityManagement'],
+				managedEntityType: ['topic'],
+				operation: ['create', 'delete', 'exists', 'get', 'getRuntimeProperties', 'update'],
+			},
+			hide: {
+				allEntities: [true],
+			},
+		},
+		default: '',
+		placeholder: 'my-topic',
+		description: 'Name of the topic',
+		required: true,
+	},
+	{
+		displayName: 'Topic Name',
+		name: 'topicName',
+		type: 'string',
+		displayOptions: {
+			show: {
+				resource: ['entityManagement'],
+				managedEntityType: ['subscription', 'rule'],
+			},
+		},
+		default: '',
+		placeholder: 'my-topic',
+		description: 'Name of the topic the subscription belongs to',
+		required: true,
+	},
+	{
+		displayName: 'Subscription Name',
+		name: 'subscriptionName',
+		type: 'string',
+		displayOptions: {
+			show: {
+				resource: ['entityManagement'],
+				managedEntityType: ['subscription'],
+				operation: ['create', 'delete', 'exists', 'get', 'getRuntimeProperties', 'update'],
+			},
+			hide: {
+				allEntities: [true],
+			},
+		},
+		default: '',
+		placeholder: 'my-subscription',
+		description: 'Name of the subscription',
+		required: true,
+	},
+	{
+		displayName: 'Subscription Name',
+		name: 'subscriptionName',
+		type: 'string',
+		displayOptions: {
+			show: {
+				resource: ['entityManagement'],
+				managedEntityType: ['rule'],
+			},
+		},
+		default: '',
+		placeholder: 'my-subscription',
+		description: 'Name of the subscription the rule belongs to',
+		required: true,
+	},
+	{
+		displayName: 'Rule Name',
+		name: 'ruleName',
+		type: 'string',
+		displayOptions: {
+			show: {
+				resource: ['entityManagement'],
+				managedEntityType: ['rule'],
+				operation: ['create', 'delete', 'exists', 'get', 'update'],
+			},
+		},
+		default: '',
+		placeholder: '$Default',
+		description: 'Name of the rule. Every new subscription gets a $Default rule that accepts all messages; delete it to only receive messages matching your own rules.',
+		required: true,
+	},
+	{
+		displayName: 'Filter Type',
+		name: 'ruleFilterType',
+		type: 'options',
+		displayOptions: {
+			show: {
+				resource: ['entityManagement'],
+				managedEntityType: ['rule'],
+				operation: ['create', 'update'],
+			},
+		},
+		options: [
+			{
+				name: 'SQL Filter',
+				value: 'sql',
+				description: 'Match messages with a SQL-92 expression over system and application properties',
+			},
+			{
+				name: 'Correlation Filter',
+				value: 'correlation',
+				description: 'Match messages whose properties equal the given values',
+			},
+		],
+		default: 'sql',
+	},
+	{
+		displayName: 'SQL Expression',
+		name: 'sqlExpression',
+		type: 'string',
+		displayOptions: {
+			show: {
+				resource: ['entityManagement'],
+				managedEntityType: ['rule'],
+				operation: ['create', 'update'],
+				ruleFilterType: ['sql'],
+			},
+		},
+		default: '1=1',
+		placeholder: "Priority > 5 AND sys.Label = 'invoice'",
+		description: 'SQL-92 filter expression that must evaluate to true for a message to match',
+	},
+	{
+		displayName: 'Correlation Filter',
+		name: 'correlationFilter',
+		type: 'collection',
+		placeholder: 'Add Condition',
+		displayOptions: {
+			show: {
+				resource: ['entityManagement'],
+				managedEntityType: ['rule'],
+				operation: ['create', 'update'],
+				ruleFilterType: ['correlation'],
+			},
+		},
+		default: {},
+		options: [
+			{
+				displayName: 'Content Type',
+				name: 'contentType',
+				type: 'string',
+				default: '',
+			},
+			{
+				displayName: 'Correlation ID',
+				name: 'correlationId',
+				type: 'string',
+				default: '',
+			},
+			{
+				displayName: 'Message ID',
+				name: 'messageId',
+				type: 'string',
+				default: '',
+			},
+			{
+				displayName: 'Reply To',
+				name: 'replyTo',
+				type: 'string',
+				default: '',
+			},
+			{
+				displayName: 'Reply To Session ID',
+				name: 'replyToSessionId',
+				type: 'string',
+				default: '',
+			},
+			{
+				displayName: 'Session ID',
+				name: 'sessionId',
+				type: 'string',
+				default: '',
+			},
+			{
+				displayName: 'Subject',
+				name: 'subject',
+				type: 'string',
+				default: '',
+				description: 'Message subject, also known as label',
+			},
+			{
+				displayName: 'To',
+				name: 'to',
+				type: 'string',
+				default: '',
+			},
+		],
+	},
+	{
+		displayName: 'Correlation Application Properties',
+		name: 'correlationApplicationProperties',
+		placeholder: 'Add Property',
+		type: 'fixedCollection',
+		typeOptions: {
+			multipleValues: true,
+		},
+		displayOptions: {
+			show: {
+				resource: ['entityManagement'],
+				managedEntityType: ['rule'],
+				operation: ['create', 'update'],
+				ruleFilterType: ['correlation'],
+			},
+		},
+		default: {},
+		description: 'Application properties a message must carry, with exactly these values and types, to match',
+		options: [
+			{
+				name: 'property',
+				displayName: 'Property',
+				values: [
+					{
+						displayName: 'Key',
+						name: 'key',
+						type: 'string',
+						default: '',
+					},
+					{
+						displayName: 'Type',
+						name: 'type',
+						type: 'options',
+						options: [
+							{
+								name: 'Boolean',
+								value: 'boolean',
+							},
+							{
+								name: 'Number',
+								value: 'number',
+							},
+							{
+								name: 'String',
+								value: 'string',
+							},
+						],
+						default: 'string',
+					},
+					{
+						displayName: 'Value',
+						name: 'value',
+						type: 'string',
+						default: '',
+					},
+				],
+			},
+		],
+	},
+	{
+		displayName: 'SQL Action',
+		name: 'sqlAction',
+		type: 'string',
+		displayOptions: {
+			show: {
+				resource: ['entityManagement'],
+				managedEntityType: ['rule'],
+				operation: ['create', 'update'],
+			},
+		},
+		default: '',
+		placeholder: "SET Priority = 'High'",
+		description: 'Optional SQL action applied to messages that match the filter',
+	},
+	{
+		displayName: 'Return All',
+		name: 'returnAll',
+		type: 'boolean',
+		displayOptions: {
+			show: {
+				resource: ['entityManagement'],
+				operation: ['getAll'],
+			},
+		},
+		default: false,
+		description: 'Whether to return all results or only up to a given limit',
+	},
+	{
+		displayName: 'Limit',
+		name: 'limit',
+		type: 'number',
+		displayOptions: {
+			show: {
+				resource: ['entityManagement'],
+				operation: ['getAll'],
+				returnAll: [false],
+			},
+		},
+		typeOptions: {
+			minValue: 1,
+		},
+		default: 50,
+		description: 'Max number of results to return',
+	},
+	...entityOptionCollections('queue'),
+	...entityOptionCollections('topic'),
+	...entityOptionCollections('subscription'),
+];
+
+/**
+ * Drops the raw HTTP response the administration client attaches to its results.
+ */
+function toEntityOutput(entity: object): IDataObject {
+	const { _response, ...properties } = entity as IDataObject;
+	return properties;
+}
+
+/**
+ * Removes options the user added but left empty, so they fall back to the service defaults.
+ */
+function removeEmptyOptions<T extends IDataObject>(options: T): T {
+	const cleaned: IDataObject = {};
+	for (const [key, value] of Object.entries(options)) {
+		if (value !== '' && value !== undefined && value !== null) {
+			cleaned[key] = value;
+		}
+	}
+	return cleaned as T;
+}
+
+async function collectEntities<T extends object>(
+	entities: AsyncIterable<T>,
+	returnAll: boolean,
+	limit: number,
+): Promise<IDataObject[]> {
+	const results: IDataObject[] = [];
+	for await (const entity of entities) {
+		results.push(toEntityOutput(entity));
+		if (!returnAll && results.length >= limit) {
+			break;
+		}
+	}
+	return results;
+}
+
+function getRequiredName(this: IExecuteFunctions, parameterName: string, label: string, itemIndex: number): string {
+	const name = (this.getNodeParameter(parameterName, itemIndex, '') as string).trim();
+	if (!name) {
+		throw new NodeOperationError(this.getNode(), `${label} cannot be empty`, { itemIndex });
+	}
+	return name;
+}
+
+function getListOptions(this: IExecuteFunctions, itemIndex: number): { returnAll: boolean; limit: number } {
+	return {
+		returnAll: this.getNodeParameter('returnAll', itemIndex, false) as boolean,
+		limit: this.getNodeParameter('limit', itemIndex, 50) as number,
+	};
+}
+
+async function manageQueue(
+	this: IExecuteFunctions,
+	adminClient: ServiceBusAdministrationClient,
+	operation: string,
+	itemIndex: number,
+): Promise<IDataObject[]> {
+	if (operation === 'getAll') {
+		const { returnAll, limit } = getListOptions.call(this, itemIndex);
+		return collectEntities(adminClient.listQueues(), returnAll, limit);
+	}
+
+	if (operation === 'getRuntimeProperties' && this.getNodeParameter('allEntities', itemIndex, false)) {
+		return collectEntities(adminClient.listQueuesRuntimeProperties(), true, 0);
+	}
+
+	const queueName = getRequiredName.call(this, 'queueName', 'Queue Name', itemIndex);
+
+	if (operation === 'create') {
+		const options = removeEmptyOptions(this.getNodeParameter('queueOptions', itemIndex, {}) as IDataObject);
+		console.log(`🏗️ Creating queue ${queueName} with options:`, options);
+		return [toEntityOutput(await adminClient.createQueue(queueName, options as CreateQueueOptions))];
+	} else if (operation === 'get') {
+		return [toEntityOutput(await adminClient.getQueue(queueName))];
+	} else if (operation === 'update') {
+		const updateFields = removeEmptyOptions(this.getNodeParameter('queueUpdateFields', itemIndex, {}) as IDataObject);
+		console.log(`🏗️ Updating queue ${queueName} with fields:`, updateFields);
+		const queue = await adminClient.getQueue(queueName);
+		return [toEntityOutput(await adminClient.updateQueue({ ...queue, ...updateFields }))];
+	} else if (operation === 'delete') {
+		console.log(`🗑️ Deleting queue ${queueName}`);
+		await adminClient.deleteQueue(queueName);
+		return [{ success: true, deleted: true, queueName }];
+	} else if (operation === 'exists') {
+		return [{ queueName, exists: await adminClient.queueExists(queueName) }];
+	} else if (operation === 'getRuntimeProperties') {
+		return [toEntityOutput(await adminClient.getQueueRuntimeProperties(queueName))];
+	}
+
+	throw new NodeOperationError(this.getNode(), `Unsupported queue management operation: ${operation}`);
+}
+
+async function manageTopic(
+	this: IExecuteFunctions,
+	adminClient: ServiceBusAdministrationClient,
+	operation: string,
+	itemIndex: number,
+): Promise<IDataObject[]> {
+	if (operation === 'getAll') {
+		const { returnAll, limit } = getListOptions.call(this, itemIndex);
+		return collectEntities(adminClient.listTopics(), returnAll, limit);
+	}
+
+	if (operation === 'getRuntimeProperties' && this.getNodeParameter('allEntities', itemIndex, false)) {
+		return collectEntities(adminClient.listTopicsRuntimeProperties(), true, 0);
+	}
+
+	const topicName = getRequiredName.call(this, 'topicName', 'Topic Name', itemIndex);
+
+	if (operation === 'create') {
+		const options = removeEmptyOptions(this.getNodeParameter('topicOptions', itemIndex, {}) as IDataObject);
+		console.log(`🏗️ Creating topic ${topicName} with options:`, options);
+		return [toEntityOutput(await adminClient.createTopic(topicName, options as CreateTopicOptions))];
+	} else if (operation === 'get') {
+		return [toEntityOutput(await adminClient.getTopic(topicName))];
+	} else if (operation === 'update') {
+		const updateFields = removeEmptyOptions(this.getNodeParameter('topicUpdateFields', itemIndex, {}) as IDataObject);
+		console.log(`🏗️ Updating topic ${topicName} with fields:`, updateFields);
+		const topic = await adminClient.getTopic(topicName);
+		return [toEntityOutput(await adminClient.updateTopic({ ...topic, ...updateFields }))];
+	} else if (operation === 'delete') {
+		console.log(`🗑️ Deleting topic ${topicName}`);
+		await adminClient.deleteTopic(topicName);
+		return [{ success: true, deleted: true, topicName }];
+	} else if (operation === 'exists') {
+		return [{ topicName, exists: await adminClient.topicExists(topicName) }];
+	} else if (operation === 'getRuntimeProperties') {
+		return [toEntityOutput(await adminClient.getTopicRuntimeProperties(topicName))];
+	}
+
+	throw new NodeOperationError(this.getNode(), `Unsupported topic management operation: ${operation}`);
+}
+
+async function manageSubscription(
+	this: IExecuteFunctions,
+	adminClient: ServiceBusAdministrationClient,
+	operation: string,
+	itemIndex: number,
+): Promise<IDataObject[]> {
+	const topicName = getRequiredName.call(this, 'topicName', 'Topic Name', itemIndex);
+
+	if (operation === 'getAll') {
+		const { returnAll, limit } = getListOptions.call(this, itemIndex);
+		return collectEntities(adminClient.listSubscriptions(topicName), returnAll, limit);
+	}
+
+	if (operation === 'getRuntimeProperties' && this.getNodeParameter('allEntities', itemIndex, false)) {
+		return collectEntities(adminClient.listSubscriptionsRuntimeProperties(topicName), true, 0);
+	}
+
+	const subscriptionName = getRequiredName.call(this, 'subscriptionName', 'Subscription Name', itemIndex);
+
+	if (operation === 'create') {
+		const options = removeEmptyOptions(this.getNodeParameter('subscriptionOptions', itemIndex, {}) as IDataObject);
+		console.log(`🏗️ Creating subscription ${topicName}/${subscriptionName} with options:`, options);
+		return [
+			toEntityOutput(await adminClient.createSubscription(topicName, subscriptionName, options as CreateSubscriptionOptions)),
+		];
+	} else if (operation === 'get') {
+		return [toEntityOutput(await adminClient.getSubscription(topicName, subscriptionName))];
+	} else if (operation === 'update') {
+		const updateFields = removeEmptyOptions(this.getNodeParameter('subscriptionUpdateFields', itemIndex, {}) as IDataObject);
+		console.log(`🏗️ Updating subscription ${topicName}/${subscriptionName} with fields:`, updateFields);
+		const subscription = await adminClient.getSubscription(topicName, subscriptionName);
+		return [toEntityOutput(await adminClient.updateSubscription({ ...subscription, ...updateFields }))];
+	} else if (operation === 'delete') {
+		console.log(`🗑️ Deleting subscription ${topicName}/${subscriptionName}`);
+		await adminClient.deleteSubscription(topicName, subscriptionName);
+		return [{ success: true, deleted: true, topicName, subscriptionName }];
+	} else if (operation === 'exists') {
+		return [{ topicName, subscriptionName, exists: await adminClient.subscriptionExists(topicName, subscriptionName) }];
+	} else if (operation === 'getRuntimeProperties') {
+		return [toEntityOutput(await adminClient.getSubscriptionRuntimeProperties(topicName, subscriptionName))];
+	}
+
+	throw new NodeOperationError(this.getNode(), `Unsupported subscription management operation: ${operation}`);
+}
+
+/**
+ * Converts a correlation filter property to the type selected for it. Correlation filters
+ * compare values and types exactly, so the number 5 does not match the string "5".
+ */
+function convertCorrelationPropertyValue(
+	this: IExecuteFunctions,
+	property: { key: string; type?: string; value: string },
+	itemIndex: number,
+): string | number | boolean {
+	if (property.type === 'number') {
+		const value = Number(property.value);
+		if (property.value.trim() === '' || isNaN(value)) {
+			throw new NodeOperationError(this.getNode(), `Correlation property '${property.key}' is not a valid number: '${property.value}'`, { itemIndex });
+		}
+		return value;
+	}
+	if (property.type === 'boolean') {
+		const value = property.value.trim().toLowerCase();
+		if (value !== 'true' && value !== 'false') {
+			throw new NodeOperationError(this.getNode(), `Correlation property '${property.key}' must be true or false, got '${property.value}'`, { itemIndex });
+		}
+		return value === 'true';
+	}
+	return property.value;
+}
+
+function getRuleFilter(this: IExecuteFunctions, itemIndex: number): SqlRuleFilter | CorrelationRuleFilter {
+	const ruleFilterType = this.getNodeParameter('ruleFilterType', itemIndex, 'sql') as string;
+
+	if (ruleFilterType === 'sql') {
+		const sqlExpression = (this.getNodeParameter('sqlExpression', itemIndex, '') as string).trim();
+		if (!sqlExpression) {
+			throw new NodeOperationError(this.getNode(), 'SQL Expression cannot be empty', { itemIndex });
+		}
+		return { sqlExpression };
+	}
+
+	const correlationFilter: CorrelationRuleFilter = removeEmptyOptions(
+		this.getNodeParameter('correlationFilter', itemIndex, {}) as IDataObject,
+	);
+	const applicationProperties = this.getNodeParameter('correlationApplicationProperties', itemIndex, {}) as {
+		property?: Array<{ key: string; type?: string; value: string }>;
+	};
+	if (applicationProperties.property?.length) {
+		correlationFilter.applicationProperties = {};
+		for (const property of applicationProperties.property) {
+			if (property.key) {
+				correlationFilter.applicationProperties[property.key] = convertCorrelationPropertyValue.call(this, property, itemIndex);
+			}
+		}
+	}
+
+	if (Object.keys(correlationFilter).length === 0) {
+		throw new NodeOperationError(this.getNode(), 'Correlation filter needs at least one condition', { itemIndex });
+	}
+	return correlationFilter;
+}
+
+async function manageRule(
+	this: IExecuteFunctions,
+	adminClient: ServiceBusAdministrationClient,
+	operation: string,
+	itemIndex: number,
+): Promise<IDataObject[]> {
+	if (operation === 'getRuntimeProperties') {
+		throw new NodeOperationError(this.getNode(), 'Runtime properties are only available for queues, topics and subscriptions', { itemIndex });
+	}
+
+	const topicName = getRequiredName.call(this, 'topicName', 'Topic Name', itemIndex);
+	const subscriptionName = getRequiredName.call(this, 'subscriptionName', 'Subscription Name', itemIndex);
+
+	if (operation === 'getAll') {
+		const { returnAll, limit } = getListOptions.call(this, itemIndex);
+		return collectEntities(adminClient.listRules(topicName, subscriptionName), returnAll, limit);
+	}
+
+	const ruleName = getRequiredName.call(this, 'ruleName', 'Rule Name', itemIndex);
+
+	if (operation === 'create' || operation === 'update') {
+		const filter = getRuleFilter.call(this, itemIndex);
+		const sqlAction = (this.getNodeParameter('sqlAction', itemIndex, '') as string).trim();
+		const action: SqlRuleAction = sqlAction ? { sqlExpression: sqlAction } : {};
+
+		if (operation === 'create') {
+			console.log(`🏗️ Creating rule ${ruleName} on ${topicName}/${subscriptionName}:`, filter);
+			return [toEntityOutput(await adminClient.createRule(topicName, subscriptionName, ruleName, filter, action))];
+		}
+
+		console.log(`🏗️ Updating rule ${ruleName} on ${topicName}/${subscriptionName}:`, filter);
+		const rule = await adminClient.getRule(topicName, subscriptionName, ruleName);
+		return [toEntityOutput(await adminClient.updateRule(topicName, subscriptionName, { ...rule, filter, action }))];
+	} else if (operation === 'get') {
+		return [toEntityOutput(await adminClient.getRule(topicName, subscriptionName, ruleName))];
+	} else if (operation === 'delete') {
+		console.log(`🗑️ Deleting rule ${ruleName} from ${topicName}/${subscriptionName}`);
+		await adminClient.deleteRule(topicName, subscriptionName, ruleName);
+		return [{ success: true, deleted: true, topicName, subscriptionName, ruleName }];
+	} else if (operation === 'exists') {
+		return [{ topicName, subscriptionName, ruleName, exists: await adminClient.ruleExists(topicName, subscriptionName, ruleName) }];
+	}
+
+	throw new NodeOperationError(this.getNode(), `Unsupported rule management operation: ${operation}`);
+}
+
+/**
+ * Runs the Entity Management resource once per input item.
+ */
+export async function executeEntityManagement(
+	this: IExecuteFunctions,
+	adminClient: ServiceBusAdministrationClient,
+	itemCount: number,
+): Promise<INodeExecutionData[]> {
+	const operation = this.getNodeParameter('operation', 0) as string;
+	const managedEntityType = this.getNodeParameter('managedEntityType', 0, 'queue') as string;
+	const returnData: INodeExecutionData[] = [];
+
+	// Listing every entity does not depend on the items, so it runs once rather than once per item
+	const listsAllEntities =
+		operation === 'getRuntimeProperties' &&
+		managedEntityType !== 'rule' &&
+		(this.getNodeParameter('allEntities', 0, false) as boolean);
+
+	console.log(`🏗️ Entity management: ${operation} on ${managedEntityType}`);
+
+	for (let i = 0; i < (listsAllEntities ? 1 : itemCount); i++) {
+		let results: IDataObject[];
+		if (managedEntityType === 'queue') {
+			results = await manageQueue.call(this, adminClient, operation, i);
+		} else if (managedEntityType === 'topic') {
+			results = await manageTopic.call(this, adminClient, operation, i);
+		} else if (managedEntityType === 'subscription') {
+			results = await manageSubscription.call(this, adminClient, operation, i);
+		} else if (managedEntityType === 'rule') {
+			results = await manageRule.call(this, adminClient, operation, i);
+		} else {
+			throw new NodeOperationError(this.getNode(), `Unsupported entity type: ${managedEntityType}`);
+		}
+
+		returnData.push(...results.map((json) => ({ json })));
+	}
+
+	return returnData;
+}
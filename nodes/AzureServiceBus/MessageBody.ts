@@ -0,0 +1,212 @@
+import {
+	IDataObject,
+	IExecuteFunctions,
+	INodeExecutionData,
+	INodePropertyOptions,
+	ITriggerFunctions,
+} from 'n8n-workflow';
+import { XMLParser, XMLValidator } from 'fast-xml-parser';
+
+/**
+ * How a received message body is put on the output item.
+ */
+export type BodyOutput = 'auto' | 'json' | 'text' | 'xml' | 'base64' | 'binary';
+
+/**
+ * The decoder that produced the body of an output item. amqpValue means the SDK already decoded
+ * a body sent as an AMQP value (e.g. an object), so it is passed through.
+ */
+export type BodyDecoder = 'json' | 'text' | 'xml' | 'base64' | 'amqpValue';
+
+export interface DecodedBody {
+	body: unknown;
+	decoder: BodyDecoder;
+	/** Why decoding failed; the raw body is kept in that case. */
+	error?: string;
+}
+
+export const bodyOutputOptions: INodePropertyOptions[] = [
+	{
+		name: 'Auto (by Content Type)',
+		value: 'auto',
+		description: 'JSON for */json and *+json, XML to JSON for */xml and *+xml, text for text/*, Base64 for other content types. Without a content type, JSON is detected and bytes that are not valid UTF-8 are output as Base64.',
+	},
+	{
+		name: 'Base64',
+		value: 'base64',
+		description: 'Output the raw bytes as a Base64 string',
+	},
+	{
+		name: 'Binary',
+		value: 'binary',
+		description: 'Keep the raw bytes as an n8n binary property, with the message content type as MIME type',
+	},
+	{
+		name: 'JSON',
+		value: 'json',
+		description: 'Always parse the body as JSON',
+	},
+	{
+		name: 'Raw String',
+		value: 'text',
+		description: 'Decode bytes as UTF-8 text without parsing',
+	},
+	{
+		name: 'XML to JSON',
+		value: 'xml',
+		description: 'Parse the body as XML and output it as JSON, with attributes prefixed by @_',
+	},
+];
+
+/**
+ * Returns the body bytes when the message carried a binary data section. Bodies that went through
+ * JSON serialization arrive as { type: 'Buffer', data: [...] } instead of a Buffer.
+ */
+export function getBodyBuffer(body: unknown): Buffer | undefined {
+	if (Buffer.isBuffer(body)) {
+		return body;
+	}
+	if (body && typeof body === 'object' && (body as { type?: unknown }).type === 'Buffer') {
+		return Buffer.from((body as { data: number[] }).data);
+	}
+	return undefined;
+}
+
+function getMediaType(contentType: string | undefined): string {
+	return (contentType ?? '').split(';')[0].trim().toLowerCase();
+}
+
+function isValidUtf8(buffer: Buffer): boolean {
+	try {
+		new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Picks the decoder for Auto mode from the content type. Without one, JSON is detected, and bytes
+ * that are not valid UTF-8 are kept as Base64 rather than decoded into replacement characters.
+ */
+function selectDecoder(contentType: string | undefined, text: string, buffer: Buffer | undefined): BodyDecoder {
+	const isBinary = !!buffer;
+	const mediaType = getMediaType(contentType);
+	if (mediaType.endsWith('/json') || mediaType.endsWith('+json')) {
+		return 'json';
+	}
+	if (mediaType.endsWith('/xml') || mediaType.endsWith('+xml')) {
+		return 'xml';
+	}
+	if (mediaType.startsWith('text/')) {
+		return 'text';
+	}
+	if (mediaType && isBinary) {
+		return 'base64';
+	}
+	if (buffer && !isValidUtf8(buffer)) {
+		return 'base64';
+	}
+	return /^[{[]/.test(stripBom(text).trim()) ? 'json' : 'text';
+}
+
+function stripBom(text: string): string {
+	return text.charCodeAt(0) === 0xfeff ? text.substring(1) : text;
+}
+
+function parseXml(text: string): unknown {
+	const validation = XMLValidator.validate(text);
+	if (validation !== true) {
+		throw new Error(`${validation.err.msg} (line ${validation.err.line}, column ${validation.err.col})`);
+	}
+	return new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '@_' }).parse(text);
+}
+
+/**
+ * Converts a received body for the JSON side of the output item and reports the decoder used.
+ * When parsing fails the raw text is kept as the body and the reason is returned alongside it.
+ */
+export function decodeMessageBody(
+	body: unknown,
+	contentType: string | undefined,
+	output: Exclude<BodyOutput, 'binary'>,
+): DecodedBody {
+	const buffer = getBodyBuffer(body);
+
+	if (!buffer && typeof body !== 'string') {
+		if (output === 'text') {
+			return { body: JSON.stringify(body), decoder: 'text' };
+		}
+		if (output === 'base64') {
+			return { body: Buffer.from(JSON.stringify(body ?? null), 'utf8').toString('base64'), decoder: 'base64' };
+		}
+		return { body, decoder: 'amqpValue' };
+	}
+
+	const text = buffer ? buffer.toString('utf8') : (body as string);
+	const autoDetected = output === 'auto';
+	const decoder = autoDetected ? selectDecoder(contentType, text, buffer) : output;
+
+	if (decoder === 'base64') {
+		return { body: (buffer ?? Buffer.from(text, 'utf8')).toString('base64'), decoder };
+	}
+	if (decoder === 'text') {
+		return { body: text, decoder };
+	}
+
+	try {
+		const decoded = decoder === 'json' ? JSON.parse(stripBom(text).trim()) : parseXml(stripBom(text).trim());
+		console.log(`📦 Decoded message body as ${decoder.toUpperCase()}`);
+		return { body: decoded, decoder };
+	} catch (error) {
+		if (autoDetected && !getMediaType(contentType)) {
+			// Only a guess from the first character, so text that merely looks like JSON stays text
+			return { body: text, decoder: 'text' };
+		}
+		console.log(`⚠️ Could not decode body as ${decoder.toUpperCase()}, keeping the raw string`);
+		return { body: text, decoder, error: (error as Error).message };
+	}
+}
+
+/**
+ * Returns the body fields of an output item: the decoded body, the decoder used and, when
+ * decoding failed, the error. Binary output puts the body in a binary property instead.
+ */
+export function formatMessageBody(
+	message: { body: unknown; contentType?: string },
+	output: BodyOutput,
+): IDataObject {
+	if (output === 'binary') {
+		return {};
+	}
+	const { body, decoder, error } = decodeMessageBody(message.body, message.contentType, output);
+	return {
+		body: body as IDataObject | string | number | boolean,
+		bodyDecoder: decoder,
+		...(error !== undefined ? { bodyDecodeError: error } : {}),
+	};
+}
+
+/**
+ * Moves the body of an output item into a binary property. Bodies the SDK already decoded
+ * (strings, or objects sent as AMQP values) are re-encoded as UTF-8 text or JSON.
+ */
+export async function setBinaryBody(
+	this: IExecuteFunctions | ITriggerFunctions,
+	item: INodeExecutionData,
+	body: unknown,
+	contentType: string | undefined,
+	binaryPropertyName: string,
+): Promise<void> {
+	let buffer = getBodyBuffer(body);
+	if (!buffer) {
+		buffer = Buffer.from(typeof body === 'string' ? body : JSON.stringify(body ?? null), 'utf8');
+	}
+
+	const fileName = String(item.json.messageId ?? item.json.sequenceNumber ?? 'message');
+	item.binary = {
+		...item.binary,
+		[binaryPropertyName]: await this.helpers.prepareBinaryData(buffer, fileName, contentType || 'application/octet-stream'),
+	};
+	delete item.json.body;
+}
@@ -0,0 +1,131 @@
+import { IDataObject, INodePropertyOptions } from 'n8n-workflow';
+import { ServiceBusReceivedMessage } from '@azure/service-bus';
+
+/**
+ * How much of a received message, besides its body, is put on the output item.
+ */
+export type MessageMetadata = 'standard' | 'all' | 'rawAmqp';
+
+export const messageMetadataOptions: INodePropertyOptions[] = [
+	{
+		name: 'Standard',
+		value: 'standard',
+		description: 'Message ID, content type, enqueued time, delivery count, sequence number, session ID and application properties',
+	},
+	{
+		name: 'All System Properties',
+		value: 'all',
+		description: 'Every system property of the received message, including lock, expiry, correlation and dead-letter details',
+	},
+	{
+		name: 'All System Properties and Raw AMQP',
+		value: 'rawAmqp',
+		description: 'Also the annotated AMQP message (header, properties, message and delivery annotations, footer), for debugging interop with Java or .NET producers',
+	},
+];
+
+/**
+ * Converts AMQP values that do not survive JSON output: Longs and bigints become strings,
+ * Buffers become Base64 and Dates ISO strings.
+ */
+function toJsonValue(value: unknown): unknown {
+	if (value === null || value === undefined) {
+		return value;
+	}
+	if (typeof value === 'bigint') {
+		return value.toString();
+	}
+	if (value instanceof Date) {
+		return value.toISOString();
+	}
+	if (Buffer.isBuffer(value)) {
+		return value.toString('base64');
+	}
+	if (Array.isArray(value)) {
+		return value.map(toJsonValue);
+	}
+	if (typeof value === 'object') {
+		if (typeof (value as { high?: unknown }).high === 'number' && typeof (value as { low?: unknown }).low === 'number') {
+			// Long from the long package, as used for sequence numbers and AMQP ulong values
+			return String(value);
+		}
+		const result: IDataObject = {};
+		for (const [key, entry] of Object.entries(value)) {
+			result[key] = toJsonValue(entry) as IDataObject;
+		}
+		return result;
+	}
+	return value;
+}
+
+/**
+ * Returns every system property of a received message. Properties the broker did not set are left out.
+ */
+export function formatSystemProperties(message: ServiceBusReceivedMessage): IDataObject {
+	const systemProperties: IDataObject = {
+		messageId: toJsonValue(message.messageId) as string,
+		correlationId: toJsonValue(message.correlationId) as string,
+		subject: message.subject,
+		contentType: message.contentType,
+		to: message.to,
+		replyTo: message.replyTo,
+		replyToSessionId: message.replyToSessionId,
+		sessionId: message.sessionId,
+		partitionKey: message.partitionKey,
+		timeToLive: message.timeToLive,
+		scheduledEnqueueTimeUtc: message.scheduledEnqueueTimeUtc,
+		enqueuedTimeUtc: message.enqueuedTimeUtc,
+		expiresAtUtc: message.expiresAtUtc,
+		lockedUntilUtc: message.lockedUntilUtc,
+		lockToken: message.lockToken,
+		deliveryCount: message.deliveryCount,
+		sequenceNumber: message.sequenceNumber?.toString(),
+		enqueuedSequenceNumber: message.enqueuedSequenceNumber,
+		state: message.state,
+		deadLetterReason: message.deadLetterReason,
+		deadLetterErrorDescription: message.deadLetterErrorDescription,
+		deadLetterSource: message.deadLetterSource,
+	};
+
+	for (const key of Object.keys(systemProperties)) {
+		if (systemProperties[key] === undefined) {
+			delete systemProperties[key];
+		}
+	}
+	return systemProperties;
+}
+
+/**
+ * Returns the annotated AMQP message without its body, which is already decoded on the item.
+ */
+export function formatRawAmqpMessage(message: ServiceBusReceivedMessage): IDataObject | undefined {
+	const rawMessage = message._rawAmqpMessage;
+	if (!rawMessage) {
+		return undefined;
+	}
+
+	return toJsonValue({
+		bodyType: rawMessage.bodyType,
+		header: rawMessage.header,
+		properties: rawMessage.properties,
+		messageAnnotations: rawMessage.messageAnnotations,
+		deliveryAnnotations: rawMessage.deliveryAnnotations,
+		applicationProperties: rawMessage.applicationProperties,
+		footer: rawMessage.footer,
+	}) as IDataObject;
+}
+
+/**
+ * Builds a stand-in for a message received by an earlier execution, so it can be settled by lock
+ * token alone. This relies on how @azure/service-bus 7.9 settles messages: one whose delivery has
+ * no link is treated like a deferred message and settled through the management link by its lock
+ * token, and without a session ID no session lock is required. The shape is checked by a test
+ * pinned to that SDK version.
+ */
+export function createLockedMessageReference(lockToken: string): ServiceBusReceivedMessage {
+	return {
+		lockToken,
+		body: undefined,
+		delivery: {},
+	} as unknown as ServiceBusReceivedMessage;
+}
@@ -0,0 +1,180 @@
+import { createHash, createHmac } from 'crypto';
+
+/**
+ * The parts of a connection string needed to authorize requests with shared access signatures.
+ */
+export interface SasConnectionProperties {
+	hostname: string;
+	sharedAccessKeyName?: string;
+	sharedAccessKey?: string;
+	sharedAccessSignature?: string;
+	entityPath?: string;
+}
+
+export interface SasTokenOptions {
+	/** Lifetime of newly signed tokens, in seconds. */
+	ttlInSeconds: number;
+	/** Sign tokens for the entity being accessed, or once for the whole namespace. */
+	scope: 'entity' | 'namespace';
+}
+
+export const DEFAULT_SAS_TOKEN_OPTIONS: SasTokenOptions = {
+	ttlInSeconds: 3600,
+	scope: 'entity',
+};
+
+export interface CachedSasToken {
+	token: string;
+	expiresOn: number;
+}
+
+const tokenCache = new Map<string, CachedSasToken>();
+
+/**
+ * Splits a connection string into its parts, keyed by their lower-cased name. Values are split on
+ * the first '=' only, because base64 keys and signatures end in '='. Malformed parts and parts
+ * without a value are skipped, and described in problems when it is given.
+ */
+export function splitConnectionString(connectionString: string, problems?: string[]): Record<string, string> {
+	const parts: Record<string, string> = {};
+	for (const segment of connectionString.split(';')) {
+		if (!segment.trim()) {
+			continue;
+		}
+		const separator = segment.indexOf('=');
+		if (separator <= 0) {
+			problems?.push(`Malformed part "${segment.trim()}": expected Key=Value pairs separated by ";"`);
+			continue;
+		}
+		const value = segment.substring(separator + 1).trim();
+		if (!value) {
+			problems?.push(`${segment.substring(0, separator).trim()} has no value`);
+			continue;
+		}
+		parts[segment.substring(0, separator).trim().toLowerCase()] = value;
+	}
+	return parts;
+}
+
+export function parseConnectionString(connectionString: string): SasConnectionProperties {
+	const parts = splitConnectionString(connectionString);
+
+	const endpoint = parts.endpoint;
+	if (!endpoint) {
+		throw new Error('Missing Endpoint in connection string');
+	}
+
+	const properties: SasConnectionProperties = {
+		hostname: endpoint.replace(/^[a-z]+:\/\//i, '').replace(/\/+$/, ''),
+		sharedAccessKeyName: parts.sharedaccesskeyname || undefined,
+		sharedAccessKey: parts.sharedaccesskey || undefined,
+		sharedAccessSignature: parts.sharedaccesssignature || undefined,
+		entityPath: parts.entitypath || undefined,
+	};
+
+	if (!properties.sharedAccessSignature && (!properties.sharedAccessKeyName || !properties.sharedAccessKey)) {
+		throw new Error('Connection string needs SharedAccessKeyName and SharedAccessKey, or a SharedAccessSignature');
+	}
+
+	console.log('🔧 Connection details:', {
+		hostname: properties.hostname,
+		hasSharedAccessKey: !!properties.sharedAccessKey,
+		hasSharedAccessSignature: !!properties.sharedAccessSignature,
+		entityPath: properties.entityPath,
+	});
+
+	return properties;
+}
+
+function signSasToken(resourceUri: string, keyName: string, key: string, ttlInSeconds: number): CachedSasToken {
+	const encodedUri = encodeURIComponent(resourceUri);
+	const expiry = Math.floor(Date.now() / 1000) + ttlInSeconds;
+
+	const hash = createHmac('sha256', key).update(`${encodedUri}\n${expiry}`, 'utf8').digest('base64');
+
+	return {
+		token: `SharedAccessSignature sr=${encodedUri}&sig=${encodeURIComponent(hash)}&se=${expiry}&skn=${keyName}`,
+		expiresOn: expiry * 1000,
+	};
+}
+
+/**
+ * Reads the expiry of a pre-issued signature and refuses it once it has passed, since it cannot be renewed.
+ */
+function getPreIssuedToken(sharedAccessSignature: string): CachedSasToken {
+	const expiry = Number(/[?&\s]se=(\d+)/.exec(sharedAccessSignature)?.[1]);
+	if (expiry && expiry * 1000 <= Date.now()) {
+		throw new Error(`SharedAccessSignature expired at ${new Date(expiry * 1000).toISOString()}. Ask the issuer for a new one.`);
+	}
+	return { token: sharedAccessSignature, expiresOn: expiry ? expiry * 1000 : Number.MAX_SAFE_INTEGER };
+}
+
+/**
+ * Returns the resource a token is signed for: the entity itself, or the namespace root which
+ * covers every entity in it.
+ */
+function getTokenResource(properties: SasConnectionProperties, resourceUri: string, options: SasTokenOptions): string {
+	if (options.scope === 'namespace') {
+		const scheme = /^([a-z]+):\/\//i.exec(resourceUri)?.[1] ?? 'https';
+		return `${scheme}://${properties.hostname}/`;
+	}
+	return resourceUri;
+}
+
+/**
+ * Signs a new SAS token for the resource, or returns the pre-issued signature.
+ */
+function createSasToken(
+	properties: SasConnectionProperties,
+	resourceUri: string,
+	options: SasTokenOptions,
+): CachedSasToken {
+	if (properties.sharedAccessSignature) {
+		return getPreIssuedToken(properties.sharedAccessSignature);
+	}
+
+	const tokenResource = getTokenResource(properties, resourceUri, options);
+	console.log(`🔐 Signing SAS token for ${tokenResource} (valid for ${options.ttlInSeconds}s)`);
+	return signSasToken(tokenResource, properties.sharedAccessKeyName as string, properties.sharedAccessKey as string, options.ttlInSeconds);
+}
+
+/**
+ * Drops expired tokens, so entities and keys that are no longer used do not stay cached forever.
+ */
+function evictExpiredTokens(): void {
+	const now = Date.now();
+	for (const [cacheKey, cached] of tokenCache) {
+		if (cached.expiresOn <= now) {
+			tokenCache.delete(cacheKey);
+		}
+	}
+}
+
+/**
+ * Returns a SAS token for the resource, reusing a cached one until it is close to expiring.
+ * Tokens are refreshed once less than a tenth of their lifetime (at most five minutes) is left.
+ */
+export function getSasToken(
+	properties: SasConnectionProperties,
+	resourceUri: string,
+	options: SasTokenOptions = DEFAULT_SAS_TOKEN_OPTIONS,
+): CachedSasToken {
+	if (properties.sharedAccessSignature) {
+		return getPreIssuedToken(properties.sharedAccessSignature);
+	}
+
+	const tokenResource = getTokenResource(properties, resourceUri, options);
+	const keyFingerprint = createHash('sha256').update(properties.sharedAccessKey as string).digest('hex');
+	const cacheKey = `${tokenResource}|${properties.sharedAccessKeyName}|${keyFingerprint}|${options.ttlInSeconds}`;
+	const refreshMarginInMs = Math.min(options.ttlInSeconds * 100, 5 * 60 * 1000);
+
+	const cached = tokenCache.get(cacheKey);
+	if (cached && cached.expiresOn - Date.now() > refreshMarginInMs) {
+		return cached;
+	}
+
+	evictExpiredTokens();
+	const signed = createSasToken(properties, resourceUri, options);
+	tokenCache.set(cacheKey, signed);
+	return signed;
+}
@@ -1,5 +1,4 @@
 import {
-	IDataObject,
 	INodeType,
 	INodeTypeDescription,
 	ITriggerFunctions,
@@ -14,15 +13,37 @@ import {
 	ServiceBusSessionReceiver,
 	ProcessErrorArgs,
 } from '@azure/service-bus';
-
-interface SessionReceiverManager {
-	queueName?: string;
-	topicName?: string;
-	subscriptionName?: string;
-	sessionMode: string;
-	serviceBusClient: ServiceBusClient;
-	activeReceivers: Map<string, ServiceBusSessionReceiver>;
-}
+import {
+	authenticationProperty,
+	createServiceBusClient,
+	credentialDescriptions,
+	getServiceBusConnection,
+} from '../AzureServiceBus/Connection';
+import { testConnectionStringCredential } from '../AzureServiceBus/CredentialTest';
+import { BodyOutput, bodyOutputOptions, formatMessageBody, setBinaryBody } from '../AzureServiceBus/MessageBody';
+import {
+	formatRawAmqpMessage,
+	formatSystemProperties,
+	MessageMetadata,
+	messageMetadataOptions,
+} from '../AzureServiceBus/ReceivedMessage';
+import {
+	DEFERRED_SEQUENCE_NUMBER_PROPERTY,
+	emitAndWaitForExecution,
+	FailurePolicy,
+	isDeferredMessage,
+	isRetryMarker,
+	PoisonAction,
+	receiveDeferredMessage,
+	renewDeferredMessageLocks,
+	RetryDelayMode,
+	SettlementMode,
+	SettlementOptions,
+	settleByOutcome,
+} from './Settlement';
+import { SessionPool, startSessionPool } from './SessionPool';
+import { BatchEntry, createBatchCollector, EmitMode, groupByReceiver } from './MessageBatch';
+import { FilterAction, FilterCondition, FilterMode, matchesFilter, MessageFilter } from './MessageFilter';
 
 export class AzureServiceBusTrigger implements INodeType {
 	description: INodeTypeDescription = {
@@ -37,13 +58,9 @@ export class AzureServiceBusTrigger implements INodeType {
 		},
 		inputs: [],
 		outputs: ['main'],
-		credentials: [
-			{
-				name: 'azureServiceBusApi',
-				required: true,
-			},
-		],
+		credentials: credentialDescriptions,
 		properties: [
+			authenticationProperty,
 			{
 				displayName: 'Resource',
 				name: 'resource',
@@ -119,6 +136,36 @@ export class AzureServiceBusTrigger implements INodeType {
 				default: 300,
 				description: 'Session lock timeout in seconds',
 			},
+			{
+				displayName: 'Max Concurrent Sessions',
+				name: 'maxConcurrentSessions',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						sessionMode: ['any'],
+					},
+				},
+				default: 8,
+				description: 'Maximum number of sessions processed at the same time. Messages within a session are always processed one after another, in order.',
+			},
+			{
+				displayName: 'Session Idle Timeout (Seconds)',
+				name: 'sessionIdleTimeout',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						sessionMode: ['any', 'specific'],
+					},
+				},
+				default: 60,
+				description: 'How long a session may go without messages before it is closed, so its slot can take the next session',
+			},
 			{
 				displayName: 'Queue Name',
 				name: 'queueName',
@@ -166,19 +213,461 @@ export class AzureServiceBusTrigger implements INodeType {
 				name: 'maxConcurrentCalls',
 				type: 'number',
 				default: 1,
-				description: 'Maximum number of concurrent message processing calls',
+				description: 'Maximum number of concurrent message processing calls. In session mode, use Max Concurrent Sessions instead.',
+			},
+			{
+				displayName: 'Emit',
+				name: 'emitMode',
+				type: 'options',
+				options: [
+					{
+						name: 'One Execution per Message',
+						value: 'message',
+					},
+					{
+						name: 'One Execution per Batch',
+						value: 'batch',
+						description: 'Collect messages and start one execution with an item per message',
+					},
+				],
+				default: 'message',
+				description: 'How received messages start workflow executions',
+			},
+			{
+				displayName: 'Batch Size',
+				name: 'batchSize',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						emitMode: ['batch'],
+					},
+				},
+				default: 100,
+				description: 'Maximum number of messages per execution',
+			},
+			{
+				displayName: 'Batch Window (Seconds)',
+				name: 'batchWindow',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				displayOptions: {
+					show: {
+						emitMode: ['batch'],
+					},
+				},
+				default: 10,
+				description: 'How long to wait for a batch to fill up after its first message. Keep it well below the lock duration.',
+			},
+			{
+				displayName: 'Mix Sessions in a Batch',
+				name: 'mixSessions',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						emitMode: ['batch'],
+						sessionMode: ['any'],
+					},
+				},
+				default: false,
+				description: 'Whether a batch may contain messages from different sessions. Off, every batch holds the messages of a single session, in order.',
+			},
+			{
+				displayName: 'Settlement',
+				name: 'settlement',
+				type: 'options',
+				options: [
+					{
+						name: 'On Emit',
+						value: 'onEmit',
+						description: 'Settle as soon as the message is handed to the workflow. A failed execution does not bring the message back.',
+					},
+					{
+						name: 'After Workflow Execution',
+						value: 'workflowOutcome',
+						description: 'Hold the lock until the execution finishes, then complete on success or apply the failure policy',
+					},
+				],
+				default: 'onEmit',
+				description: 'When received messages are completed',
+			},
+			{
+				displayName: 'On Workflow Failure',
+				name: 'failurePolicy',
+				type: 'options',
+				displayOptions: {
+					show: {
+						settlement: ['workflowOutcome'],
+					},
+				},
+				options: [
+					{
+						name: 'Abandon',
+						value: 'abandon',
+						description: 'Release the lock so the message is redelivered, until the entity\'s max delivery count dead-letters it',
+					},
+					{
+						name: 'Dead-Letter',
+						value: 'deadLetter',
+						description: 'Move the message to the dead-letter sub-queue with the execution error as description',
+					},
+				],
+				default: 'abandon',
+			},
+			{
+				displayName: 'Max Delivery Attempts',
+				name: 'maxDeliveryAttempts',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				displayOptions: {
+					show: {
+						settlement: ['workflowOutcome'],
+						failurePolicy: ['abandon'],
+					},
+				},
+				default: 0,
+				description: 'Failed deliveries after which a message is treated as poison. Set 0 to leave it to the entity\'s max delivery count.',
+			},
+			{
+				displayName: 'Poison Message Action',
+				name: 'poisonAction',
+				type: 'options',
+				displayOptions: {
+					show: {
+						settlement: ['workflowOutcome'],
+						failurePolicy: ['abandon'],
+					},
+				},
+				options: [
+					{
+						name: 'Dead-Letter',
+						value: 'deadLetter',
+						description: 'Move the message to the dead-letter sub-queue',
+					},
+					{
+						name: 'Forward to Parking Queue',
+						value: 'parkingQueue',
+						description: 'Send a copy to another queue and complete the original',
+					},
+				],
+				default: 'deadLetter',
+				description: 'What to do with a message once it reaches Max Delivery Attempts',
+			},
+			{
+				displayName: 'Dead-Letter Reason',
+				name: 'poisonDeadLetterReason',
+				type: 'string',
+				displayOptions: {
+					show: {
+						settlement: ['workflowOutcome'],
+						failurePolicy: ['abandon'],
+					},
+				},
+				default: 'MaxDeliveryAttemptsExceeded',
+				description: 'Reason recorded on poison messages, followed by the error of the last failed execution. Parked copies carry it as the DeadLetterReason property.',
+			},
+			{
+				displayName: 'Parking Queue Name',
+				name: 'parkingQueueName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						settlement: ['workflowOutcome'],
+						failurePolicy: ['abandon'],
+						poisonAction: ['parkingQueue'],
+					},
+				},
+				default: '',
+				placeholder: 'my-queue-parking',
+				description: 'Queue that poison messages are forwarded to',
+				required: true,
+			},
+			{
+				displayName: 'Retry Delay',
+				name: 'retryDelay',
+				type: 'options',
+				displayOptions: {
+					show: {
+						settlement: ['workflowOutcome'],
+						failurePolicy: ['abandon'],
+					},
+				},
+				options: [
+					{
+						name: 'None',
+						value: 'none',
+						description: 'Abandon the message so it is redelivered immediately',
+					},
+					{
+						name: 'Defer',
+						value: 'defer',
+						description: 'Defer the message and schedule a marker that brings it back after the delay, also after a restart and within its session. Queues only.',
+					},
+					{
+						name: 'Reschedule Copy',
+						value: 'reschedule',
+						description: 'Schedule a copy for after the delay and complete the original. Queues only. The copy keeps the message ID, so it is dropped by duplicate detection within its window.',
+					},
+				],
+				default: 'none',
+				description: 'How a failed message is retried. Delays grow exponentially with the number of failed deliveries.',
+			},
+			{
+				displayName: 'Initial Retry Delay (Seconds)',
+				name: 'initialRetryDelay',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				displayOptions: {
+					show: {
+						settlement: ['workflowOutcome'],
+						failurePolicy: ['abandon'],
+						retryDelay: ['defer', 'reschedule'],
+					},
+				},
+				default: 5,
+				description: 'Delay after the first failure, doubled on every further failure',
+			},
+			{
+				displayName: 'Max Retry Delay (Seconds)',
+				name: 'maxRetryDelay',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				displayOptions: {
+					show: {
+						settlement: ['workflowOutcome'],
+						failurePolicy: ['abandon'],
+						retryDelay: ['defer', 'reschedule'],
+					},
+				},
+				default: 300,
+				description: 'Upper limit for the retry delay',
+			},
+			{
+				displayName: 'Max Lock Renewal (Seconds)',
+				name: 'maxLockRenewalDuration',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				displayOptions: {
+					show: {
+						settlement: ['workflowOutcome'],
+					},
+				},
+				default: 300,
+				description: 'How long the message lock is renewed while the workflow runs, also for deferred messages brought back by a retry marker. Session locks are renewed for the Session Timeout instead.',
 			},
 			{
 				displayName: 'Auto Complete Messages',
 				name: 'autoComplete',
 				type: 'boolean',
+				displayOptions: {
+					show: {
+						settlement: ['onEmit'],
+					},
+				},
 				default: true,
 				description: 'Whether to automatically complete messages after processing',
 			},
+			{
+				displayName: 'Body Decoding',
+				name: 'bodyOutput',
+				type: 'options',
+				options: bodyOutputOptions,
+				default: 'auto',
+				description: 'How to decode the body of received messages. The decoder used is output as bodyDecoder.',
+			},
+			{
+				displayName: 'Output Binary Field',
+				name: 'binaryPropertyName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						bodyOutput: ['binary'],
+					},
+				},
+				default: 'data',
+				required: true,
+				description: 'Name of the binary property to put the message body in',
+			},
+			{
+				displayName: 'Metadata',
+				name: 'messageMetadata',
+				type: 'options',
+				options: messageMetadataOptions,
+				default: 'standard',
+				description: 'Which message properties to output besides the body',
+			},
+			{
+				displayName: 'Filter',
+				name: 'filterMode',
+				type: 'options',
+				options: [
+					{
+						name: 'None',
+						value: 'none',
+						description: 'Emit every received message',
+					},
+					{
+						name: 'Rules',
+						value: 'rules',
+						description: 'Emit only messages matching conditions on their properties and body',
+					},
+					{
+						name: 'Expression',
+						value: 'expression',
+						description: 'Emit only messages for which an expression is true',
+					},
+				],
+				default: 'none',
+				description: 'Filter messages in the trigger, e.g. on a subscription shared with other systems whose rules cannot be changed',
+			},
+			{
+				displayName: 'Match',
+				name: 'filterCombinator',
+				type: 'options',
+				displayOptions: {
+					show: {
+						filterMode: ['rules'],
+					},
+				},
+				options: [
+					{
+						name: 'All Conditions',
+						value: 'all',
+					},
+					{
+						name: 'Any Condition',
+						value: 'any',
+					},
+				],
+				default: 'all',
+			},
+			{
+				displayName: 'Conditions',
+				name: 'filterConditions',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				displayOptions: {
+					show: {
+						filterMode: ['rules'],
+					},
+				},
+				default: {},
+				placeholder: 'Add Condition',
+				options: [
+					{
+						name: 'condition',
+						displayName: 'Condition',
+						values: [
+							{
+								displayName: 'Field',
+								name: 'field',
+								type: 'string',
+								default: '',
+								placeholder: 'applicationProperties.eventType',
+								description: 'Dot-separated path into the message: applicationProperties.*, a system property such as subject or correlationId, or body.* for fields of a decoded JSON or XML body',
+							},
+							{
+								displayName: 'Operation',
+								name: 'operation',
+								type: 'options',
+								options: [
+									{ name: 'Contains', value: 'contains' },
+									{ name: 'Ends With', value: 'endsWith' },
+									{ name: 'Equals', value: 'equals' },
+									{ name: 'Exists', value: 'exists' },
+									{ name: 'Greater Than', value: 'greaterThan' },
+									{ name: 'Less Than', value: 'lessThan' },
+									{ name: 'Matches Regex', value: 'regex' },
+									{ name: 'Not Contains', value: 'notContains' },
+									{ name: 'Not Equals', value: 'notEquals' },
+									{ name: 'Not Exists', value: 'notExists' },
+									{ name: 'Starts With', value: 'startsWith' },
+								],
+								default: 'equals',
+							},
+							{
+								displayName: 'Value',
+								name: 'value',
+								type: 'string',
+								displayOptions: {
+									hide: {
+										operation: ['exists', 'notExists'],
+									},
+								},
+								default: '',
+								description: 'Value to compare with. Values are compared as text, or as numbers for Greater Than and Less Than.',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Filter Expression',
+				name: 'filterExpression',
+				type: 'string',
+				displayOptions: {
+					show: {
+						filterMode: ['expression'],
+					},
+				},
+				default: '',
+				placeholder: '{{ $json.applicationProperties.eventType === "order.created" }}',
+				description: 'Evaluated for every message, with the message and all its system properties as $json. Messages match when it returns true.',
+				required: true,
+			},
+			{
+				displayName: 'Non-Matching Messages',
+				name: 'filterAction',
+				type: 'options',
+				displayOptions: {
+					show: {
+						filterMode: ['rules', 'expression'],
+					},
+				},
+				options: [
+					{
+						name: 'Complete',
+						value: 'complete',
+						description: 'Remove them from the entity',
+					},
+					{
+						name: 'Abandon',
+						value: 'abandon',
+						description: 'Release the lock right away so another consumer can receive them. Counts as a delivery: if no other consumer takes them, they are dead-lettered once Max Delivery Count is reached.',
+					},
+					{
+						name: 'Leave Locked',
+						value: 'leave',
+						description: 'Do not settle them, so they become available to other consumers once the lock expires. Counts as a delivery: if no other consumer takes them, they are dead-lettered once Max Delivery Count is reached.',
+					},
+				],
+				default: 'complete',
+				description: 'What to do with messages that do not match the filter. Abandon and Leave Locked only suit entities other consumers read too; on a subscription only this trigger reads, this node receives them again and again until they are dead-lettered. Use Complete there, or a subscription rule so they are never delivered. Messages the filter cannot be evaluated for are always abandoned.',
+			},
 		],
 		// This is a real-time trigger, not polling-based
 	};
 
+	methods = {
+		credentialTest: {
+			azureServiceBusConnectionStringTest: testConnectionStringCredential,
+		},
+	};
+
 	async trigger(this: ITriggerFunctions): Promise<ITriggerResponse> {
 		console.log('🚀 Azure Service Bus Trigger started');
 
@@ -189,21 +678,39 @@ export class AzureServiceBusTrigger implements INodeType {
 			maxRetryAttempts = 1000000;
 		}
 		const maxConcurrentCalls = this.getNodeParameter('maxConcurrentCalls', 1) as number;
-		const autoComplete = this.getNodeParameter('autoComplete', true) as boolean;
+		const settlement = this.getNodeParameter('settlement', 'onEmit') as SettlementMode;
+		const failurePolicy = this.getNodeParameter('failurePolicy', 'abandon') as FailurePolicy;
+		// Settling after the execution needs manual settlement, so the SDK must not complete on its own
+		const autoComplete = settlement === 'onEmit' && (this.getNodeParameter('autoComplete', true) as boolean);
+		const maxLockRenewalMs = (this.getNodeParameter('maxLockRenewalDuration', 300) as number) * 1000;
+		const receiverOptions = settlement === 'workflowOutcome' ? { maxAutoLockRenewalDurationInMs: maxLockRenewalMs } : {};
 		const sessionMode = this.getNodeParameter('sessionMode', 'none') as string;
+		const bodyOutput = this.getNodeParameter('bodyOutput', 'auto') as BodyOutput;
+		const metadata = this.getNodeParameter('messageMetadata', 'standard') as MessageMetadata;
+		const filter: MessageFilter = {
+			mode: this.getNodeParameter('filterMode', 'none') as FilterMode,
+			combinator: this.getNodeParameter('filterCombinator', 'all') as 'all' | 'any',
+			conditions: ((this.getNodeParameter('filterConditions', {}) as { condition?: FilterCondition[] }).condition ?? []).filter(
+				(condition) => condition.field,
+			),
+			// Kept raw so that it is evaluated for every message rather than once on activation
+			expression: this.getNodeParameter('filterExpression', '', { rawExpressions: true }) as string,
+		};
+		const filterAction = this.getNodeParameter('filterAction', 'complete') as FilterAction;
+		const filterCounts = { received: 0, filtered: 0 };
+		const emitMode = this.getNodeParameter('emitMode', 'message') as EmitMode;
+		const batchSize = Math.max(this.getNodeParameter('batchSize', 100) as number, 1);
+		const batchWindowMs = (this.getNodeParameter('batchWindow', 10) as number) * 1000;
+		const mixSessions = sessionMode === 'any' && (this.getNodeParameter('mixSessions', false) as boolean);
+		// Session messages are received rather than subscribed, filtered messages must not be completed by
+		// the SDK, and batched messages are only emitted after processMessage would have returned, so in
+		// those cases emitted messages are completed by the trigger itself
+		const completeAfterEmit = autoComplete && (sessionMode !== 'none' || filter.mode !== 'none' || emitMode === 'batch');
 
 		console.log(`📝 Trigger parameters: resource=${resource}, sessionMode=${sessionMode}, maxConcurrentCalls=${maxConcurrentCalls}`);
 
-		const credentials = await this.getCredentials('azureServiceBusApi');
-		const connectionString = credentials.connectionString as string;
-
-		if (!connectionString) {
-			throw new NodeOperationError(this.getNode(), 'Azure Service Bus connection string is required');
-		}
-
-		if (connectionString.includes('__n8n_BLANK_VALUE_')) {
-			throw new NodeOperationError(this.getNode(), 'Connection string contains blank values. Please re-enter your credentials.');
-		}
+		const authentication = this.getNodeParameter('authentication', 'connectionString') as string;
+		const connection = await getServiceBusConnection.call(this, authentication);
 
 		console.log('🔗 Creating ServiceBusClient with WebSockets transport...');
 
@@ -216,7 +723,7 @@ export class AzureServiceBusTrigger implements INodeType {
 
 		try {
 			const WebSocket = require('ws');
-			serviceBusClient = new ServiceBusClient(connectionString, {
+			serviceBusClient = createServiceBusClient(connection, {
 				webSocketOptions: {
 					webSocket: WebSocket,
 				},
@@ -225,28 +732,64 @@ export class AzureServiceBusTrigger implements INodeType {
 			console.log('✅ ServiceBusClient created with WebSockets transport and retry options');
 		} catch (wsError) {
 			console.log('⚠️ WebSockets not available, using default transport');
-			serviceBusClient = new ServiceBusClient(connectionString, { retryOptions });
+			serviceBusClient = createServiceBusClient(connection, { retryOptions });
+		}
+
+		const settlementOptions: SettlementOptions = { failurePolicy };
+		if (settlement === 'workflowOutcome' && failurePolicy === 'abandon') {
+			const poisonAction = this.getNodeParameter('poisonAction', 'deadLetter') as PoisonAction;
+			const retryDelay = this.getNodeParameter('retryDelay', 'none') as RetryDelayMode;
+
+			settlementOptions.poisonMessage = {
+				maxDeliveryAttempts: this.getNodeParameter('maxDeliveryAttempts', 0) as number,
+				action: poisonAction,
+				deadLetterReason: (this.getNodeParameter('poisonDeadLetterReason', '') as string) || 'MaxDeliveryAttemptsExceeded',
+			};
+			settlementOptions.retryDelay = {
+				mode: retryDelay,
+				initialDelayMs: (this.getNodeParameter('initialRetryDelay', 5) as number) * 1000,
+				maxDelayMs: (this.getNodeParameter('maxRetryDelay', 300) as number) * 1000,
+			};
+
+			if (settlementOptions.poisonMessage.maxDeliveryAttempts > 0 && poisonAction === 'parkingQueue') {
+				const parkingQueueName = (this.getNodeParameter('parkingQueueName', '') as string).trim();
+				if (!parkingQueueName) {
+					throw new NodeOperationError(this.getNode(), 'Parking Queue Name is required to forward poison messages');
+				}
+				settlementOptions.parkingSender = serviceBusClient.createSender(parkingQueueName);
+			}
+			if (retryDelay !== 'none') {
+				if (resource !== 'queue') {
+					// Retry copies and markers sent to the topic would reach every other subscription as well
+					throw new NodeOperationError(this.getNode(), `${retryDelay === 'defer' ? 'Defer' : 'Reschedule Copy'} is only supported for queues`, {
+						description: 'Set Retry Delay to None for topic subscriptions',
+					});
+				}
+				settlementOptions.retrySender = serviceBusClient.createSender(this.getNodeParameter('queueName') as string);
+			}
 		}
 
 		const receivers: ServiceBusReceiver[] = [];
 		let entityName: string;
-		let sessionReceiverManager: SessionReceiverManager | null = null;
+		let acceptSession: ((abortSignal: AbortSignal) => Promise<ServiceBusSessionReceiver>) | undefined;
+		const sessionTimeout = this.getNodeParameter('sessionTimeout', 300) as number;
+		const specificSessionId = sessionMode === 'specific' ? (this.getNodeParameter('specificSessionId') as string) : '';
 
 		if (resource === 'queue') {
 			const queueName = this.getNodeParameter('queueName') as string;
 			entityName = queueName;
 
 			if (sessionMode === 'none') {
-				const receiver = serviceBusClient.createReceiver(queueName);
+				const receiver = serviceBusClient.createReceiver(queueName, receiverOptions);
 				receivers.push(receiver);
 				console.log(`📬 Created standard receiver for queue: ${queueName}`);
 			} else {
 				console.log(`🔐 Session mode ${sessionMode} enabled for queue: ${queueName}`);
-				sessionReceiverManager = {
-					queueName,
-					sessionMode,
-					serviceBusClient,
-					activeReceivers: new Map(),
+				acceptSession = (abortSignal) => {
+					const sessionOptions = { maxAutoLockRenewalDurationInMs: sessionTimeout * 1000, abortSignal };
+					return sessionMode === 'specific'
+						? serviceBusClient.acceptSession(queueName, specificSessionId, sessionOptions)
+						: serviceBusClient.acceptNextSession(queueName, sessionOptions);
 				};
 			}
 		} else {
@@ -255,112 +798,28 @@ export class AzureServiceBusTrigger implements INodeType {
 			entityName = `${topicName}/${subscriptionName}`;
 
 			if (sessionMode === 'none') {
-				const receiver = serviceBusClient.createReceiver(topicName, subscriptionName);
+				const receiver = serviceBusClient.createReceiver(topicName, subscriptionName, receiverOptions);
 				receivers.push(receiver);
 				console.log(`📬 Created standard receiver for topic: ${topicName}, subscription: ${subscriptionName}`);
 			} else {
 				console.log(`🔐 Session mode ${sessionMode} enabled for topic: ${topicName}, subscription: ${subscriptionName}`);
-				sessionReceiverManager = {
-					topicName,
-					subscriptionName,
-					sessionMode,
-					serviceBusClient,
-					activeReceivers: new Map(),
+				acceptSession = (abortSignal) => {
+					const sessionOptions = { maxAutoLockRenewalDurationInMs: sessionTimeout * 1000, abortSignal };
+					return sessionMode === 'specific'
+						? serviceBusClient.acceptSession(topicName, subscriptionName, specificSessionId, sessionOptions)
+						: serviceBusClient.acceptNextSession(topicName, subscriptionName, sessionOptions);
 				};
 			}
 		}
 
-		const getOrCreateSessionReceiver = async (): Promise<ServiceBusSessionReceiver> => {
-			if (!sessionReceiverManager) {
-				throw new Error('Session receiver manager not initialized');
-			}
-
-			const sessionTimeout = this.getNodeParameter('sessionTimeout', 300) as number;
-			let receiver: ServiceBusSessionReceiver;
-
-			if (sessionMode === 'specific') {
-				const specificSessionId = this.getNodeParameter('specificSessionId') as string;
-
-				if (sessionReceiverManager.activeReceivers.has(specificSessionId)) {
-					return sessionReceiverManager.activeReceivers.get(specificSessionId)!;
-				}
-
-				try {
-					if (resource === 'queue') {
-						receiver = await sessionReceiverManager.serviceBusClient.acceptSession(
-							sessionReceiverManager.queueName!,
-							specificSessionId,
-							{ maxAutoLockRenewalDurationInMs: sessionTimeout * 1000 }
-						);
-					} else {
-						receiver = await sessionReceiverManager.serviceBusClient.acceptSession(
-							sessionReceiverManager.topicName!,
-							sessionReceiverManager.subscriptionName!,
-							specificSessionId,
-							{ maxAutoLockRenewalDurationInMs: sessionTimeout * 1000 }
-						);
-					}
-					sessionReceiverManager.activeReceivers.set(specificSessionId, receiver);
-					console.log(`✅ Accepted specific session: ${specificSessionId}`);
-					return receiver;
-				} catch (error) {
-					console.error(`❌ Failed to accept specific session ${specificSessionId}:`, error);
-					throw error;
-				}
-			} else if (sessionMode === 'any') {
-				try {
-					if (resource === 'queue') {
-						receiver = await sessionReceiverManager.serviceBusClient.acceptNextSession(
-							sessionReceiverManager.queueName!,
-							{ maxAutoLockRenewalDurationInMs: sessionTimeout * 1000 }
-						);
-					} else {
-						receiver = await sessionReceiverManager.serviceBusClient.acceptNextSession(
-							sessionReceiverManager.topicName!,
-							sessionReceiverManager.subscriptionName!,
-							{ maxAutoLockRenewalDurationInMs: sessionTimeout * 1000 }
-						);
-					}
-					const acceptedSessionId = receiver.sessionId;
-					sessionReceiverManager.activeReceivers.set(acceptedSessionId, receiver);
-					console.log(`✅ Accepted next available session: ${acceptedSessionId}`);
-					return receiver;
-				} catch (error) {
-					console.error('❌ No available sessions or failed to accept session:', error);
-					throw error;
-				}
-			}
-
-			throw new Error(`Unsupported session mode: ${sessionMode}`);
-		};
-
-		const processMessage = async (message: ServiceBusReceivedMessage, currentReceiver: ServiceBusReceiver | ServiceBusSessionReceiver): Promise<void> => {
+		// Builds the output item of a message, or settles the message and skips it when it does not pass the filter
+		const prepareEntry = async (message: ServiceBusReceivedMessage, currentReceiver: ServiceBusReceiver | ServiceBusSessionReceiver): Promise<BatchEntry | undefined> => {
 			console.log(`📨 Received message: ${message.messageId}`);
 
-			let messageBody: unknown = message.body;
-
-			if (messageBody && typeof messageBody === 'object' && (messageBody as any).type === 'Buffer') {
-				const buffer = Buffer.from((messageBody as any).data);
-				messageBody = buffer.toString('utf8');
-				console.log(`🔄 Converted Buffer to string`);
-			} else if (Buffer.isBuffer(messageBody)) {
-				messageBody = messageBody.toString('utf8');
-				console.log(`🔄 Converted Buffer to string`);
-			}
-
-			if (typeof messageBody === 'string' && messageBody.trim().startsWith('{')) {
-				try {
-					messageBody = JSON.parse(messageBody);
-					console.log('📦 Parsed JSON message body');
-				} catch (parseError) {
-					console.log('⚠️ Could not parse as JSON, keeping as string');
-				}
-			}
-
 		const nodeExecutionData: INodeExecutionData = {
 				json: {
 					messageId: message.messageId,
-					body: messageBody as IDataObject | string | number | boolean,
+					...formatMessageBody(message, bodyOutput),
 					contentType: message.contentType,
 					enqueuedTimeUtc: message.enqueuedTimeUtc,
 					applicationProperties: message.applicationProperties || {},
@@ -374,6 +833,44 @@ export class AzureServiceBusTrigger implements INodeType {
 				},
 			};
 
+			if (metadata !== 'standard') {
+				Object.assign(nodeExecutionData.json, formatSystemProperties(message));
+			}
+			if (metadata === 'rawAmqp') {
+				nodeExecutionData.json.rawAmqpMessage = formatRawAmqpMessage(message);
+			}
+
+			if (filter.mode !== 'none') {
+				filterCounts.received++;
+				const filterData = {
+					...formatSystemProperties(message),
+					...nodeExecutionData.json,
+					...(bodyOutput === 'binary' ? formatMessageBody(message, 'auto') : {}),
+				};
+				let matches: boolean;
+				try {
+					matches = matchesFilter(filter, filterData);
+				} catch (filterError) {
+					// Never complete a message the filter could not judge; abandon it so it is redelivered
+					// and eventually dead-lettered by the broker if the filter stays broken
+					console.error(`❌ Could not evaluate message filter for message ${message.messageId}, abandoning it: ${(filterError as Error).message}`);
+					await currentReceiver.abandonMessage(message);
+					return undefined;
+				}
+				if (!matches) {
+					filterCounts.filtered++;
+					if (filterAction === 'complete') {
+						await currentReceiver.completeMessage(message);
+					} else if (filterAction === 'abandon') {
+						await currentReceiver.abandonMessage(message);
+					}
+					console.log(
+						`🔍 Filtered out message ${message.messageId} (${filterAction}). ${filterCounts.filtered} of ${filterCounts.received} messages filtered so far`,
+					);
+					return undefined;
+				}
+			}
+
 			if (sessionMode !== 'none' && currentReceiver && 'sessionId' in currentReceiver) {
 				try {
 					const sessionState = await (currentReceiver as ServiceBusSessionReceiver).getSessionState();
@@ -392,29 +889,126 @@ export class AzureServiceBusTrigger implements INodeType {
 				}
 			}
 
-			this.emit([[nodeExecutionData]]);
-			console.log(`✅ Message ${message.messageId} processed and emitted to workflow`);
+			if (bodyOutput === 'binary') {
+				const binaryPropertyName = this.getNodeParameter('binaryPropertyName', 'data') as string;
+				await setBinaryBody.call(this, nodeExecutionData, message.body, message.contentType, binaryPropertyName);
+			}
+
+			return { message, receiver: currentReceiver, item: nodeExecutionData };
 		};
 
-		const processError = async (args: ProcessErrorArgs): Promise<void> => {
-			console.error(`❌ Error occurred with ${args.entityPath}: `, args.error);
+		// The broker never redelivers a deferred message, so one that could not be settled is only
+		// retried if its retry marker is left to be delivered again
+		const throwIfDeferredUnsettled = (unsettled: ServiceBusReceivedMessage[]): void => {
+			const deferred = unsettled.filter(isDeferredMessage);
+			if (deferred.length > 0) {
+				throw new Error(`Could not settle deferred messages ${deferred.map((message) => message.messageId).join(', ')}`);
+			}
+		};
 
-			if (sessionMode !== 'none' && sessionReceiverManager) {
-				console.log('🔄 Session error detected, attempting to recreate receivers...');
+		// Emits the items of one or more messages as a single execution, then settles the messages
+		const emitEntries = async (entries: BatchEntry[]): Promise<void> => {
+			const items = entries.map((entry) => entry.item);
+			const emitted = entries.length === 1 ? `Message ${entries[0].message.messageId}` : `Batch of ${entries.length} messages`;
+			const unsettled: ServiceBusReceivedMessage[] = [];
+
+			if (settlement === 'workflowOutcome') {
+				console.log(`⏳ ${emitted} emitted, holding the lock until the execution finishes`);
+				const stopLockRenewal = renewDeferredMessageLocks(entries, maxLockRenewalMs);
+				let executionError: string | undefined;
+				try {
+					executionError = await emitAndWaitForExecution.call(this, items);
+				} finally {
+					stopLockRenewal();
+				}
+				for (const [receiver, messages] of groupByReceiver(entries)) {
+					unsettled.push(...(await settleByOutcome(receiver, messages, executionError, settlementOptions)));
+				}
+				throwIfDeferredUnsettled(unsettled);
+				return;
+			}
 
-				for (const [sessionId, receiver] of sessionReceiverManager.activeReceivers) {
+			this.emit([items]);
+			if (completeAfterEmit) {
+				for (const { message, receiver } of entries) {
 					try {
-						await receiver.close();
-					} catch (closeError) {
-						console.log(`⚠️ Error closing receiver for session ${sessionId}:`, closeError);
+						await receiver.completeMessage(message);
+					} catch (completeError) {
+						console.error(`❌ Could not complete message ${message.messageId}:`, completeError);
+						unsettled.push(message);
 					}
 				}
-				sessionReceiverManager.activeReceivers.clear();
 			}
+			throwIfDeferredUnsettled(unsettled);
+			console.log(`✅ ${emitted} processed and emitted to workflow`);
+		};
+
+		// Batches are collected across receivers, except for sessions that must not be mixed, which collect their own
+		const batchCollector =
+			emitMode === 'batch' && (sessionMode === 'none' || mixSessions)
+				? createBatchCollector({ size: batchSize, windowMs: batchWindowMs, onFlush: emitEntries })
+				: undefined;
+
+		const processMessage = async (message: ServiceBusReceivedMessage, currentReceiver: ServiceBusReceiver | ServiceBusSessionReceiver): Promise<void> => {
+			if (isRetryMarker(message)) {
+				await retryDeferredMessage(message, currentReceiver);
+				return;
+			}
+			const entry = await prepareEntry(message, currentReceiver);
+			if (!entry) {
+				return;
+			}
+			if (batchCollector) {
+				await batchCollector.add([entry]);
+			} else {
+				await emitEntries([entry]);
+			}
+		};
+
+		const processBatch = async (messages: ServiceBusReceivedMessage[], sessionReceiver: ServiceBusSessionReceiver): Promise<void> => {
+			const entries: BatchEntry[] = [];
+			for (const message of messages) {
+				if (isRetryMarker(message)) {
+					await retryDeferredMessage(message, sessionReceiver);
+					continue;
+				}
+				const entry = await prepareEntry(message, sessionReceiver);
+				if (entry) {
+					entries.push(entry);
+				}
+			}
+			if (entries.length === 0) {
+				return;
+			}
+			if (batchCollector) {
+				await batchCollector.add(entries);
+			} else {
+				await emitEntries(entries);
+			}
+		};
+
+		// A due retry marker brings its deferred message back. The marker is only completed once the
+		// message was settled or deferred again: processMessage throws when it could not be, which
+		// leaves the marker to be delivered again.
+		const retryDeferredMessage = async (marker: ServiceBusReceivedMessage, receiver: ServiceBusReceiver | ServiceBusSessionReceiver): Promise<void> => {
+			const deferredMessage = await receiveDeferredMessage(receiver, marker);
+			if (deferredMessage) {
+				console.log(`🔁 Retrying deferred message ${deferredMessage.messageId}`);
+				await processMessage(deferredMessage, receiver);
+			} else {
+				console.log(`⚠️ Deferred message ${marker.applicationProperties?.[DEFERRED_SEQUENCE_NUMBER_PROPERTY]} is no longer available`);
+			}
+			await receiver.completeMessage(marker);
+		};
+
+		const processError = async (args: ProcessErrorArgs): Promise<void> => {
+			console.error(`❌ Error occurred with ${args.entityPath}: `, args.error);
 		};
 
 		console.log(`🔔 Starting message subscription with ${maxConcurrentCalls} max concurrent calls...`);
 
+		let sessionPool: SessionPool | undefined;
+
 		if (sessionMode === 'none') {
 			for (const receiver of receivers) {
 				receiver.subscribe(
@@ -423,50 +1017,24 @@ export class AzureServiceBusTrigger implements INodeType {
 						processError,
 					},
 					{
-						autoCompleteMessages: autoComplete,
-						maxConcurrentCalls,
+						autoCompleteMessages: autoComplete && !completeAfterEmit,
+						// Every message of a batch waits in processMessage until the batch is emitted
+						maxConcurrentCalls: emitMode === 'batch' ? Math.max(maxConcurrentCalls, batchSize) : maxConcurrentCalls,
 					}
 				);
 			}
 		} else {
-			const startSessionHandling = async (): Promise<void> => {
-				while (true) {
-					try {
-						const sessionReceiver = await getOrCreateSessionReceiver();
-
-						sessionReceiver.subscribe(
-							{
-								processMessage: (message) => processMessage(message, sessionReceiver),
-								processError: async (args) => {
-									await processError(args);
-									for (const [sessionId, receiver] of sessionReceiverManager!.activeReceivers) {
-										if (receiver === sessionReceiver) {
-											sessionReceiverManager!.activeReceivers.delete(sessionId);
-											break;
-										}
-									}
-								},
-							},
-							{
-								autoCompleteMessages: autoComplete,
-								maxConcurrentCalls,
-							}
-						);
-
-						if (sessionMode === 'specific') {
-							break;
-						}
-
-						await new Promise(resolve => setTimeout(resolve, 1000));
-					} catch (sessionError) {
-						console.error('❌ Error in session handling:', sessionError);
-						await new Promise(resolve => setTimeout(resolve, 5000));
-					}
-				}
-			};
-
-			startSessionHandling().catch(error => {
-				console.error('❌ Fatal error in session handling:', error);
+			const maxConcurrentSessions = sessionMode === 'specific' ? 1 : (this.getNodeParameter('maxConcurrentSessions', 8) as number);
+			sessionPool = startSessionPool({
+				maxConcurrentSessions: Math.max(maxConcurrentSessions, 1),
+				idleTimeoutMs: (this.getNodeParameter('sessionIdleTimeout', 60) as number) * 1000,
+				acceptSession: acceptSession!,
+				processMessage,
+				// Mixed batches are windowed by the shared collector, so each session hands over what it has right away
+				batch: emitMode === 'batch' ? { size: batchSize, windowMs: mixSessions ? 0 : batchWindowMs, processBatch } : undefined,
+				onMessageError: (message, error) => {
+					console.error(`❌ Error processing message ${message.messageId} in session ${message.sessionId}:`, error);
+				},
 			});
 		}
 
@@ -474,23 +1042,19 @@ export class AzureServiceBusTrigger implements INodeType {
 
 		const closeFunction = async (): Promise<void> => {
 			console.log('🔒 Closing Azure Service Bus trigger...');
+			if (filter.mode !== 'none') {
+				console.log(`🔍 Message filter: ${filterCounts.filtered} of ${filterCounts.received} messages filtered out`);
+			}
+			batchCollector?.close();
+
 			try {
 				for (const receiver of receivers) {
 					await receiver.close();
 				}
 
-				if (sessionReceiverManager) {
-					for (const [sessionId, receiver] of sessionReceiverManager.activeReceivers) {
-						try {
-							console.log(`🔒 Closing session receiver for: ${sessionId}`);
-							await receiver.close();
-						} catch (closeError) {
-							console.log(`⚠️ Error closing session receiver ${sessionId}:`, closeError);
-						}
-					}
-					sessionReceiverManager.activeReceivers.clear();
-				}
-
+				await sessionPool?.close();
+				await settlementOptions.parkingSender?.close();
+				await settlementOptions.retrySender?.close();
 				await serviceBusClient.close();
 				console.log('✅ Azure Service Bus trigger closed successfully');
 			} catch (error) {
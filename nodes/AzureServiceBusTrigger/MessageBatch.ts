@@ -0,0 +1,113 @@
+import { INodeExecutionData } from 'n8n-workflow';
+import { ServiceBusReceivedMessage, ServiceBusReceiver, ServiceBusSessionReceiver } from '@azure/service-bus';
+
+/**
+ * Whether the trigger starts one execution per message, or one per batch of messages.
+ */
+export type EmitMode = 'message' | 'batch';
+
+/**
+ * A received message with the output item built from it and the receiver that has to settle it.
+ */
+export interface BatchEntry {
+	message: ServiceBusReceivedMessage;
+	receiver: ServiceBusReceiver | ServiceBusSessionReceiver;
+	item: INodeExecutionData;
+}
+
+export interface BatchCollectorOptions {
+	/** Maximum number of messages per batch. */
+	size: number;
+	/** How long the first message of a batch waits for the batch to fill up. */
+	windowMs: number;
+	/** Emits and settles one batch. */
+	onFlush: (entries: BatchEntry[]) => Promise<void>;
+}
+
+export interface BatchCollector {
+	/** Adds entries and resolves once the batches they ended up in are emitted and settled. */
+	add(entries: BatchEntry[]): Promise<void>;
+	/** Drops the collected entries without emitting them. Their messages are redelivered once their locks expire. */
+	close(): void;
+}
+
+interface PendingEntry {
+	entry: BatchEntry;
+	resolve: () => void;
+	reject: (error: unknown) => void;
+}
+
+/**
+ * Groups the messages of a batch by the receiver that has to settle them.
+ */
+export function groupByReceiver(
+	entries: BatchEntry[],
+): Map<ServiceBusReceiver | ServiceBusSessionReceiver, ServiceBusReceivedMessage[]> {
+	const groups = new Map<ServiceBusReceiver | ServiceBusSessionReceiver, ServiceBusReceivedMessage[]>();
+	for (const { receiver, message } of entries) {
+		groups.set(receiver, [...(groups.get(receiver) ?? []), message]);
+	}
+	return groups;
+}
+
+/**
+ * Collects entries into batches of up to size entries. A batch is flushed as soon as it is full,
+ * or windowMs after its first entry was added, whichever comes first.
+ */
+export function createBatchCollector(options: BatchCollectorOptions): BatchCollector {
+	let pending: PendingEntry[] = [];
+	let timer: NodeJS.Timeout | undefined;
+
+	const flush = (): void => {
+		if (timer) {
+			clearTimeout(timer);
+			timer = undefined;
+		}
+		const batch = pending.splice(0, options.size);
+		if (batch.length === 0) {
+			return;
+		}
+
+		options
+			.onFlush(batch.map((pendingEntry) => pendingEntry.entry))
+			.then(
+				() => batch.forEach((pendingEntry) => pendingEntry.resolve()),
+				(error) => batch.forEach((pendingEntry) => pendingEntry.reject(error)),
+			);
+
+		if (pending.length >= options.size) {
+			flush();
+		} else if (pending.length > 0) {
+			timer = setTimeout(flush, options.windowMs);
+		}
+	};
+
+	return {
+		add(entries: BatchEntry[]): Promise<void> {
+			const added = entries.map(
+				(entry) =>
+					new Promise<void>((resolve, reject) => {
+						pending.push({ entry, resolve, reject });
+					}),
+			);
+
+			if (pending.length >= options.size) {
+				flush();
+			} else if (!timer) {
+				timer = setTimeout(flush, options.windowMs);
+			}
+			return Promise.all(added).then(() => undefined);
+		},
+		close(): void {
+			if (timer) {
+				clearTimeout(timer);
+				timer = undefined;
+			}
+			if (pending.length > 0) {
+				console.log(`⚠️ ${pending.length} collected messages were not emitted and will be redelivered`);
+			}
+			pending.forEach((pendingEntry) => pendingEntry.resolve());
+			pending = [];
+		},
+	};
+}
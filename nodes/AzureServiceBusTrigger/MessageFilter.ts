@@ -0,0 +1,132 @@
+import { Expression, IDataObject } from 'n8n-workflow';
+
+/**
+ * How received messages are filtered before they are emitted.
+ */
+export type FilterMode = 'none' | 'rules' | 'expression';
+
+/**
+ * What happens to a message that does not match the filter. Abandoning or leaving a message
+ * counts as a delivery, so unless another consumer takes it, it is dead-lettered once the
+ * entity's max delivery count is reached.
+ */
+export type FilterAction = 'complete' | 'abandon' | 'leave';
+
+export type FilterOperation =
+	| 'equals'
+	| 'notEquals'
+	| 'contains'
+	| 'notContains'
+	| 'startsWith'
+	| 'endsWith'
+	| 'regex'
+	| 'greaterThan'
+	| 'lessThan'
+	| 'exists'
+	| 'notExists';
+
+export interface FilterCondition {
+	/** Dot-separated path into the message, e.g. applicationProperties.eventType or body.order.status. */
+	field: string;
+	operation: FilterOperation;
+	value?: string;
+}
+
+export interface MessageFilter {
+	mode: FilterMode;
+	conditions: FilterCondition[];
+	/** Whether all conditions must match, or any of them. */
+	combinator: 'all' | 'any';
+	/** Expression evaluated with the message as $json, e.g. {{ $json.subject === 'invoice' }}. */
+	expression: string;
+}
+
+/**
+ * Returns the value at a dot-separated path, or undefined when any part of it is missing.
+ */
+export function getFieldValue(data: IDataObject, path: string): unknown {
+	let value: unknown = data;
+	for (const key of path.split('.').filter((part) => part !== '')) {
+		if (value === null || typeof value !== 'object') {
+			return undefined;
+		}
+		value = (value as IDataObject)[key];
+	}
+	return value;
+}
+
+function toComparableString(value: unknown): string {
+	return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+}
+
+function matchesCondition(data: IDataObject, condition: FilterCondition): boolean {
+	const actual = getFieldValue(data, condition.field.trim());
+	const expected = condition.value ?? '';
+
+	switch (condition.operation) {
+		case 'exists':
+			return actual !== undefined && actual !== null;
+		case 'notExists':
+			return actual === undefined || actual === null;
+		case 'notEquals':
+			return actual === undefined || toComparableString(actual) !== expected;
+		case 'notContains':
+			return actual === undefined || !toComparableString(actual).includes(expected);
+		case 'greaterThan':
+		case 'lessThan': {
+			const actualNumber = Number(actual);
+			const expectedNumber = Number(expected);
+			if (actual === undefined || actual === null || actual === '' || isNaN(actualNumber) || isNaN(expectedNumber)) {
+				return false;
+			}
+			return condition.operation === 'greaterThan' ? actualNumber > expectedNumber : actualNumber < expectedNumber;
+		}
+	}
+
+	if (actual === undefined || actual === null) {
+		return false;
+	}
+	const text = toComparableString(actual);
+	switch (condition.operation) {
+		case 'equals':
+			return text === expected;
+		case 'contains':
+			return text.includes(expected);
+		case 'startsWith':
+			return text.startsWith(expected);
+		case 'endsWith':
+			return text.endsWith(expected);
+		case 'regex':
+			return new RegExp(expected).test(text);
+	}
+	return false;
+}
+
+/**
+ * Evaluates the filter expression with the message as $json. Only true (or the text "true") matches.
+ */
+function matchesExpression(data: IDataObject, expression: string): boolean {
+	const template = expression.startsWith('=') ? expression.substring(1) : expression;
+	// Typed as a string, but an expression that is a single {{ }} block returns its value as is
+	const result: unknown = Expression.resolveWithoutWorkflow(template, { $json: data });
+	return result === true || (typeof result === 'string' && result.trim() === 'true');
+}
+
+/**
+ * Returns whether a message passes the filter. Throws when the filter cannot be evaluated (e.g. an
+ * invalid regular expression), so the caller can leave the message unsettled instead of dropping it.
+ */
+export function matchesFilter(filter: MessageFilter, data: IDataObject): boolean {
+	if (filter.mode === 'expression') {
+		return matchesExpression(data, filter.expression);
+	}
+	if (filter.mode === 'rules') {
+		if (filter.conditions.length === 0) {
+			return true;
+		}
+		return filter.combinator === 'any'
+			? filter.conditions.some((condition) => matchesCondition(data, condition))
+			: filter.conditions.every((condition) => matchesCondition(data, condition));
+	}
+	return true;
+}
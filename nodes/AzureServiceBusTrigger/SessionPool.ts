@@ -0,0 +1,220 @@
+import { ServiceBusReceivedMessage, ServiceBusSessionReceiver } from '@azure/service-bus';
+
+/**
+ * Delay before accepting again after an unexpected error, so a broken connection is not hammered.
+ */
+const ACCEPT_RETRY_DELAY_MS = 5000;
+
+/**
+ * Messages fetched per receive call. They are still processed one after another, in session order.
+ */
+const SESSION_RECEIVE_BATCH_SIZE = 10;
+
+export interface SessionPoolOptions {
+	/** Sessions processed at the same time. Messages within one session are always processed in order. */
+	maxConcurrentSessions: number;
+	/** How long a session may stay without messages before it is closed and its slot released. */
+	idleTimeoutMs: number;
+	/** Accepts the next session to process, honouring the abort signal when the pool closes. */
+	acceptSession: (abortSignal: AbortSignal) => Promise<ServiceBusSessionReceiver>;
+	/** Processes one message. Settlement is up to the caller. */
+	processMessage: (message: ServiceBusReceivedMessage, receiver: ServiceBusSessionReceiver) => Promise<void>;
+	/** Called when processMessage throws, after which the message and the ones after it are abandoned. */
+	onMessageError?: (message: ServiceBusReceivedMessage, error: unknown) => void;
+	/** Collects up to size messages of a session, for at most windowMs, and hands them to processBatch instead. */
+	batch?: {
+		size: number;
+		windowMs: number;
+		processBatch: (messages: ServiceBusReceivedMessage[], receiver: ServiceBusSessionReceiver) => Promise<void>;
+	};
+}
+
+export interface SessionPool {
+	/** Open session receivers, keyed by session ID. */
+	activeSessions: Map<string, ServiceBusSessionReceiver>;
+	close(): Promise<void>;
+}
+
+function getErrorCode(error: unknown): string | undefined {
+	return (error as { code?: string })?.code;
+}
+
+function delay(ms: number, abortSignal: AbortSignal): Promise<void> {
+	return new Promise((resolve) => {
+		const timer = setTimeout(resolve, ms);
+		abortSignal.addEventListener('abort', () => {
+			clearTimeout(timer);
+			resolve();
+		}, { once: true });
+	});
+}
+
+/**
+ * Starts accepting sessions until maxConcurrentSessions are open, processing each one on its own.
+ * Idle sessions are closed to free their slot, and an error in one session (such as a lost
+ * session lock) closes only that session.
+ */
+export function startSessionPool(options: SessionPoolOptions): SessionPool {
+	const activeSessions = new Map<string, ServiceBusSessionReceiver>();
+	const abortController = new AbortController();
+	let releaseSlot: (() => void) | undefined;
+
+	const waitForFreeSlot = (): Promise<void> =>
+		new Promise((resolve) => {
+			releaseSlot = resolve;
+		});
+
+	const closeSession = async (receiver: ServiceBusSessionReceiver): Promise<void> => {
+		activeSessions.delete(receiver.sessionId);
+		try {
+			await receiver.close();
+		} catch (closeError) {
+			console.log(`⚠️ Error closing session receiver ${receiver.sessionId}:`, closeError);
+		}
+		releaseSlot?.();
+		releaseSlot = undefined;
+	};
+
+	/**
+	 * Waits up to the idle timeout for the first message, then keeps receiving until the batch is
+	 * full or its window has passed.
+	 */
+	const receiveBatch = async (
+		receiver: ServiceBusSessionReceiver,
+		batch: NonNullable<SessionPoolOptions['batch']>,
+	): Promise<ServiceBusReceivedMessage[]> => {
+		const messages = await receiver.receiveMessages(batch.size, {
+			maxWaitTimeInMs: options.idleTimeoutMs,
+			abortSignal: abortController.signal,
+		});
+		const deadline = Date.now() + batch.windowMs;
+
+		while (messages.length > 0 && messages.length < batch.size && !abortController.signal.aborted) {
+			const remaining = deadline - Date.now();
+			if (remaining <= 0) {
+				break;
+			}
+			messages.push(
+				...(await receiver.receiveMessages(batch.size - messages.length, {
+					maxWaitTimeInMs: remaining,
+					abortSignal: abortController.signal,
+				})),
+			);
+		}
+		return messages;
+	};
+
+	const runSession = async (receiver: ServiceBusSessionReceiver): Promise<void> => {
+		const { sessionId } = receiver;
+		const { batch } = options;
+		try {
+			while (!abortController.signal.aborted) {
+				const messages = batch
+					? await receiveBatch(receiver, batch)
+					: await receiver.receiveMessages(SESSION_RECEIVE_BATCH_SIZE, {
+							maxWaitTimeInMs: options.idleTimeoutMs,
+							abortSignal: abortController.signal,
+						});
+				if (messages.length === 0) {
+					console.log(`💤 Session ${sessionId} idle for ${options.idleTimeoutMs / 1000}s, releasing it`);
+					break;
+				}
+
+				if (batch) {
+					try {
+						await batch.processBatch(messages, receiver);
+					} catch (error) {
+						for (const message of messages) {
+							options.onMessageError?.(message, error);
+							await receiver.abandonMessage(message).catch(() => undefined);
+						}
+					}
+					continue;
+				}
+
+				for (let index = 0; index < messages.length; index++) {
+					try {
+						await options.processMessage(messages[index], receiver);
+					} catch (error) {
+						options.onMessageError?.(messages[index], error);
+						// Processing the rest of the chunk would overtake the failed message, so it is
+						// abandoned along with it and the session is received from again
+						for (const message of messages.slice(index)) {
+							await receiver.abandonMessage(message).catch(() => undefined);
+						}
+						break;
+					}
+				}
+			}
+		} catch (error) {
+			if (abortController.signal.aborted) {
+				return;
+			}
+			if (getErrorCode(error) === 'SessionLockLost') {
+				console.log(`🔓 Lost the lock on session ${sessionId}, releasing it`);
+			} else {
+				console.error(`❌ Error in session ${sessionId}, releasing it:`, error);
+			}
+		} finally {
+			if (!abortController.signal.aborted) {
+				await closeSession(receiver);
+			}
+		}
+	};
+
+	const acceptSessions = async (): Promise<void> => {
+		while (!abortController.signal.aborted) {
+			if (activeSessions.size >= options.maxConcurrentSessions) {
+				await waitForFreeSlot();
+				continue;
+			}
+
+			try {
+				const receiver = await options.acceptSession(abortController.signal);
+				if (abortController.signal.aborted) {
+					await receiver.close();
+					return;
+				}
+				activeSessions.set(receiver.sessionId, receiver);
+				console.log(`✅ Accepted session ${receiver.sessionId} (${activeSessions.size}/${options.maxConcurrentSessions} open)`);
+				void runSession(receiver);
+			} catch (error) {
+				if (abortController.signal.aborted) {
+					return;
+				}
+				// Accepting the next session already waits on the broker, so a timeout only means none has messages
+				if (getErrorCode(error) === 'ServiceTimeout') {
+					console.log('⏳ No session available yet, waiting for the next one');
+					continue;
+				}
+				if (getErrorCode(error) === 'SessionCannotBeLocked') {
+					console.log('🔒 Session is locked by another receiver, retrying shortly');
+				} else {
+					console.error('❌ Failed to accept session:', error);
+				}
+				await delay(ACCEPT_RETRY_DELAY_MS, abortController.signal);
+			}
+		}
+	};
+
+	acceptSessions().catch((error) => {
+		console.error('❌ Fatal error in session handling:', error);
+	});
+
+	return {
+		activeSessions,
+		async close(): Promise<void> {
+			abortController.abort();
+			releaseSlot?.();
+			for (const [sessionId, receiver] of activeSessions) {
+				try {
+					console.log(`🔒 Closing session receiver for: ${sessionId}`);
+					await receiver.close();
+				} catch (closeError) {
+					console.log(`⚠️ Error closing session receiver ${sessionId}:`, closeError);
+				}
+			}
+			activeSessions.clear();
+		},
+	};
+}
@@ -0,0 +1,344 @@
+import { INodeExecutionData, IRun, ITriggerFunctions } from 'n8n-workflow';
+import {
+	ServiceBusMessage,
+	ServiceBusReceivedMessage,
+	ServiceBusReceiver,
+	ServiceBusSender,
+	ServiceBusSessionReceiver,
+} from '@azure/service-bus';
+import Long from 'long';
+
+/**
+ * When received messages are settled: as soon as they are emitted (optionally by the SDK's
+ * auto-complete), or once the workflow execution they started has finished.
+ */
+export type SettlementMode = 'onEmit' | 'workflowOutcome';
+
+/**
+ * What happens to a message whose workflow execution failed.
+ */
+export type FailurePolicy = 'abandon' | 'deadLetter';
+
+/**
+ * What happens to a message that failed too many deliveries.
+ */
+export type PoisonAction = 'deadLetter' | 'parkingQueue';
+
+/**
+ * How a failed message comes back: immediately (abandoned), deferred in place, or as a scheduled copy.
+ */
+export type RetryDelayMode = 'none' | 'defer' | 'reschedule';
+
+/**
+ * Application property that carries the failed deliveries of earlier copies, because a
+ * rescheduled copy starts again at delivery count 1.
+ */
+export const FAILED_ATTEMPTS_PROPERTY = 'n8nFailedAttempts';
+
+/**
+ * Application property of a retry marker: a scheduled message that names a deferred message by
+ * sequence number. The broker keeps it across restarts, and with the session ID of the deferred
+ * message it is delivered to whichever receiver holds that session when it is due.
+ */
+export const DEFERRED_SEQUENCE_NUMBER_PROPERTY = 'n8nDeferredSequenceNumber';
+
+/**
+ * How long before a deferred message's lock expires it is renewed.
+ */
+const DEFERRED_LOCK_RENEWAL_MARGIN_MS = 10000;
+
+/**
+ * Failed attempts of deferred messages received through a retry marker. A deferred message cannot
+ * be changed, so its count travels on the marker and is looked up here.
+ */
+const deferredFailedAttempts = new WeakMap<ServiceBusReceivedMessage, number>();
+
+export interface PoisonMessageOptions {
+	/** Failed deliveries after which the message is poison. 0 leaves it to the entity's max delivery count. */
+	maxDeliveryAttempts: number;
+	action: PoisonAction;
+	deadLetterReason: string;
+}
+
+export interface RetryDelayOptions {
+	mode: RetryDelayMode;
+	/** Delay before the first retry, doubled on every further failure. */
+	initialDelayMs: number;
+	maxDelayMs: number;
+}
+
+export interface SettlementOptions {
+	failurePolicy: FailurePolicy;
+	poisonMessage?: PoisonMessageOptions;
+	retryDelay?: RetryDelayOptions;
+	/** Sender for the parking queue poison messages are forwarded to. */
+	parkingSender?: ServiceBusSender;
+	/** Sender for the entity the message came from, used to schedule retry copies and retry markers. */
+	retrySender?: ServiceBusSender;
+}
+
+/**
+ * Returns the error message of a failed execution, or undefined when it succeeded.
+ */
+export function getExecutionError(run: IRun): string | undefined {
+	const error = run.data?.resultData?.error;
+	if (error) {
+		return error.message || 'Workflow execution failed';
+	}
+	if (run.status === 'error' || run.status === 'crashed' || run.status === 'canceled') {
+		return `Workflow execution ended with status ${run.status}`;
+	}
+	return undefined;
+}
+
+/**
+ * Returns how many deliveries of the message have failed, counting the current one and those of
+ * earlier rescheduled copies. The SDK passes on the AMQP delivery count, which is 0 on the first delivery.
+ */
+export function getDeliveryAttempts(message: ServiceBusReceivedMessage): number {
+	const deferredAttempts = deferredFailedAttempts.get(message);
+	if (deferredAttempts !== undefined) {
+		return deferredAttempts + 1;
+	}
+	const previousAttempts = Number(message.applicationProperties?.[FAILED_ATTEMPTS_PROPERTY] ?? 0);
+	return (message.deliveryCount ?? 0) + 1 + (isNaN(previousAttempts) ? 0 : previousAttempts);
+}
+
+/**
+ * Returns the exponential backoff for the given attempt: the initial delay, doubled per attempt, capped at the maximum.
+ */
+export function getRetryDelay(attempt: number, options: RetryDelayOptions): number {
+	return Math.min(options.initialDelayMs * Math.pow(2, Math.max(attempt - 1, 0)), options.maxDelayMs);
+}
+
+/**
+ * Returns whether a message is a retry marker for a deferred message.
+ */
+export function isRetryMarker(message: ServiceBusReceivedMessage): boolean {
+	return message.applicationProperties?.[DEFERRED_SEQUENCE_NUMBER_PROPERTY] !== undefined;
+}
+
+/**
+ * Receives the deferred message a retry marker points to, carrying over its failed attempts.
+ * Returns undefined when it was settled in the meantime.
+ */
+export async function receiveDeferredMessage(
+	receiver: ServiceBusReceiver | ServiceBusSessionReceiver,
+	marker: ServiceBusReceivedMessage,
+): Promise<ServiceBusReceivedMessage | undefined> {
+	const sequenceNumber = Long.fromString(String(marker.applicationProperties![DEFERRED_SEQUENCE_NUMBER_PROPERTY]));
+	const [deferredMessage] = await receiver.receiveDeferredMessages(sequenceNumber);
+	if (deferredMessage) {
+		deferredFailedAttempts.set(deferredMessage, Number(marker.applicationProperties?.[FAILED_ATTEMPTS_PROPERTY] ?? 0));
+	}
+	return deferredMessage;
+}
+
+/**
+ * Returns whether a message was received by sequence number through a retry marker.
+ */
+export function isDeferredMessage(message: ServiceBusReceivedMessage): boolean {
+	return deferredFailedAttempts.has(message);
+}
+
+/**
+ * Renews the locks of deferred messages until the returned function is called, for at most
+ * maxDurationMs. The SDK does not renew messages received by sequence number, and session messages
+ * need no renewal since the session lock covers them.
+ */
+export function renewDeferredMessageLocks(
+	entries: Array<{ message: ServiceBusReceivedMessage; receiver: ServiceBusReceiver | ServiceBusSessionReceiver }>,
+	maxDurationMs: number,
+): () => void {
+	const deadline = Date.now() + maxDurationMs;
+	const timers = new Set<NodeJS.Timeout>();
+	let stopped = false;
+
+	const scheduleRenewal = (receiver: ServiceBusReceiver, message: ServiceBusReceivedMessage, lockedUntil: Date | undefined): void => {
+		const renewAt = (lockedUntil?.getTime() ?? Date.now()) - DEFERRED_LOCK_RENEWAL_MARGIN_MS;
+		const delayMs = Math.max(renewAt - Date.now(), 1000);
+		if (Date.now() + delayMs > deadline) {
+			return;
+		}
+		const timer = setTimeout(async () => {
+			timers.delete(timer);
+			if (stopped) {
+				return;
+			}
+			try {
+				scheduleRenewal(receiver, message, await receiver.renewMessageLock(message));
+			} catch (renewError) {
+				console.error(`❌ Could not renew the lock of deferred message ${message.messageId}:`, renewError);
+			}
+		}, delayMs);
+		timers.add(timer);
+	};
+
+	for (const { message, receiver } of entries) {
+		if (isDeferredMessage(message) && !('sessionId' in receiver)) {
+			scheduleRenewal(receiver, message, message.lockedUntilUtc);
+		}
+	}
+
+	return () => {
+		stopped = true;
+		timers.forEach((timer) => clearTimeout(timer));
+		timers.clear();
+	};
+}
+
+/**
+ * Dead-letter reasons record the execution error, since tools that list dead-lettered messages
+ * often only show the reason.
+ */
+function formatDeadLetterReason(reason: string, executionError: string): string {
+	return `${reason}: ${executionError}`.substring(0, 4096);
+}
+
+/**
+ * Copies a received message so it can be sent again, with extra application properties.
+ */
+function copyMessage(message: ServiceBusReceivedMessage, applicationProperties: Record<string, string | number>): ServiceBusMessage {
+	return {
+		body: message.body,
+		contentType: message.contentType,
+		messageId: message.messageId,
+		correlationId: message.correlationId,
+		subject: message.subject,
+		to: message.to,
+		replyTo: message.replyTo,
+		replyToSessionId: message.replyToSessionId,
+		sessionId: message.sessionId,
+		partitionKey: message.partitionKey,
+		timeToLive: message.timeToLive,
+		applicationProperties: { ...message.applicationProperties, ...applicationProperties },
+	};
+}
+
+/**
+ * Emits the items and waits for the execution they start. The receiver keeps renewing the
+ * message locks while the promise is pending. Returns the error of a failed execution.
+ */
+export async function emitAndWaitForExecution(
+	this: ITriggerFunctions,
+	items: INodeExecutionData[],
+): Promise<string | undefined> {
+	const donePromise = this.helpers.createDeferredPromise<IRun>();
+	this.emit([items], undefined, donePromise);
+
+	try {
+		return getExecutionError(await donePromise.promise);
+	} catch (error) {
+		return error instanceof Error ? error.message : String(error);
+	}
+}
+
+/**
+ * Completes the messages when the execution succeeded, otherwise abandons or dead-letters them
+ * with the execution error. Settlement errors are logged rather than thrown, so the other messages
+ * are still settled, and the messages that could not be settled are returned. The broker redelivers
+ * those once their lock expires, except deferred messages, which the caller has to retry itself.
+ */
+export async function settleByOutcome(
+	receiver: ServiceBusReceiver | ServiceBusSessionReceiver,
+	messages: ServiceBusReceivedMessage[],
+	executionError: string | undefined,
+	options: SettlementOptions,
+): Promise<ServiceBusReceivedMessage[]> {
+	const unsettled: ServiceBusReceivedMessage[] = [];
+	for (const message of messages) {
+		try {
+			if (executionError === undefined) {
+				await receiver.completeMessage(message);
+				console.log(`✅ Completed message ${message.messageId} after successful execution`);
+			} else if (options.failurePolicy === 'deadLetter') {
+				await receiver.deadLetterMessage(message, {
+					deadLetterReason: formatDeadLetterReason('WorkflowExecutionFailed', executionError),
+					deadLetterErrorDescription: executionError.substring(0, 4096),
+				});
+				console.log(`☠️ Dead-lettered message ${message.messageId}: ${executionError}`);
+			} else {
+				await retryOrReject(receiver, message, executionError, options);
+			}
+		} catch (settleError) {
+			console.error(`❌ Could not settle message ${message.messageId}:`, settleError);
+			unsettled.push(message);
+		}
+	}
+	return unsettled;
+}
+
+/**
+ * Handles a failed message under the abandon policy. Poison messages are dead-lettered or parked;
+ * others come back immediately, after a deferral, or as a copy scheduled with exponential backoff.
+ */
+async function retryOrReject(
+	receiver: ServiceBusReceiver | ServiceBusSessionReceiver,
+	message: ServiceBusReceivedMessage,
+	executionError: string,
+	options: SettlementOptions,
+): Promise<void> {
+	const attempts = getDeliveryAttempts(message);
+	const { poisonMessage, retryDelay } = options;
+
+	if (poisonMessage && poisonMessage.maxDeliveryAttempts > 0 && attempts >= poisonMessage.maxDeliveryAttempts) {
+		const description = `Failed ${attempts} deliveries. Last error: ${executionError}`.substring(0, 4096);
+
+		if (poisonMessage.action === 'parkingQueue' && options.parkingSender) {
+			await options.parkingSender.sendMessages(
+				copyMessage(message, {
+					DeadLetterReason: formatDeadLetterReason(poisonMessage.deadLetterReason, executionError),
+					DeadLetterErrorDescription: description,
+					[FAILED_ATTEMPTS_PROPERTY]: attempts,
+				}),
+			);
+			await receiver.completeMessage(message);
+			console.log(`🅿️ Parked poison message ${message.messageId} in ${options.parkingSender.entityPath} after ${attempts} failed deliveries`);
+			return;
+		}
+
+		await receiver.deadLetterMessage(message, {
+			deadLetterReason: formatDeadLetterReason(poisonMessage.deadLetterReason, executionError),
+			deadLetterErrorDescription: description,
+		});
+		console.log(`☠️ Dead-lettered poison message ${message.messageId} after ${attempts} failed deliveries: ${executionError}`);
+		return;
+	}
+
+	if (retryDelay && retryDelay.mode !== 'none') {
+		const delayMs = getRetryDelay(attempts, retryDelay);
+
+		if (retryDelay.mode === 'reschedule' && options.retrySender) {
+			// The copy is scheduled before the original is completed, so a crash in between duplicates rather than loses it
+			await options.retrySender.scheduleMessages(
+				copyMessage(message, { [FAILED_ATTEMPTS_PROPERTY]: attempts }),
+				new Date(Date.now() + delayMs),
+			);
+			await receiver.completeMessage(message);
+			console.log(`⏰ Rescheduled message ${message.messageId} in ${delayMs / 1000}s after ${attempts} failed deliveries: ${executionError}`);
+			return;
+		}
+
+		if (retryDelay.mode === 'defer' && options.retrySender && message.sequenceNumber !== undefined) {
+			// The marker is scheduled before deferring, so a failure in between leaves no deferred message without one
+			await options.retrySender.scheduleMessages(
+				{
+					body: '',
+					subject: 'n8n.deferredRetry',
+					sessionId: message.sessionId,
+					applicationProperties: {
+						[DEFERRED_SEQUENCE_NUMBER_PROPERTY]: message.sequenceNumber.toString(),
+						[FAILED_ATTEMPTS_PROPERTY]: attempts,
+					},
+				},
+				new Date(Date.now() + delayMs),
+			);
+			await receiver.deferMessage(message);
+			console.log(`⏸️ Deferred message ${message.messageId} for ${delayMs / 1000}s after ${attempts} failed deliveries: ${executionError}`);
+			return;
+		}
+	}
+
+	await receiver.abandonMessage(message);
+	console.log(`↩️ Abandoned message ${message.messageId} for redelivery: ${executionError}`);
+}
@@ -3,13 +3,21 @@
  * These tests mock the Azure SDK to test the execute function behavior
  */
 
-import { AzureServiceBus } from '../nodes/AzureServiceBus/AzureServiceBus.node';
-import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { AzureServiceBus, ReplyTimeoutError } from '../nodes/AzureServiceBus/AzureServiceBus.node';
+import { AzureServiceBusTrigger } from '../nodes/AzureServiceBusTrigger/AzureServiceBusTrigger.node';
+import { testConnectionStringCredential } from '../nodes/AzureServiceBus/CredentialTest';
+import { createLockedMessageReference } from '../nodes/AzureServiceBus/ReceivedMessage';
+import type { ICredentialTestFunctions, IDataObject, IExecuteFunctions, INodeExecutionData, IRun, ITriggerFunctions } from 'n8n-workflow';
+import { createDeferredPromise } from 'n8n-workflow';
+import Long from 'long';
 
 // Mock the Azure Service Bus SDK
 jest.mock('@azure/service-bus', () => {
 	const mockSender = {
 		sendMessages: jest.fn().mockResolvedValue(undefined),
+		scheduleMessages: jest.fn().mockResolvedValue([BigInt(101)]),
+		cancelScheduledMessages: jest.fn().mockResolvedValue(undefined),
+		createMessageBatch: jest.fn(),
 		close: jest.fn().mockResolvedValue(undefined),
 	};
 
@@ -22,11 +30,20 @@ jest.mock('@azure/service-bus', () => {
 		deliveryCount: 1,
 		sequenceNumber: BigInt(1),
 		sessionId: undefined,
+		lockToken: 'lock-token-abc',
+		lockedUntilUtc: new Date('2026-02-05T12:01:00Z'),
 	};
 
 	const mockReceiver = {
 		receiveMessages: jest.fn().mockResolvedValue([mockReceivedMessage]),
 		completeMessage: jest.fn().mockResolvedValue(undefined),
+		abandonMessage: jest.fn().mockResolvedValue(undefined),
+		deferMessage: jest.fn().mockResolvedValue(undefined),
+		deadLetterMessage: jest.fn().mockResolvedValue(undefined),
+		renewMessageLock: jest.fn().mockResolvedValue(new Date('2026-02-05T12:05:00Z')),
+		peekMessages: jest.fn().mockResolvedValue([mockReceivedMessage]),
+		receiveDeferredMessages: jest.fn().mockResolvedValue([mockReceivedMessage]),
+		subscribe: jest.fn().mockReturnValue({ close: jest.fn().mockResolvedValue(undefined) }),
 		close: jest.fn().mockResolvedValue(undefined),
 	};
 
@@ -37,7 +54,62 @@ jest.mock('@azure/service-bus', () => {
 		setSessionState: jest.fn().mockResolvedValue(undefined),
 	};
 
+	const mockQueueProperties = {
+		name: 'tenant-queue',
+		lockDuration: 'PT1M',
+		maxDeliveryCount: 10,
+		requiresSession: false,
+	};
+
+	const mockAdminClient = {
+		createQueue: jest.fn().mockResolvedValue({ ...mockQueueProperties, _response: { status: 201 } }),
+		getQueue: jest.fn().mockResolvedValue({ ...mockQueueProperties, _response: { status: 200 } }),
+		updateQueue: jest.fn().mockImplementation(async (queue: object) => queue),
+		deleteQueue: jest.fn().mockResolvedValue({}),
+		queueExists: jest.fn().mockResolvedValue(true),
+		listQueues: jest.fn().mockImplementation(async function* () {
+			yield { ...mockQueueProperties, name: 'queue-1' };
+			yield { ...mockQueueProperties, name: 'queue-2' };
+			yield { ...mockQueueProperties, name: 'queue-3' };
+		}),
+		createTopic: jest.fn().mockImplementation(async (name: string, options: object) => ({ name, ...options, _response: {} })),
+		createSubscription: jest.fn().mockImplementation(async (topicName: string, subscriptionName: string, options: object) => ({
+			topicName,
+			subscriptionName,
+			...options,
+			_response: {},
+		})),
+		createRule: jest.fn().mockImplementation(async (topicName: string, subscriptionName: string, name: string, filter: object, action: object) => ({
+			name,
+			filter,
+			action,
+			_response: {},
+		})),
+		getRule: jest.fn().mockResolvedValue({ name: 'high-priority', filter: { sqlExpression: '1=1' }, action: {}, _response: {} }),
+		updateRule: jest.fn().mockImplementation(async (topicName: string, subscriptionName: string, rule: object) => rule),
+		deleteRule: jest.fn().mockResolvedValue({}),
+		deleteSubscription: jest.fn().mockResolvedValue({}),
+		getQueueRuntimeProperties: jest.fn().mockResolvedValue({
+			name: 'tenant-queue',
+			activeMessageCount: 12,
+			deadLetterMessageCount: 3,
+			scheduledMessageCount: 1,
+			transferMessageCount: 0,
+			sizeInBytes: 2048,
+			_response: { status: 200 },
+		}),
+		listQueuesRuntimeProperties: jest.fn().mockImplementation(async function* () {
+			yield { name: 'queue-1', activeMessageCount: 1, deadLetterMessageCount: 0 };
+			yield { name: 'queue-2', activeMessageCount: 5, deadLetterMessageCount: 2 };
+		}),
+		listSubscriptions: jest.fn().mockImplementation(async function* () {
+			yield { topicName: 'orders', subscriptionName: 'sub-1' };
+			yield { topicName: 'orders', subscriptionName: 'sub-2' };
+		}),
+	};
+
 	return {
+		ServiceBusAdministrationClient: jest.fn().mockImplementation(() => mockAdminClient),
 		ServiceBusClient: jest.fn().mockImplementation(() => ({
 			createSender: jest.fn().mockReturnValue(mockSender),
 			createReceiver: jest.fn().mockReturnValue(mockReceiver),
@@ -49,9 +121,20 @@ jest.mock('@azure/service-bus', () => {
 		__mockReceiver: mockReceiver,
 		__mockSessionReceiver: mockSessionReceiver,
 		__mockReceivedMessage: mockReceivedMessage,
+		__mockAdminClient: mockAdminClient,
 	};
 });
 
+// Mock Microsoft Entra ID credentials
+jest.mock('@azure/identity', () => ({
+	ClientSecretCredential: jest.fn().mockImplementation(() => ({
+		getToken: jest.fn().mockResolvedValue({ token: 'entra-token', expiresOnTimestamp: Date.now() + 3600000 }),
+	})),
+	ClientCertificateCredential: jest.fn(),
+	ManagedIdentityCredential: jest.fn(),
+	WorkloadIdentityCredential: jest.fn(),
+}));
+
 // Mock node-fetch
 jest.mock('node-fetch', () => jest.fn());
 
@@ -61,7 +144,7 @@ jest.mock('ws', () => jest.fn());
 describe('AzureServiceBus Integration Tests', () => {
 	let node: AzureServiceBus;
 	let mockExecuteFunctions: jest.Mocked<IExecuteFunctions>;
-	const { ServiceBusClient, __mockSender, __mockReceiver } = jest.requireMock('@azure/service-bus');
+	const { ServiceBusClient, __mockSender, __mockReceiver, __mockReceivedMessage } = jest.requireMock('@azure/service-bus');
 
 	const createMockExecuteFunctions = (params: Record<string, unknown> = {}): jest.Mocked<IExecuteFunctions> => {
 		const defaultParams: Record<string, unknown> = {
@@ -149,6 +232,105 @@ describe('AzureServiceBus Integration Tests', () => {
 			);
 		});
 
+		it('should convert typed custom properties and keep empty strings', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				messageProperties: {
+					property: [
+						{ key: 'Priority', type: 'number', value: '7' },
+						{ key: 'IsUrgent', type: 'boolean', value: 'TRUE' },
+						{ key: 'DueAt', type: 'dateTime', value: '2030-01-01T10:00:00Z' },
+						{ key: 'Owner', type: 'null', value: '' },
+						{ key: 'Note', type: 'string', value: '' },
+					],
+				},
+			});
+
+			await node.execute.call(mockExecuteFunctions);
+
+			expect(__mockSender.sendMessages).toHaveBeenCalledWith(
+				expect.objectContaining({
+					applicationProperties: {
+						Priority: 7,
+						IsUrgent: true,
+						DueAt: new Date('2030-01-01T10:00:00Z'),
+						Owner: null,
+						Note: '',
+					},
+				})
+			);
+		});
+
+		it('should fail the item whose custom property cannot be converted', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				messageProperties: {
+					property: [{ key: 'Priority', type: 'number', value: 'high' }],
+				},
+			});
+
+			await expect(node.execute.call(mockExecuteFunctions)).rejects.toThrow("Application property 'Priority' is not a valid number: 'high'");
+		});
+
+		it('should keep native types of custom properties given as JSON', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				messagePropertiesMode: 'json',
+				messagePropertiesJson: '{"Priority": 7, "IsUrgent": true, "Region": "eu", "Owner": null}',
+			});
+
+			await node.execute.call(mockExecuteFunctions);
+
+			expect(__mockSender.sendMessages).toHaveBeenCalledWith(
+				expect.objectContaining({
+					applicationProperties: { Priority: 7, IsUrgent: true, Region: 'eu', Owner: null },
+				})
+			);
+		});
+
+		it('should reject nested objects in JSON custom properties', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				messagePropertiesMode: 'json',
+				messagePropertiesJson: { Customer: { id: 1 } },
+			});
+
+			await expect(node.execute.call(mockExecuteFunctions)).rejects.toThrow("Application property 'Customer' must be a string, number, boolean or null");
+		});
+
+		it('should send system properties with time to live in milliseconds', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				systemProperties: {
+					correlationId: 'order-42',
+					subject: 'order.created',
+					to: 'fulfilment',
+					replyTo: 'replies',
+					replyToSessionId: 'reply-session',
+					timeToLive: 300,
+					scheduledEnqueueTimeUtc: '2030-01-01T10:00:00Z',
+				},
+			});
+
+			await node.execute.call(mockExecuteFunctions);
+
+			expect(__mockSender.sendMessages).toHaveBeenCalledWith(
+				expect.objectContaining({
+					correlationId: 'order-42',
+					subject: 'order.created',
+					to: 'fulfilment',
+					replyTo: 'replies',
+					replyToSessionId: 'reply-session',
+					timeToLive: 300000,
+					scheduledEnqueueTimeUtc: new Date('2030-01-01T10:00:00Z'),
+				})
+			);
+		});
+
+		it('should reject a partition key that differs from the session ID', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				sessionId: 'session-1',
+				systemProperties: { partitionKey: 'other' },
+			});
+
+			await expect(node.execute.call(mockExecuteFunctions)).rejects.toThrow('Partition Key must match Session ID');
+		});
+
 		it('should handle multiple input items', async () => {
 			mockExecuteFunctions = createMockExecuteFunctions();
 			mockExecuteFunctions.getInputData.mockReturnValue([
@@ -163,6 +345,27 @@ describe('AzureServiceBus Integration Tests', () => {
 			expect(__mockSender.sendMessages).toHaveBeenCalledTimes(3);
 		});
 
+		it('should send a binary property as the raw body with its MIME type', async () => {
+			const pdf = Buffer.from('%PDF-1.7');
+			mockExecuteFunctions = createMockExecuteFunctions({
+				bodySource: 'binary',
+				binaryPropertyName: 'document',
+				contentType: '',
+			});
+			const helpers = {
+				assertBinaryData: jest.fn().mockReturnValue({ mimeType: 'application/pdf' }),
+				getBinaryDataBuffer: jest.fn().mockResolvedValue(pdf),
+			};
+			(mockExecuteFunctions as unknown as { helpers: object }).helpers = helpers;
+
+			await node.execute.call(mockExecuteFunctions);
+
+			expect(helpers.getBinaryDataBuffer).toHaveBeenCalledWith(0, 'document');
+			expect(__mockSender.sendMessages).toHaveBeenCalledWith(
+				expect.objectContaining({ body: pdf, contentType: 'application/pdf' })
+			);
+		});
+
 		it('should throw error for empty message body', async () => {
 			mockExecuteFunctions = createMockExecuteFunctions({
 				messageBody: '',
@@ -172,6 +375,154 @@ describe('AzureServiceBus Integration Tests', () => {
 		});
 	});
 
+	describe('Batch Send Mode', () => {
+		// Fake batch holding at most two messages, rejecting bodies marked as oversized
+		const createFakeBatch = () => {
+			const messages: Array<{ body: unknown }> = [];
+			return {
+				maxSizeInBytes: 1024,
+				sizeInBytes: 0,
+				get count() {
+					return messages.length;
+				},
+				messages,
+				tryAddMessage: jest.fn((message: { body: unknown }) => {
+					if (message.body === 'oversized' || messages.length >= 2) {
+						return false;
+					}
+					messages.push(message);
+					return true;
+				}),
+			};
+		};
+
+		beforeEach(() => {
+			__mockSender.createMessageBatch.mockImplementation(async () => createFakeBatch());
+		});
+
+		// One input item per body, each resolving its own messageBody parameter
+		const useItemBodies = (executeFunctions: jest.Mocked<IExecuteFunctions>, bodies: string[]) => {
+			const getParameter = executeFunctions.getNodeParameter.getMockImplementation()!;
+			executeFunctions.getInputData.mockReturnValue(bodies.map(() => ({ json: {} })));
+			executeFunctions.getNodeParameter.mockImplementation(((name: string, index: number, fallback?: unknown) =>
+				name === 'messageBody' ? bodies[index] : getParameter(name, index, fallback)) as typeof getParameter);
+		};
+
+		it('should pack items into batches and report batch numbers per item', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({ sendMode: 'batch' });
+			useItemBodies(mockExecuteFunctions, ['one', 'two', 'three']);
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(__mockSender.sendMessages).toHaveBeenCalledTimes(2);
+			expect(result[0].map(item => item.json.batchNumber)).toEqual([1, 1, 2]);
+			expect(result[0].every(item => item.json.success === true)).toBe(true);
+			expect(__mockSender.close).toHaveBeenCalledTimes(1);
+		});
+
+		it('should report items too large for any batch without failing the others', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'topic',
+				topicName: 'test-topic',
+				sendMode: 'batch',
+			});
+			useItemBodies(mockExecuteFunctions, ['one', 'oversized', 'three']);
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(result[0]).toHaveLength(3);
+			expect(result[0][0].json).toMatchObject({ success: true, topicName: 'test-topic', batchNumber: 1 });
+			expect(result[0][1].json).toMatchObject({ success: false });
+			expect(result[0][1].json.error).toContain('too large');
+			expect(result[0][2].json).toMatchObject({ success: true, batchNumber: 2 });
+		});
+
+		it('should keep messages for different sessions in separate batches', async () => {
+			const sessions = ['a', 'b', 'a'];
+			mockExecuteFunctions = createMockExecuteFunctions({ sendMode: 'batch' });
+			useItemBodies(mockExecuteFunctions, ['one', 'two', 'three']);
+			const getParameter = mockExecuteFunctions.getNodeParameter.getMockImplementation()!;
+			mockExecuteFunctions.getNodeParameter.mockImplementation(((name: string, index: number, fallback?: unknown) =>
+				name === 'sessionId' ? sessions[index] : getParameter(name, index, fallback)) as typeof getParameter);
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			const sentBatches = (__mockSender.sendMessages.mock.calls as Array<[{ messages: Array<{ sessionId: string }> }]>)
+				.map(([batch]) => batch.messages.map(message => message.sessionId));
+			expect(sentBatches).toEqual([['a', 'a'], ['b']]);
+			expect(result[0].map(item => item.json.batchNumber)).toEqual([1, 2, 1]);
+		});
+	});
+
+	describe('Scheduled Message Operations', () => {
+		it('should schedule a message and output its sequence numbers', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				operation: 'scheduleMessage',
+				scheduledEnqueueTime: '2026-03-01T09:00:00.000Z',
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(__mockSender.scheduleMessages).toHaveBeenCalledWith(
+				expect.objectContaining({ body: '{"test": "data"}' }),
+				new Date('2026-03-01T09:00:00.000Z')
+			);
+			expect(result[0][0].json).toMatchObject({
+				success: true,
+				queueName: 'test-queue',
+				scheduledEnqueueTime: '2026-03-01T09:00:00.000Z',
+				sequenceNumbers: ['101'],
+			});
+			expect(__mockSender.close).toHaveBeenCalledTimes(1);
+		});
+
+		it('should accept a Date returned by an expression on topics', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'topic',
+				operation: 'scheduleMessage',
+				topicName: 'test-topic',
+				scheduledEnqueueTime: new Date('2026-03-01T09:00:00.000Z'),
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(result[0][0].json).toMatchObject({ topicName: 'test-topic', sequenceNumbers: ['101'] });
+		});
+
+		it('should throw error for an invalid scheduled enqueue time', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				operation: 'scheduleMessage',
+				scheduledEnqueueTime: 'not a date',
+			});
+
+			await expect(node.execute.call(mockExecuteFunctions)).rejects.toThrow('Invalid Scheduled Enqueue Time');
+		});
+
+		it('should cancel scheduled messages by sequence number', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				operation: 'cancelScheduledMessages',
+				sequenceNumbers: '101, 102',
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			const cancelled = __mockSender.cancelScheduledMessages.mock.calls[0][0];
+			expect(cancelled.map(String)).toEqual(['101', '102']);
+			expect(result[0][0].json.cancelledSequenceNumbers).toEqual(['101', '102']);
+		});
+
+		it('should accept an array of sequence numbers', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				operation: 'cancelScheduledMessages',
+				sequenceNumbers: ['101'],
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(result[0][0].json.cancelledSequenceNumbers).toEqual(['101']);
+		});
+	});
+
 	describe('Receive Messages Operation', () => {
 		it('should receive messages from a queue', async () => {
 			mockExecuteFunctions = createMockExecuteFunctions({
@@ -196,115 +547,1923 @@ describe('AzureServiceBus Integration Tests', () => {
 			});
 			expect(__mockReceiver.completeMessage).toHaveBeenCalledTimes(1);
 		});
-	});
 
-	describe('Topic Operations', () => {
-		it('should send a message to a topic', async () => {
+		it('should keep JSON-looking text when the body output is text', async () => {
+			__mockReceiver.receiveMessages.mockResolvedValueOnce([
+				{ ...__mockReceivedMessage, body: Buffer.from('{"testData": "hello world"}') },
+			]);
 			mockExecuteFunctions = createMockExecuteFunctions({
-				resource: 'topic',
-				operation: 'sendMessage',
-				topicName: 'test-topic',
+				operation: 'receiveMessages',
+				bodyOutput: 'text',
 			});
 
 			const result = await node.execute.call(mockExecuteFunctions);
 
-			expect(result[0][0].json).toMatchObject({
-				success: true,
-				topicName: 'test-topic',
-			});
+			expect(result[0][0].json.body).toBe('{"testData": "hello world"}');
 		});
-	});
 
-	describe('Error Handling', () => {
-		it('should throw error when connection string is missing', async () => {
-			mockExecuteFunctions = createMockExecuteFunctions();
-			mockExecuteFunctions.getCredentials.mockResolvedValue({
-				connectionString: '',
-			});
+		it.each([
+			['a JSON array with a BOM by content type', '\uFEFF [1, 2]', 'application/json', [1, 2], 'json'],
+			['a JSON number without content type', '42', undefined, '42', 'text'],
+			['text that starts with a brace', '{not json}', 'text/plain', '{not json}', 'text'],
+			['XML by content type', '<order id="7"><total>9.5</total></order>', 'application/xml', { order: { '@_id': '7', total: 9.5 } }, 'xml'],
+			['other content types as Base64', '\u0001\u0002', 'application/octet-stream', 'AQI=', 'base64'],
+		])('should decode %s in auto mode', async (_case, body, contentType, expectedBody, expectedDecoder) => {
+			__mockReceiver.receiveMessages.mockResolvedValueOnce([
+				{ ...__mockReceivedMessage, body: Buffer.from(body as string), contentType },
+			]);
+			mockExecuteFunctions = createMockExecuteFunctions({ operation: 'receiveMessages' });
 
-			await expect(node.execute.call(mockExecuteFunctions)).rejects.toThrow('connection string is required');
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(result[0][0].json.body).toEqual(expectedBody);
+			expect(result[0][0].json.bodyDecoder).toBe(expectedDecoder);
+		});
+
+		it('should output bytes that are not valid UTF-8 as Base64 when there is no content type', async () => {
+			__mockReceiver.receiveMessages.mockResolvedValueOnce([
+				{ ...__mockReceivedMessage, body: Buffer.from([0x89, 0x50, 0x4e, 0x47, 0xff]), contentType: undefined },
+			]);
+			mockExecuteFunctions = createMockExecuteFunctions({ operation: 'receiveMessages' });
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(result[0][0].json).toMatchObject({ body: 'iVBOR/8=', bodyDecoder: 'base64' });
 		});
 
-		it('should throw error for HTTP protocol on receive', async () => {
+		it('should keep the raw body and report the error when forced JSON decoding fails', async () => {
+			__mockReceiver.receiveMessages.mockResolvedValueOnce([
+				{ ...__mockReceivedMessage, body: Buffer.from('order=7') },
+			]);
 			mockExecuteFunctions = createMockExecuteFunctions({
 				operation: 'receiveMessages',
-				protocol: 'http',
+				bodyOutput: 'json',
 			});
 
-			await expect(node.execute.call(mockExecuteFunctions)).rejects.toThrow('only supported with Azure SDK protocol');
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(result[0][0].json).toMatchObject({ body: 'order=7', bodyDecoder: 'json' });
+			expect(result[0][0].json.bodyDecodeError).toEqual(expect.any(String));
 		});
-	});
-});
 
-describe('AzureServiceBus HTTP Protocol Tests', () => {
-	let node: AzureServiceBus;
-	let mockExecuteFunctions: jest.Mocked<IExecuteFunctions>;
-	const mockFetch = jest.requireMock('node-fetch') as jest.Mock;
+		it('should report invalid XML without failing the receive', async () => {
+			__mockReceiver.receiveMessages.mockResolvedValueOnce([
+				{ ...__mockReceivedMessage, body: Buffer.from('<order><total>'), contentType: 'text/xml' },
+			]);
+			mockExecuteFunctions = createMockExecuteFunctions({ operation: 'receiveMessages' });
 
-	beforeEach(() => {
-		node = new AzureServiceBus();
-		jest.clearAllMocks();
-		
-		// Setup successful HTTP response
-		mockFetch.mockResolvedValue({
-			ok: true,
-			status: 201,
-			statusText: 'Created',
-			text: jest.fn().mockResolvedValue(''),
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(result[0][0].json).toMatchObject({ body: '<order><total>', bodyDecoder: 'xml' });
+			expect(result[0][0].json.bodyDecodeError).toEqual(expect.any(String));
 		});
-	});
 
-	const createMockExecuteFunctions = (params: Record<string, unknown> = {}): jest.Mocked<IExecuteFunctions> => {
-		const defaultParams: Record<string, unknown> = {
-			resource: 'queue',
-			operation: 'sendMessage',
-			protocol: 'http',
-			queueName: 'test-queue',
-			messageBody: '{"test": "data"}',
-			contentType: 'application/json',
-			messageId: 'msg-123',
-			sessionId: '',
-			messageProperties: {},
-			...params,
-		};
+		it('should output all system properties when asked to', async () => {
+			__mockReceiver.receiveMessages.mockResolvedValueOnce([
+				{
+					...__mockReceivedMessage,
+					correlationId: 'order-42',
+					subject: 'order.created',
+					replyTo: 'replies',
+					timeToLive: 60000,
+					expiresAtUtc: new Date('2026-02-05T12:01:00Z'),
+					enqueuedSequenceNumber: 7,
+					state: 'active',
+				},
+			]);
+			mockExecuteFunctions = createMockExecuteFunctions({
+				operation: 'receiveMessages',
+				messageMetadata: 'all',
+			});
 
-		return {
-			getInputData: jest.fn().mockReturnValue([{ json: {} }]),
-			getNodeParameter: jest.fn().mockImplementation((name: string, _index: number, fallback?: unknown) => {
-				return defaultParams[name] ?? fallback;
-			}),
-			getCredentials: jest.fn().mockResolvedValue({
-				connectionString: 'Endpoint=sb://test.servicebus.windows.net/;SharedAccessKeyName=RootManageSharedAccessKey;SharedAccessKey=dGVzdGtleTEyMw==',
-			}),
-			getNode: jest.fn().mockReturnValue({ name: 'Azure Service Bus' }),
-		} as unknown as jest.Mocked<IExecuteFunctions>;
-	};
+			const result = await node.execute.call(mockExecuteFunctions);
 
-	it('should send message via HTTP REST API', async () => {
-		mockExecuteFunctions = createMockExecuteFunctions();
+			expect(result[0][0].json).toMatchObject({
+				correlationId: 'order-42',
+				subject: 'order.created',
+				replyTo: 'replies',
+				timeToLive: 60000,
+				expiresAtUtc: new Date('2026-02-05T12:01:00Z'),
+				lockedUntilUtc: new Date('2026-02-05T12:01:00Z'),
+				lockToken: 'lock-token-abc',
+				enqueuedSequenceNumber: 7,
+				state: 'active',
+			});
+			expect(result[0][0].json).not.toHaveProperty('rawAmqpMessage');
+		});
 
-		const result = await node.execute.call(mockExecuteFunctions);
+		it('should output the annotated AMQP message with JSON-safe values', async () => {
+			__mockReceiver.receiveMessages.mockResolvedValueOnce([
+				{
+					...__mockReceivedMessage,
+					_rawAmqpMessage: {
+						body: { testData: 'hello world' },
+						bodyType: 'value',
+						header: { deliveryCount: 1, durable: true },
+						properties: { messageId: 'test-message-id-123', userId: Buffer.from('java') },
+						messageAnnotations: { 'x-opt-sequence-number': Long.fromNumber(1), 'x-opt-enqueued-time': new Date('2026-02-05T12:00:00Z') },
+						deliveryAnnotations: { 'x-opt-lock-token': 'lock-token-abc' },
+						footer: { checksum: 'abc' },
+					},
+				},
+			]);
+			mockExecuteFunctions = createMockExecuteFunctions({
+				operation: 'receiveMessages',
+				messageMetadata: 'rawAmqp',
+			});
 
-		expect(result[0][0].json.success).toBe(true);
-		expect(mockFetch).toHaveBeenCalledWith(
-			expect.stringContaining('https://test.servicebus.windows.net/test-queue/messages'),
-			expect.objectContaining({
-				method: 'POST',
-				body: '{"test": "data"}',
-			})
-		);
-	});
+			const result = await node.execute.call(mockExecuteFunctions);
 
-	it('should include session ID in broker properties for HTTP', async () => {
-		mockExecuteFunctions = createMockExecuteFunctions({
-			sessionId: 'http-session-456',
+			expect(result[0][0].json.rawAmqpMessage).toEqual({
+				bodyType: 'value',
+				header: { deliveryCount: 1, durable: true },
+				properties: { messageId: 'test-message-id-123', userId: 'amF2YQ==' },
+				messageAnnotations: { 'x-opt-sequence-number': '1', 'x-opt-enqueued-time': '2026-02-05T12:00:00.000Z' },
+				deliveryAnnotations: { 'x-opt-lock-token': 'lock-token-abc' },
+				footer: { checksum: 'abc' },
+			});
 		});
 
-		await node.execute.call(mockExecuteFunctions);
+		it('should output the raw body as a binary property with the message content type', async () => {
+			const payload = Buffer.from([0x08, 0x96, 0x01]);
+			__mockReceiver.receiveMessages.mockResolvedValueOnce([
+				{ ...__mockReceivedMessage, body: payload, contentType: 'application/x-protobuf' },
+			]);
+			mockExecuteFunctions = createMockExecuteFunctions({
+				operation: 'receiveMessages',
+				bodyOutput: 'binary',
+				binaryPropertyName: 'payload',
+			});
+			const prepareBinaryData = jest.fn().mockResolvedValue({ data: 'CJYB', mimeType: 'application/x-protobuf' });
+			(mockExecuteFunctions as unknown as { helpers: object }).helpers = { prepareBinaryData };
 
-		expect(mockFetch).toHaveBeenCalledWith(
-			expect.any(String),
-			expect.objectContaining({
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(prepareBinaryData).toHaveBeenCalledWith(payload, 'test-message-id-123', 'application/x-protobuf');
+			expect(result[0][0].binary).toEqual({ payload: { data: 'CJYB', mimeType: 'application/x-protobuf' } });
+			expect(result[0][0].json).not.toHaveProperty('body');
+			expect(result[0][0].json.messageId).toBe('test-message-id-123');
+		});
+	});
+
+	describe('Send and Wait for Reply Operation', () => {
+		const replyMessage = {
+			...__mockReceivedMessage,
+			messageId: 'reply-1',
+			body: Buffer.from('{"status": "accepted"}'),
+		};
+
+		it('should send with a generated reply session and output the reply from that session', async () => {
+			const { ServiceBusClient } = jest.requireMock('@azure/service-bus');
+			__mockReceiver.receiveMessages.mockResolvedValueOnce([replyMessage]);
+			mockExecuteFunctions = createMockExecuteFunctions({
+				operation: 'sendAndWaitForReply',
+				replyQueueName: 'replies',
+				replyCorrelation: 'session',
+				replyTimeout: 10,
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			const request = __mockSender.sendMessages.mock.calls[0][0];
+			expect(request.replyTo).toBe('replies');
+			expect(request.replyToSessionId).toMatch(/^[0-9a-f-]{36}$/);
+			const client = ServiceBusClient.mock.results[0].value;
+			expect(client.acceptSession).toHaveBeenCalledWith('replies', request.replyToSessionId);
+			expect(__mockReceiver.completeMessage).toHaveBeenCalledWith(replyMessage);
+			expect(result[0][0].json).toMatchObject({
+				messageId: 'reply-1',
+				body: { status: 'accepted' },
+				request: { replyTo: 'replies', replyToSessionId: request.replyToSessionId, queueName: 'test-queue' },
+			});
+			expect(result[0][0].json.roundTripMs).toEqual(expect.any(Number));
+		});
+
+		it('should match the reply by correlation ID through a temporary filtered subscription', async () => {
+			const { ServiceBusClient, __mockAdminClient } = jest.requireMock('@azure/service-bus');
+			const ownReply = { ...replyMessage, correlationId: 'req-1' };
+			__mockReceiver.receiveMessages.mockResolvedValueOnce([ownReply]);
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'topic',
+				topicName: 'test-topic',
+				operation: 'sendAndWaitForReply',
+				messageId: 'req-1',
+				replyTopicName: 'replies',
+				replyCorrelation: 'correlationId',
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			const [topicName, subscriptionName, options] = __mockAdminClient.createSubscription.mock.calls[0];
+			expect(topicName).toBe('replies');
+			expect(subscriptionName).toMatch(/^n8n-reply-[0-9a-f-]{36}$/);
+			expect(options).toEqual({ autoDeleteOnIdle: 'PT5M', defaultRuleOptions: { name: 'reply', filter: { correlationId: 'req-1' } } });
+			expect(__mockAdminClient.createSubscription.mock.invocationCallOrder[0]).toBeLessThan(
+				__mockSender.sendMessages.mock.invocationCallOrder[0],
+			);
+			expect(__mockSender.sendMessages).toHaveBeenCalledWith(
+				expect.objectContaining({ messageId: 'req-1', correlationId: 'req-1', replyTo: 'replies' })
+			);
+			expect(ServiceBusClient.mock.results[0].value.createReceiver).toHaveBeenCalledWith('replies', subscriptionName);
+			expect(__mockReceiver.abandonMessage).not.toHaveBeenCalled();
+			expect(__mockReceiver.completeMessage).toHaveBeenCalledWith(ownReply);
+			expect(__mockAdminClient.deleteSubscription).toHaveBeenCalledWith('replies', subscriptionName);
+			expect(result[0][0].json).toMatchObject({ messageId: 'reply-1', request: { messageId: 'req-1', topicName: 'test-topic' } });
+		});
+
+		it('should delete the temporary reply subscription after a reply timeout', async () => {
+			const { __mockAdminClient } = jest.requireMock('@azure/service-bus');
+			__mockReceiver.receiveMessages.mockResolvedValueOnce([]);
+			mockExecuteFunctions = createMockExecuteFunctions({
+				operation: 'sendAndWaitForReply',
+				messageId: 'req-2',
+				replyTopicName: 'replies',
+				replyCorrelation: 'correlationId',
+				replyTimeout: 1,
+			});
+
+			await expect(node.execute.call(mockExecuteFunctions)).rejects.toThrow("for correlation ID 'req-2'");
+			expect(__mockAdminClient.deleteSubscription).toHaveBeenCalledWith('replies', expect.stringMatching(/^n8n-reply-/));
+		});
+
+		it('should report a reply timeout as its own error', async () => {
+			__mockReceiver.receiveMessages.mockResolvedValueOnce([]);
+			mockExecuteFunctions = createMockExecuteFunctions({
+				operation: 'sendAndWaitForReply',
+				replyQueueName: 'replies',
+				replyTimeout: 1,
+			});
+
+			const error = await node.execute.call(mockExecuteFunctions).catch((thrown: unknown) => thrown);
+
+			expect(error).toBeInstanceOf(ReplyTimeoutError);
+			expect((error as Error).message).toMatch(/^Reply timeout: no reply on 'replies' within 1s for session '[0-9a-f-]{36}'$/);
+		});
+	});
+
+	describe('Dead-Letter Queue Operations', () => {
+		const deadLetteredMessage = {
+			messageId: 'dead-message-1',
+			body: { orderId: 42 },
+			contentType: 'application/json',
+			enqueuedTimeUtc: new Date('2026-02-05T12:00:00Z'),
+			applicationProperties: {
+				tenant: 'acme',
+				DeadLetterReason: 'MaxDeliveryCountExceeded',
+				DeadLetterErrorDescription: 'Message could not be consumed after 10 delivery attempts.',
+			},
+			deliveryCount: 10,
+			sequenceNumber: BigInt(7),
+			sessionId: 'session-1',
+			subject: 'order-created',
+			deadLetterReason: 'MaxDeliveryCountExceeded',
+			deadLetterErrorDescription: 'Message could not be consumed after 10 delivery attempts.',
+		};
+
+		it('should receive from the dead-letter sub-queue', async () => {
+			__mockReceiver.receiveMessages.mockResolvedValueOnce([deadLetteredMessage]);
+			mockExecuteFunctions = createMockExecuteFunctions({
+				operation: 'receiveMessages',
+				subQueue: 'deadLetter',
+				sessionMode: 'specific',
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			const client = ServiceBusClient.mock.results[0].value;
+			expect(client.createReceiver).toHaveBeenCalledWith('test-queue', {
+				receiveMode: 'peekLock',
+				subQueueType: 'deadLetter',
+			});
+			expect(client.acceptSession).not.toHaveBeenCalled();
+			expect(result[0][0].json).toMatchObject({
+				deadLetterReason: 'MaxDeliveryCountExceeded',
+				deadLetterErrorDescription: 'Message could not be consumed after 10 delivery attempts.',
+			});
+		});
+
+		it('should resubmit dead-lettered messages to the source queue', async () => {
+			__mockReceiver.receiveMessages.mockResolvedValueOnce([deadLetteredMessage]);
+			mockExecuteFunctions = createMockExecuteFunctions({
+				operation: 'resubmitDeadLetters',
+				resubmitFrom: 'deadLetter',
+				resubmitFilters: {},
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			const client = ServiceBusClient.mock.results[0].value;
+			expect(client.createReceiver).toHaveBeenCalledWith('test-queue', {
+				receiveMode: 'peekLock',
+				subQueueType: 'deadLetter',
+			});
+			expect(client.createSender).toHaveBeenCalledWith('test-queue');
+			const resubmitted = __mockSender.sendMessages.mock.calls[0][0];
+			expect(resubmitted).toMatchObject({
+				body: { orderId: 42 },
+				sessionId: 'session-1',
+				subject: 'order-created',
+			});
+			expect(resubmitted.applicationProperties).toEqual({ tenant: 'acme' });
+			expect(resubmitted.messageId).toMatch(/^[0-9a-f-]{36}$/);
+			expect(__mockReceiver.completeMessage).toHaveBeenCalledWith(deadLetteredMessage);
+			expect(result[0][0].json).toMatchObject({
+				messageId: 'dead-message-1',
+				resubmittedMessageId: resubmitted.messageId,
+				resubmitted: true,
+				deadLetterReason: 'MaxDeliveryCountExceeded',
+			});
+		});
+
+		it('should keep the original message ID when configured', async () => {
+			__mockReceiver.receiveMessages.mockResolvedValueOnce([deadLetteredMessage]);
+			mockExecuteFunctions = createMockExecuteFunctions({
+				operation: 'resubmitDeadLetters',
+				resubmitMessageId: 'keep',
+			});
+
+			await node.execute.call(mockExecuteFunctions);
+
+			expect(__mockSender.sendMessages).toHaveBeenCalledWith(expect.objectContaining({ messageId: 'dead-message-1' }));
+		});
+
+		it('should leave messages that do not match the filters in the dead-letter queue', async () => {
+			__mockReceiver.receiveMessages.mockResolvedValueOnce([deadLetteredMessage]);
+			mockExecuteFunctions = createMockExecuteFunctions({
+				operation: 'resubmitDeadLetters',
+				resubmitFilters: { deadLetterReason: 'TTLExpiredException' },
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(__mockSender.sendMessages).not.toHaveBeenCalled();
+			expect(__mockReceiver.abandonMessage).toHaveBeenCalledWith(deadLetteredMessage);
+			expect(result[0][0].json).toMatchObject({ resubmitted: false });
+		});
+
+		it('should not resubmit subscription dead-letters to the whole topic without opting in', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'topic',
+				operation: 'resubmitDeadLetters',
+				topicName: 'test-topic',
+				subscriptionName: 'test-subscription',
+			});
+
+			await expect(node.execute.call(mockExecuteFunctions)).rejects.toThrow(
+				"Resubmitting dead-letters of subscription 'test-subscription' sends them to topic 'test-topic'",
+			);
+			expect(__mockReceiver.receiveMessages).not.toHaveBeenCalled();
+			expect(__mockSender.sendMessages).not.toHaveBeenCalled();
+		});
+
+		it('should resubmit subscription dead-letters to the topic when opted in', async () => {
+			__mockReceiver.receiveMessages.mockResolvedValueOnce([deadLetteredMessage]);
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'topic',
+				operation: 'resubmitDeadLetters',
+				topicName: 'test-topic',
+				subscriptionName: 'test-subscription',
+				resubmitFrom: 'transferDeadLetter',
+				resubmitToTopic: true,
+			});
+
+			await node.execute.call(mockExecuteFunctions);
+
+			const client = ServiceBusClient.mock.results[0].value;
+			expect(client.createReceiver).toHaveBeenCalledWith('test-topic', 'test-subscription', {
+				receiveMode: 'peekLock',
+				subQueueType: 'transferDeadLetter',
+			});
+			expect(client.createSender).toHaveBeenCalledWith('test-topic');
+			expect(__mockSender.sendMessages.mock.calls[0][0].applicationProperties).toEqual({
+				tenant: 'acme',
+				n8nResubmitSubscription: 'test-subscription',
+			});
+		});
+	});
+
+	describe('Peek Messages Operation', () => {
+		it('should peek messages without completing them', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				operation: 'peekMessages',
+				maxMessageCount: 5,
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(__mockReceiver.peekMessages).toHaveBeenCalledWith(5, {});
+			expect(__mockReceiver.completeMessage).not.toHaveBeenCalled();
+			expect(result[0][0].json).toMatchObject({
+				messageId: 'test-message-id-123',
+				body: { testData: 'hello world' },
+				sequenceNumber: '1',
+			});
+		});
+
+		it('should peek from a given sequence number', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				operation: 'peekMessages',
+				fromSequenceNumber: '42',
+			});
+
+			await node.execute.call(mockExecuteFunctions);
+
+			const peekOptions = __mockReceiver.peekMessages.mock.calls[0][1];
+			expect(peekOptions.fromSequenceNumber.toString()).toBe('42');
+		});
+
+		it('should keep peeking pages when returning all', async () => {
+			__mockReceiver.peekMessages
+				.mockResolvedValueOnce([__mockReceivedMessage, __mockReceivedMessage])
+				.mockResolvedValueOnce([__mockReceivedMessage])
+				.mockResolvedValueOnce([]);
+			mockExecuteFunctions = createMockExecuteFunctions({
+				operation: 'peekMessages',
+				maxMessageCount: 2,
+				peekReturnAll: true,
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(__mockReceiver.peekMessages).toHaveBeenCalledTimes(3);
+			expect(result[0]).toHaveLength(3);
+		});
+
+		it('should peek a specific session backlog on a subscription', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'topic',
+				operation: 'peekMessages',
+				topicName: 'test-topic',
+				subscriptionName: 'test-subscription',
+				sessionMode: 'specific',
+				receiveSessionId: 'session-abc',
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			const client = ServiceBusClient.mock.results[0].value;
+			expect(client.acceptSession).toHaveBeenCalledWith(
+				'test-topic',
+				'test-subscription',
+				'session-abc',
+				expect.any(Object)
+			);
+			expect(result[0][0].json.sessionInfo).toMatchObject({ sessionId: 'session-abc' });
+		});
+
+		it('should reject a non-numeric sequence number', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				operation: 'peekMessages',
+				fromSequenceNumber: 'abc',
+			});
+
+			await expect(node.execute.call(mockExecuteFunctions)).rejects.toThrow('From Sequence Number must be a non-negative integer');
+		});
+	});
+
+	describe('Message Settlement Operations', () => {
+		it('should leave received messages locked and output the lock token', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				operation: 'receiveMessages',
+				leaveMessagesLocked: true,
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(result[0][0].json).toMatchObject({
+				lockToken: 'lock-token-abc',
+				lockedUntilUtc: new Date('2026-02-05T12:01:00Z'),
+			});
+			expect(__mockReceiver.completeMessage).not.toHaveBeenCalled();
+		});
+
+		it('should reject leaving messages locked with sessions', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				operation: 'receiveMessages',
+				sessionMode: 'next',
+				leaveMessagesLocked: true,
+			});
+
+			await expect(node.execute.call(mockExecuteFunctions)).rejects.toThrow('Leave Messages Locked is not available with sessions');
+			expect(__mockReceiver.receiveMessages).not.toHaveBeenCalled();
+		});
+
+		it('should reject leaving messages locked on a sub-queue', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				operation: 'receiveMessages',
+				subQueue: 'deadLetter',
+				leaveMessagesLocked: true,
+			});
+
+			await expect(node.execute.call(mockExecuteFunctions)).rejects.toThrow('Leave Messages Locked is not available for sub-queues');
+		});
+
+		it('should settle by lock token through a stand-in the installed Azure SDK settles on the management link', () => {
+			// The SDK settles a message without a delivery link by lock token; revisit createLockedMessageReference when this version changes
+			expect(jest.requireActual('@azure/service-bus/package.json').version).toMatch(/^7\.9\./);
+
+			const message = createLockedMessageReference('lock-token-abc') as unknown as { delivery: Record<string, unknown> };
+
+			expect(message).toMatchObject({ lockToken: 'lock-token-abc' });
+			expect(message).not.toHaveProperty('sessionId');
+			expect(message.delivery.link).toBeUndefined();
+			expect(message.delivery.remote_settled).toBeUndefined();
+		});
+
+		it('should complete a message by lock token', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'message',
+				operation: 'complete',
+				entityType: 'queue',
+				lockToken: 'lock-token-abc',
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			const client = ServiceBusClient.mock.results[0].value;
+			expect(client.createReceiver).toHaveBeenCalledWith('test-queue', { receiveMode: 'peekLock' });
+			expect(__mockReceiver.completeMessage).toHaveBeenCalledWith(
+				expect.objectContaining({ lockToken: 'lock-token-abc' })
+			);
+			expect(result[0][0].json).toMatchObject({
+				success: true,
+				operation: 'complete',
+				lockToken: 'lock-token-abc',
+				queueName: 'test-queue',
+			});
+			expect(__mockReceiver.close).toHaveBeenCalled();
+		});
+
+		it('should dead-letter a subscription message with reason and description', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'message',
+				operation: 'deadLetter',
+				entityType: 'subscription',
+				topicName: 'test-topic',
+				subscriptionName: 'test-subscription',
+				lockToken: 'lock-token-abc',
+				deadLetterReason: 'InvalidPayload',
+				deadLetterErrorDescription: 'Missing customer ID',
+			});
+
+			await node.execute.call(mockExecuteFunctions);
+
+			const client = ServiceBusClient.mock.results[0].value;
+			expect(client.createReceiver).toHaveBeenCalledWith('test-topic', 'test-subscription', { receiveMode: 'peekLock' });
+			expect(__mockReceiver.deadLetterMessage).toHaveBeenCalledWith(
+				expect.objectContaining({ lockToken: 'lock-token-abc' }),
+				{ deadLetterReason: 'InvalidPayload', deadLetterErrorDescription: 'Missing customer ID' }
+			);
+		});
+
+		it('should abandon a message with modified properties', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'message',
+				operation: 'abandon',
+				lockToken: 'lock-token-abc',
+				propertiesToModify: {
+					property: [{ key: 'retryReason', value: 'downstream unavailable' }],
+				},
+			});
+
+			await node.execute.call(mockExecuteFunctions);
+
+			expect(__mockReceiver.abandonMessage).toHaveBeenCalledWith(
+				expect.objectContaining({ lockToken: 'lock-token-abc' }),
+				{ retryReason: 'downstream unavailable' }
+			);
+		});
+
+		it('should renew the lock and output the new expiry', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'message',
+				operation: 'renewLock',
+				lockToken: 'lock-token-abc',
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(result[0][0].json.lockedUntilUtc).toEqual(new Date('2026-02-05T12:05:00Z'));
+		});
+
+		it('should throw error for empty lock token', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'message',
+				operation: 'complete',
+				lockToken: '',
+			});
+
+			await expect(node.execute.call(mockExecuteFunctions)).rejects.toThrow('Lock Token cannot be empty');
+		});
+	});
+
+	describe('Entity Management Operations', () => {
+		const { ServiceBusAdministrationClient, __mockAdminClient } = jest.requireMock('@azure/service-bus');
+
+		it('should create a queue with options and strip the raw response', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'entityManagement',
+				managedEntityType: 'queue',
+				operation: 'create',
+				queueName: 'tenant-queue',
+				queueOptions: {
+					requiresSession: true,
+					lockDuration: 'PT2M',
+					maxDeliveryCount: 5,
+					forwardTo: '',
+				},
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(ServiceBusAdministrationClient).toHaveBeenCalledWith(expect.stringContaining('Endpoint=sb://test.servicebus.windows.net/'));
+			expect(__mockAdminClient.createQueue).toHaveBeenCalledWith('tenant-queue', {
+				requiresSession: true,
+				lockDuration: 'PT2M',
+				maxDeliveryCount: 5,
+			});
+			expect(result[0][0].json.name).toBe('tenant-queue');
+			expect(result[0][0].json._response).toBeUndefined();
+		});
+
+		it('should merge update fields into the existing queue properties', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'entityManagement',
+				managedEntityType: 'queue',
+				operation: 'update',
+				queueName: 'tenant-queue',
+				queueUpdateFields: { maxDeliveryCount: 3 },
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(__mockAdminClient.getQueue).toHaveBeenCalledWith('tenant-queue');
+			expect(__mockAdminClient.updateQueue).toHaveBeenCalledWith(
+				expect.objectContaining({ name: 'tenant-queue', lockDuration: 'PT1M', maxDeliveryCount: 3 })
+			);
+			expect(result[0][0].json.maxDeliveryCount).toBe(3);
+		});
+
+		it('should list queues up to the limit', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'entityManagement',
+				managedEntityType: 'queue',
+				operation: 'getAll',
+				returnAll: false,
+				limit: 2,
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(result[0].map(item => item.json.name)).toEqual(['queue-1', 'queue-2']);
+		});
+
+		it('should check whether a queue exists', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'entityManagement',
+				managedEntityType: 'queue',
+				operation: 'exists',
+				queueName: 'tenant-queue',
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(result[0][0].json).toEqual({ queueName: 'tenant-queue', exists: true });
+		});
+
+		it('should delete a queue', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'entityManagement',
+				managedEntityType: 'queue',
+				operation: 'delete',
+				queueName: 'tenant-queue',
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(__mockAdminClient.deleteQueue).toHaveBeenCalledWith('tenant-queue');
+			expect(result[0][0].json).toMatchObject({ success: true, deleted: true });
+		});
+
+		it('should throw error for empty queue name', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'entityManagement',
+				managedEntityType: 'queue',
+				operation: 'get',
+				queueName: '',
+			});
+
+			await expect(node.execute.call(mockExecuteFunctions)).rejects.toThrow('Queue Name cannot be empty');
+		});
+
+		it('should create a topic with options', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'entityManagement',
+				managedEntityType: 'topic',
+				operation: 'create',
+				topicName: 'orders',
+				topicOptions: { enablePartitioning: true },
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(__mockAdminClient.createTopic).toHaveBeenCalledWith('orders', { enablePartitioning: true });
+			expect(result[0][0].json).toEqual({ name: 'orders', enablePartitioning: true });
+		});
+
+		it('should create a subscription on a topic', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'entityManagement',
+				managedEntityType: 'subscription',
+				operation: 'create',
+				topicName: 'orders',
+				subscriptionName: 'customer-42',
+				subscriptionOptions: { requiresSession: true },
+			});
+
+			await node.execute.call(mockExecuteFunctions);
+
+			expect(__mockAdminClient.createSubscription).toHaveBeenCalledWith('orders', 'customer-42', { requiresSession: true });
+		});
+
+		it('should list subscriptions of a topic', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'entityManagement',
+				managedEntityType: 'subscription',
+				operation: 'getAll',
+				topicName: 'orders',
+				returnAll: true,
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(__mockAdminClient.listSubscriptions).toHaveBeenCalledWith('orders');
+			expect(result[0]).toHaveLength(2);
+		});
+
+		it('should create a SQL rule with an action', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'entityManagement',
+				managedEntityType: 'rule',
+				operation: 'create',
+				topicName: 'orders',
+				subscriptionName: 'customer-42',
+				ruleName: 'high-priority',
+				ruleFilterType: 'sql',
+				sqlExpression: 'Priority > 5',
+				sqlAction: "SET Routed = 'yes'",
+			});
+
+			await node.execute.call(mockExecuteFunctions);
+
+			expect(__mockAdminClient.createRule).toHaveBeenCalledWith(
+				'orders',
+				'customer-42',
+				'high-priority',
+				{ sqlExpression: 'Priority > 5' },
+				{ sqlExpression: "SET Routed = 'yes'" }
+			);
+		});
+
+		it('should create a correlation rule with typed application properties', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'entityManagement',
+				managedEntityType: 'rule',
+				operation: 'create',
+				topicName: 'orders',
+				subscriptionName: 'customer-42',
+				ruleName: 'customer-filter',
+				ruleFilterType: 'correlation',
+				correlationFilter: { subject: 'order-created', correlationId: '' },
+				correlationApplicationProperties: {
+					property: [
+						{ key: 'CustomerId', type: 'number', value: '42' },
+						{ key: 'IsUrgent', type: 'boolean', value: 'true' },
+					],
+				},
+				sqlAction: '',
+			});
+
+			await node.execute.call(mockExecuteFunctions);
+
+			expect(__mockAdminClient.createRule).toHaveBeenCalledWith(
+				'orders',
+				'customer-42',
+				'customer-filter',
+				{ subject: 'order-created', applicationProperties: { CustomerId: 42, IsUrgent: true } },
+				{}
+			);
+		});
+
+		it('should reject an invalid number in a correlation property', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'entityManagement',
+				managedEntityType: 'rule',
+				operation: 'create',
+				topicName: 'orders',
+				subscriptionName: 'customer-42',
+				ruleName: 'customer-filter',
+				ruleFilterType: 'correlation',
+				correlationFilter: {},
+				correlationApplicationProperties: { property: [{ key: 'CustomerId', type: 'number', value: 'abc' }] },
+			});
+
+			await expect(node.execute.call(mockExecuteFunctions)).rejects.toThrow("Correlation property 'CustomerId' is not a valid number");
+		});
+
+		it('should get runtime properties of a queue', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'entityManagement',
+				managedEntityType: 'queue',
+				operation: 'getRuntimeProperties',
+				queueName: 'tenant-queue',
+				allEntities: false,
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(__mockAdminClient.getQueueRuntimeProperties).toHaveBeenCalledWith('tenant-queue');
+			expect(result[0][0].json).toMatchObject({ activeMessageCount: 12, deadLetterMessageCount: 3, sizeInBytes: 2048 });
+			expect(result[0][0].json._response).toBeUndefined();
+		});
+
+		it('should list runtime properties of every queue in the namespace', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'entityManagement',
+				managedEntityType: 'queue',
+				operation: 'getRuntimeProperties',
+				allEntities: true,
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(__mockAdminClient.getQueueRuntimeProperties).not.toHaveBeenCalled();
+			expect(result[0].map(item => item.json.activeMessageCount)).toEqual([1, 5]);
+		});
+
+		it('should list runtime properties once, however many items come in', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'entityManagement',
+				managedEntityType: 'queue',
+				operation: 'getRuntimeProperties',
+				allEntities: true,
+			});
+			mockExecuteFunctions.getInputData.mockReturnValue([{ json: {} }, { json: {} }, { json: {} }]);
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(__mockAdminClient.listQueuesRuntimeProperties).toHaveBeenCalledTimes(1);
+			expect(result[0]).toHaveLength(2);
+		});
+
+		it('should delete the $Default rule', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'entityManagement',
+				managedEntityType: 'rule',
+				operation: 'delete',
+				topicName: 'orders',
+				subscriptionName: 'customer-42',
+				ruleName: '$Default',
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(__mockAdminClient.deleteRule).toHaveBeenCalledWith('orders', 'customer-42', '$Default');
+			expect(result[0][0].json).toMatchObject({ deleted: true, ruleName: '$Default' });
+		});
+	});
+
+	describe('Microsoft Entra ID Authentication', () => {
+		const { ClientSecretCredential, ManagedIdentityCredential } = jest.requireMock('@azure/identity');
+		const { ServiceBusAdministrationClient } = jest.requireMock('@azure/service-bus');
+
+		const useEntraIdCredentials = (functions: jest.Mocked<IExecuteFunctions>, credentials: Record<string, unknown>) => {
+			functions.getCredentials.mockResolvedValue({
+				fullyQualifiedNamespace: 'sb://test.servicebus.windows.net/',
+				...credentials,
+			});
+		};
+
+		it('should build the client from the namespace and a client secret credential', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({ authentication: 'entraId' });
+			useEntraIdCredentials(mockExecuteFunctions, {
+				authenticationMethod: 'clientSecret',
+				tenantId: 'tenant-id',
+				clientId: 'client-id',
+				clientSecret: 'secret',
+			});
+
+			await node.execute.call(mockExecuteFunctions);
+
+			expect(mockExecuteFunctions.getCredentials).toHaveBeenCalledWith('azureServiceBusEntraIdApi');
+			expect(ClientSecretCredential).toHaveBeenCalledWith('tenant-id', 'client-id', 'secret');
+			expect(ServiceBusClient).toHaveBeenCalledWith(
+				'test.servicebus.windows.net',
+				ClientSecretCredential.mock.results[0].value,
+				expect.anything()
+			);
+			expect(__mockSender.sendMessages).toHaveBeenCalledTimes(1);
+		});
+
+		it('should use a user-assigned managed identity for entity management', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				authentication: 'entraId',
+				resource: 'entityManagement',
+				managedEntityType: 'queue',
+				operation: 'exists',
+				queueName: 'tenant-queue',
+			});
+			useEntraIdCredentials(mockExecuteFunctions, {
+				authenticationMethod: 'managedIdentity',
+				identityClientId: 'identity-client-id',
+			});
+
+			await node.execute.call(mockExecuteFunctions);
+
+			expect(ManagedIdentityCredential).toHaveBeenCalledWith({ clientId: 'identity-client-id' });
+			expect(ServiceBusAdministrationClient).toHaveBeenCalledWith(
+				'test.servicebus.windows.net',
+				ManagedIdentityCredential.mock.instances[0]
+			);
+		});
+
+		it('should throw error when the namespace is missing', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({ authentication: 'entraId' });
+			mockExecuteFunctions.getCredentials.mockResolvedValue({ fullyQualifiedNamespace: '', authenticationMethod: 'managedIdentity' });
+
+			await expect(node.execute.call(mockExecuteFunctions)).rejects.toThrow('Azure Service Bus namespace is required');
+		});
+	});
+
+	describe('Topic Operations', () => {
+		it('should send a message to a topic', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'topic',
+				operation: 'sendMessage',
+				topicName: 'test-topic',
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(result[0][0].json).toMatchObject({
+				success: true,
+				topicName: 'test-topic',
+			});
+		});
+
+		it('should send correlation ID and subject to a topic', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'topic',
+				operation: 'sendMessage',
+				topicName: 'test-topic',
+				systemProperties: { correlationId: 'corr-1', subject: 'invoice' },
+			});
+
+			await node.execute.call(mockExecuteFunctions);
+
+			expect(__mockSender.sendMessages).toHaveBeenCalledWith(
+				expect.objectContaining({ correlationId: 'corr-1', subject: 'invoice' })
+			);
+		});
+
+		it('should receive messages from a topic subscription', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'topic',
+				operation: 'receiveMessages',
+				topicName: 'test-topic',
+				subscriptionName: 'test-subscription',
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			const client = ServiceBusClient.mock.results[0].value;
+			expect(client.createReceiver).toHaveBeenCalledWith('test-topic', 'test-subscription', {
+				receiveMode: 'peekLock',
+			});
+			expect(result[0]).toHaveLength(1);
+			expect(result[0][0].json.messageId).toBe('test-message-id-123');
+			expect(__mockReceiver.completeMessage).toHaveBeenCalledTimes(1);
+		});
+
+		it('should accept a specific session on a topic subscription', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'topic',
+				operation: 'receiveMessages',
+				topicName: 'test-topic',
+				subscriptionName: 'test-subscription',
+				sessionMode: 'specific',
+				receiveSessionId: 'session-abc',
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			const client = ServiceBusClient.mock.results[0].value;
+			expect(client.acceptSession).toHaveBeenCalledWith(
+				'test-topic',
+				'test-subscription',
+				'session-abc',
+				expect.objectContaining({ receiveMode: 'peekLock' })
+			);
+			expect(result[0][0].json.sessionInfo).toMatchObject({ sessionId: 'session-abc' });
+		});
+	});
+
+	describe('Error Handling', () => {
+		it('should throw error when connection string is missing', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions();
+			mockExecuteFunctions.getCredentials.mockResolvedValue({
+				connectionString: '',
+			});
+
+			await expect(node.execute.call(mockExecuteFunctions)).rejects.toThrow('connection string is required');
+		});
+
+		it('should throw error for HTTP protocol on peek', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				operation: 'peekMessages',
+				protocol: 'http',
+			});
+
+			await expect(node.execute.call(mockExecuteFunctions)).rejects.toThrow('only supported with Azure SDK protocol');
+		});
+	});
+});
+
+describe('AzureServiceBusTrigger Integration Tests', () => {
+	let trigger: AzureServiceBusTrigger;
+	const { ServiceBusClient, __mockReceiver, __mockReceivedMessage, __mockSender } = jest.requireMock('@azure/service-bus');
+
+	const createMockTriggerFunctions = (params: Record<string, unknown> = {}): jest.Mocked<ITriggerFunctions> => {
+		const defaultParams: Record<string, unknown> = {
+			authentication: 'connectionString',
+			resource: 'queue',
+			queueName: 'test-queue',
+			sessionMode: 'none',
+			maxConcurrentCalls: 1,
+			...params,
+		};
+
+		return {
+			getNodeParameter: jest.fn().mockImplementation((name: string, fallback?: unknown) => {
+				return defaultParams[name] ?? fallback;
+			}),
+			getCredentials: jest.fn().mockResolvedValue({
+				connectionString: 'Endpoint=sb://test.servicebus.windows.net/;SharedAccessKeyName=RootManageSharedAccessKey;SharedAccessKey=testkey123',
+			}),
+			getNode: jest.fn().mockReturnValue({ name: 'Azure Service Bus Trigger' }),
+			emit: jest.fn(),
+			helpers: { createDeferredPromise },
+		} as unknown as jest.Mocked<ITriggerFunctions>;
+	};
+
+	// Resolves the done promise of every emit with the given execution result
+	const finishExecutionsWith = (functions: jest.Mocked<ITriggerFunctions>, run: Partial<IRun>) => {
+		functions.emit.mockImplementation((_data, _responsePromise, donePromise) => {
+			donePromise?.resolve(run as IRun);
+		});
+	};
+
+	const startTrigger = async (functions: jest.Mocked<ITriggerFunctions>) => {
+		const response = await trigger.trigger.call(functions);
+		const [handlers, options] = __mockReceiver.subscribe.mock.calls[0];
+		return { response, handlers, options };
+	};
+
+	const failedRun: Partial<IRun> = {
+		status: 'error',
+		data: { resultData: { error: { message: 'HTTP Request failed: 500' } } } as IRun['data'],
+	};
+
+	beforeEach(() => {
+		trigger = new AzureServiceBusTrigger();
+		jest.clearAllMocks();
+	});
+
+	describe('Settlement', () => {
+		it('should let the SDK complete messages on emit by default', async () => {
+			const functions = createMockTriggerFunctions();
+			const { handlers, options } = await startTrigger(functions);
+
+			await handlers.processMessage(__mockReceivedMessage);
+
+			expect(options).toMatchObject({ autoCompleteMessages: true });
+			expect(functions.emit).toHaveBeenCalledWith([[expect.objectContaining({ json: expect.objectContaining({ messageId: 'test-message-id-123' }) })]]);
+			expect(__mockReceiver.completeMessage).not.toHaveBeenCalled();
+		});
+
+		it('should complete the message only after a successful execution', async () => {
+			const functions = createMockTriggerFunctions({ settlement: 'workflowOutcome' });
+			const { handlers, options } = await startTrigger(functions);
+
+			const client = ServiceBusClient.mock.results[0].value;
+			expect(client.createReceiver).toHaveBeenCalledWith('test-queue', { maxAutoLockRenewalDurationInMs: 300000 });
+			expect(options).toMatchObject({ autoCompleteMessages: false });
+
+			const processing = handlers.processMessage(__mockReceivedMessage);
+			await Promise.resolve();
+			expect(__mockReceiver.completeMessage).not.toHaveBeenCalled();
+
+			const [, , donePromise] = functions.emit.mock.calls[0];
+			donePromise!.resolve({ status: 'success', data: { resultData: { runData: {} } } } as unknown as IRun);
+			await processing;
+
+			expect(__mockReceiver.completeMessage).toHaveBeenCalledWith(__mockReceivedMessage);
+		});
+
+		it('should abandon the message when the execution fails', async () => {
+			const functions = createMockTriggerFunctions({ settlement: 'workflowOutcome' });
+			finishExecutionsWith(functions, failedRun);
+			const { handlers } = await startTrigger(functions);
+
+			await handlers.processMessage(__mockReceivedMessage);
+
+			expect(__mockReceiver.abandonMessage).toHaveBeenCalledWith(__mockReceivedMessage);
+			expect(__mockReceiver.completeMessage).not.toHaveBeenCalled();
+		});
+
+		it('should dead-letter the message with the execution error when configured', async () => {
+			const functions = createMockTriggerFunctions({ settlement: 'workflowOutcome', failurePolicy: 'deadLetter' });
+			finishExecutionsWith(functions, failedRun);
+			const { handlers } = await startTrigger(functions);
+
+			await handlers.processMessage(__mockReceivedMessage);
+
+			expect(__mockReceiver.deadLetterMessage).toHaveBeenCalledWith(__mockReceivedMessage, {
+				deadLetterReason: 'WorkflowExecutionFailed: HTTP Request failed: 500',
+				deadLetterErrorDescription: 'HTTP Request failed: 500',
+			});
+		});
+	});
+
+	describe('Session Pool', () => {
+		const flushPromises = async () => {
+			for (let i = 0; i < 10; i++) {
+				await new Promise((resolve) => setImmediate(resolve));
+			}
+		};
+
+		// A session receiver whose receive calls wait until the test hands them a batch
+		const createSessionReceiver = (sessionId: string) => {
+			const batches: Array<ReturnType<typeof createDeferredPromise<unknown[]>>> = [];
+			const receiver = {
+				sessionId,
+				receiveMessages: jest.fn().mockImplementation(() => {
+					const batch = createDeferredPromise<unknown[]>();
+					batches.push(batch);
+					return batch.promise;
+				}),
+				completeMessage: jest.fn().mockResolvedValue(undefined),
+				abandonMessage: jest.fn().mockResolvedValue(undefined),
+				getSessionState: jest.fn().mockResolvedValue(null),
+				close: jest.fn().mockResolvedValue(undefined),
+			};
+			const nextBatch = () => batches[batches.length - 1];
+			return { receiver, nextBatch };
+		};
+
+		const useClient = (acceptNextSession: jest.Mock, acceptSession: jest.Mock = jest.fn()) => {
+			ServiceBusClient.mockImplementationOnce(() => ({
+				acceptNextSession,
+				acceptSession,
+				createSender: jest.fn().mockReturnValue(__mockSender),
+				close: jest.fn().mockResolvedValue(undefined),
+			}));
+		};
+
+		it('should open no more than the maximum number of concurrent sessions', async () => {
+			const sessions = ['s1', 's2', 's3'].map(createSessionReceiver);
+			const acceptNextSession = jest
+				.fn()
+				.mockResolvedValueOnce(sessions[0].receiver)
+				.mockResolvedValueOnce(sessions[1].receiver)
+				.mockResolvedValueOnce(sessions[2].receiver)
+				.mockReturnValue(new Promise(() => undefined));
+			useClient(acceptNextSession);
+
+			const functions = createMockTriggerFunctions({ sessionMode: 'any', maxConcurrentSessions: 2, sessionIdleTimeout: 30 });
+			const response = await trigger.trigger.call(functions);
+			await flushPromises();
+
+			expect(acceptNextSession).toHaveBeenCalledTimes(2);
+			expect(acceptNextSession).toHaveBeenCalledWith('test-queue', expect.objectContaining({ maxAutoLockRenewalDurationInMs: 300000 }));
+			expect(sessions[0].receiver.receiveMessages).toHaveBeenCalledWith(10, expect.objectContaining({ maxWaitTimeInMs: 30000 }));
+
+			// s1 receives nothing within the idle timeout, which frees its slot for s3
+			sessions[0].nextBatch().resolve([]);
+			await flushPromises();
+
+			expect(sessions[0].receiver.close).toHaveBeenCalled();
+			expect(acceptNextSession).toHaveBeenCalledTimes(3);
+			expect(sessions[2].receiver.receiveMessages).toHaveBeenCalled();
+
+			await response.closeFunction!();
+			expect(sessions[1].receiver.close).toHaveBeenCalled();
+			expect(sessions[2].receiver.close).toHaveBeenCalled();
+		});
+
+		it('should process the messages of a session one after another, in order', async () => {
+			const session = createSessionReceiver('s1');
+			useClient(jest.fn().mockResolvedValueOnce(session.receiver).mockReturnValue(new Promise(() => undefined)));
+
+			const functions = createMockTriggerFunctions({ sessionMode: 'any', settlement: 'workflowOutcome' });
+			const response = await trigger.trigger.call(functions);
+			await flushPromises();
+
+			const first = { ...__mockReceivedMessage, messageId: 'm1', sessionId: 's1' };
+			const second = { ...__mockReceivedMessage, messageId: 'm2', sessionId: 's1' };
+			session.nextBatch().resolve([first, second]);
+			await flushPromises();
+
+			// m2 is not emitted while the execution of m1 is still running
+			expect(functions.emit).toHaveBeenCalledTimes(1);
+			expect(functions.emit.mock.calls[0][0][0][0].json.messageId).toBe('m1');
+
+			functions.emit.mock.calls[0][2]!.resolve({ status: 'success', data: { resultData: { runData: {} } } } as unknown as IRun);
+			await flushPromises();
+
+			expect(session.receiver.completeMessage).toHaveBeenCalledWith(first);
+			expect(functions.emit).toHaveBeenCalledTimes(2);
+			expect(functions.emit.mock.calls[1][0][0][0].json.messageId).toBe('m2');
+
+			await response.closeFunction!();
+		});
+
+		it('should complete session messages itself when auto-complete is on', async () => {
+			const session = createSessionReceiver('s1');
+			useClient(jest.fn().mockResolvedValueOnce(session.receiver).mockReturnValue(new Promise(() => undefined)));
+
+			const functions = createMockTriggerFunctions({ sessionMode: 'any' });
+			const response = await trigger.trigger.call(functions);
+			await flushPromises();
+
+			const message = { ...__mockReceivedMessage, sessionId: 's1' };
+			session.nextBatch().resolve([message]);
+			await flushPromises();
+
+			expect(functions.emit).toHaveBeenCalledTimes(1);
+			expect(session.receiver.completeMessage).toHaveBeenCalledWith(message);
+
+			await response.closeFunction!();
+		});
+
+		it('should keep session order when processing a message fails', async () => {
+			const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+			const session = createSessionReceiver('s1');
+			useClient(jest.fn().mockResolvedValueOnce(session.receiver).mockReturnValue(new Promise(() => undefined)));
+
+			const functions = createMockTriggerFunctions({ sessionMode: 'any' });
+			functions.emit.mockImplementationOnce(() => {
+				throw new Error('Workflow is being deactivated');
+			});
+			const response = await trigger.trigger.call(functions);
+			await flushPromises();
+
+			const messages = ['m1', 'm2', 'm3'].map((messageId) => ({ ...__mockReceivedMessage, messageId, sessionId: 's1' }));
+			session.nextBatch().resolve(messages);
+			await flushPromises();
+
+			// m2 and m3 must not overtake the failed m1, so they go back with it
+			expect(functions.emit).toHaveBeenCalledTimes(1);
+			expect(session.receiver.abandonMessage.mock.calls.map(([message]) => message.messageId)).toEqual(['m1', 'm2', 'm3']);
+			expect(session.receiver.receiveMessages).toHaveBeenCalledTimes(2);
+
+			session.nextBatch().resolve(messages);
+			await flushPromises();
+
+			expect(functions.emit.mock.calls.map((call) => call[0][0][0].json.messageId)).toEqual(['m1', 'm1', 'm2', 'm3']);
+
+			await response.closeFunction!();
+			error.mockRestore();
+		});
+
+		it('should release only the session whose lock was lost', async () => {
+			const sessions = ['s1', 's2', 's3'].map(createSessionReceiver);
+			const acceptNextSession = jest
+				.fn()
+				.mockResolvedValueOnce(sessions[0].receiver)
+				.mockResolvedValueOnce(sessions[1].receiver)
+				.mockResolvedValueOnce(sessions[2].receiver)
+				.mockReturnValue(new Promise(() => undefined));
+			useClient(acceptNextSession);
+
+			const functions = createMockTriggerFunctions({ sessionMode: 'any', maxConcurrentSessions: 2 });
+			const response = await trigger.trigger.call(functions);
+			await flushPromises();
+
+			sessions[0].nextBatch().reject(Object.assign(new Error('The session lock has expired'), { code: 'SessionLockLost' }));
+			await flushPromises();
+
+			expect(sessions[0].receiver.close).toHaveBeenCalled();
+			expect(sessions[1].receiver.close).not.toHaveBeenCalled();
+			expect(acceptNextSession).toHaveBeenCalledTimes(3);
+
+			await response.closeFunction!();
+		});
+
+		it('should keep waiting for sessions when accepting times out', async () => {
+			const session = createSessionReceiver('s1');
+			const acceptNextSession = jest
+				.fn()
+				.mockRejectedValueOnce(Object.assign(new Error('No session available'), { code: 'ServiceTimeout' }))
+				.mockResolvedValueOnce(session.receiver)
+				.mockReturnValue(new Promise(() => undefined));
+			useClient(acceptNextSession);
+
+			const functions = createMockTriggerFunctions({ sessionMode: 'any' });
+			const response = await trigger.trigger.call(functions);
+			await flushPromises();
+
+			expect(acceptNextSession).toHaveBeenCalledTimes(3);
+			expect(session.receiver.receiveMessages).toHaveBeenCalled();
+
+			await response.closeFunction!();
+		});
+
+		it('should accept the configured session in specific session mode', async () => {
+			const session = createSessionReceiver('order-42');
+			const acceptSession = jest.fn().mockResolvedValueOnce(session.receiver).mockReturnValue(new Promise(() => undefined));
+			useClient(jest.fn(), acceptSession);
+
+			const functions = createMockTriggerFunctions({ sessionMode: 'specific', specificSessionId: 'order-42' });
+			const response = await trigger.trigger.call(functions);
+			await flushPromises();
+
+			expect(acceptSession).toHaveBeenCalledTimes(1);
+			expect(acceptSession).toHaveBeenCalledWith('test-queue', 'order-42', expect.objectContaining({ maxAutoLockRenewalDurationInMs: 300000 }));
+
+			await response.closeFunction!();
+			expect(session.receiver.close).toHaveBeenCalled();
+		});
+	});
+
+	describe('Message Filter', () => {
+		const orderCreated = { ...__mockReceivedMessage, messageId: 'order-1', applicationProperties: { eventType: 'order.created' } };
+		const orderDeleted = { ...__mockReceivedMessage, messageId: 'order-2', applicationProperties: { eventType: 'order.deleted' } };
+
+		const eventTypeRule = {
+			filterMode: 'rules',
+			filterConditions: { condition: [{ field: 'applicationProperties.eventType', operation: 'equals', value: 'order.created' }] },
+		};
+
+		it('should emit matching messages and complete the others', async () => {
+			const functions = createMockTriggerFunctions(eventTypeRule);
+			const { handlers, options } = await startTrigger(functions);
+
+			await handlers.processMessage(orderCreated);
+			await handlers.processMessage(orderDeleted);
+
+			expect(options).toMatchObject({ autoCompleteMessages: false });
+			expect(functions.emit).toHaveBeenCalledTimes(1);
+			expect(functions.emit.mock.calls[0][0][0][0].json.messageId).toBe('order-1');
+			expect(__mockReceiver.completeMessage).toHaveBeenCalledWith(orderCreated);
+			expect(__mockReceiver.completeMessage).toHaveBeenCalledWith(orderDeleted);
+		});
+
+		it('should abandon non-matching messages when configured', async () => {
+			const functions = createMockTriggerFunctions({ ...eventTypeRule, filterAction: 'abandon' });
+			const { handlers } = await startTrigger(functions);
+
+			await handlers.processMessage(orderDeleted);
+
+			expect(functions.emit).not.toHaveBeenCalled();
+			expect(__mockReceiver.abandonMessage).toHaveBeenCalledWith(orderDeleted);
+			expect(__mockReceiver.completeMessage).not.toHaveBeenCalled();
+		});
+
+		it('should leave non-matching messages unsettled for other consumers', async () => {
+			const functions = createMockTriggerFunctions({ ...eventTypeRule, filterAction: 'leave' });
+			const { handlers } = await startTrigger(functions);
+
+			await handlers.processMessage(orderDeleted);
+
+			expect(functions.emit).not.toHaveBeenCalled();
+			expect(__mockReceiver.abandonMessage).not.toHaveBeenCalled();
+			expect(__mockReceiver.completeMessage).not.toHaveBeenCalled();
+		});
+
+		it('should match any condition on system properties and body fields', async () => {
+			const functions = createMockTriggerFunctions({
+				filterMode: 'rules',
+				filterCombinator: 'any',
+				filterConditions: {
+					condition: [
+						{ field: 'subject', operation: 'startsWith', value: 'invoice' },
+						{ field: 'body.amount', operation: 'greaterThan', value: '1000' },
+					],
+				},
+			});
+			const { handlers } = await startTrigger(functions);
+
+			await handlers.processMessage({ ...__mockReceivedMessage, messageId: 'a', subject: 'invoice.paid', body: { amount: 5 } });
+			await handlers.processMessage({ ...__mockReceivedMessage, messageId: 'b', subject: 'receipt', body: { amount: 2500 } });
+			await handlers.processMessage({ ...__mockReceivedMessage, messageId: 'c', subject: 'receipt', body: { amount: 10 } });
+			await handlers.processMessage({ ...__mockReceivedMessage, messageId: 'd', body: { total: 2500 } });
+
+			const emittedIds = functions.emit.mock.calls.map((call) => call[0][0][0].json.messageId);
+			expect(emittedIds).toEqual(['a', 'b']);
+		});
+
+		it('should evaluate an expression for every message', async () => {
+			const functions = createMockTriggerFunctions({
+				filterMode: 'expression',
+				filterExpression: '={{ $json.applicationProperties.eventType.startsWith("order.") && $json.deliveryCount < 3 }}',
+			});
+			const { handlers } = await startTrigger(functions);
+
+			expect(functions.getNodeParameter).toHaveBeenCalledWith('filterExpression', '', { rawExpressions: true });
+
+			await handlers.processMessage(orderCreated);
+			await handlers.processMessage({ ...orderDeleted, deliveryCount: 5 });
+			await handlers.processMessage({ ...__mockReceivedMessage, messageId: 'no-event-type' });
+
+			const emittedIds = functions.emit.mock.calls.map((call) => call[0][0][0].json.messageId);
+			expect(emittedIds).toEqual(['order-1']);
+		});
+
+		it('should abandon rather than complete a message when the filter throws', async () => {
+			const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+			const functions = createMockTriggerFunctions({
+				filterMode: 'rules',
+				filterConditions: { condition: [{ field: 'messageId', operation: 'regex', value: '([' }] },
+			});
+			const { handlers } = await startTrigger(functions);
+
+			await handlers.processMessage(orderCreated);
+
+			expect(functions.emit).not.toHaveBeenCalled();
+			expect(__mockReceiver.completeMessage).not.toHaveBeenCalled();
+			expect(__mockReceiver.abandonMessage).toHaveBeenCalledWith(orderCreated);
+			expect(error).toHaveBeenCalledWith(expect.stringContaining('Could not evaluate message filter'));
+			error.mockRestore();
+		});
+	});
+
+	describe('Batch Emission', () => {
+		const messages = ['m1', 'm2', 'm3'].map((messageId) => ({ ...__mockReceivedMessage, messageId }));
+		const emittedIds = (functions: jest.Mocked<ITriggerFunctions>, call = 0) =>
+			functions.emit.mock.calls[call][0][0].map((item) => item.json.messageId);
+
+		it('should emit a full batch as one execution and complete its messages', async () => {
+			const functions = createMockTriggerFunctions({ emitMode: 'batch', batchSize: 3, batchWindow: 60 });
+			const { handlers, options, response } = await startTrigger(functions);
+
+			expect(options).toMatchObject({ autoCompleteMessages: false, maxConcurrentCalls: 3 });
+
+			await Promise.all(messages.map((message) => handlers.processMessage(message)));
+
+			expect(functions.emit).toHaveBeenCalledTimes(1);
+			expect(emittedIds(functions)).toEqual(['m1', 'm2', 'm3']);
+			expect(__mockReceiver.completeMessage).toHaveBeenCalledTimes(3);
+
+			await response.closeFunction!();
+		});
+
+		it('should emit a partial batch once the window has passed', async () => {
+			jest.useFakeTimers();
+			try {
+				const functions = createMockTriggerFunctions({ emitMode: 'batch', batchSize: 10, batchWindow: 5 });
+				const { handlers, response } = await startTrigger(functions);
+
+				const processing = Promise.all(messages.slice(0, 2).map((message) => handlers.processMessage(message)));
+				await jest.advanceTimersByTimeAsync(4000);
+				expect(functions.emit).not.toHaveBeenCalled();
+
+				await jest.advanceTimersByTimeAsync(1000);
+				await processing;
+
+				expect(functions.emit).toHaveBeenCalledTimes(1);
+				expect(emittedIds(functions)).toEqual(['m1', 'm2']);
+
+				await response.closeFunction!();
+			} finally {
+				jest.useRealTimers();
+			}
+		});
+
+		it('should settle the whole batch by the execution result', async () => {
+			const functions = createMockTriggerFunctions({ emitMode: 'batch', batchSize: 3, settlement: 'workflowOutcome', failurePolicy: 'deadLetter' });
+			finishExecutionsWith(functions, failedRun);
+			const { handlers, response } = await startTrigger(functions);
+
+			await Promise.all(messages.map((message) => handlers.processMessage(message)));
+
+			expect(functions.emit).toHaveBeenCalledTimes(1);
+			expect(__mockReceiver.deadLetterMessage).toHaveBeenCalledTimes(3);
+			for (const message of messages) {
+				expect(__mockReceiver.deadLetterMessage).toHaveBeenCalledWith(message, expect.objectContaining({ deadLetterErrorDescription: 'HTTP Request failed: 500' }));
+			}
+			expect(__mockReceiver.completeMessage).not.toHaveBeenCalled();
+
+			await response.closeFunction!();
+		});
+
+		it('should keep the messages of different sessions in separate batches', async () => {
+			const sessionMessages = (sessionId: string, count: number) =>
+				Array.from({ length: count }, (_, i) => ({ ...__mockReceivedMessage, messageId: `${sessionId}-${i + 1}`, sessionId }));
+			const createBatchSession = (sessionId: string) => ({
+				sessionId,
+				receiveMessages: jest.fn().mockResolvedValueOnce(sessionMessages(sessionId, 2)).mockReturnValue(new Promise(() => undefined)),
+				completeMessage: jest.fn().mockResolvedValue(undefined),
+				abandonMessage: jest.fn().mockResolvedValue(undefined),
+				getSessionState: jest.fn().mockResolvedValue(null),
+				close: jest.fn().mockResolvedValue(undefined),
+			});
+			const sessions = [createBatchSession('s1'), createBatchSession('s2')];
+			ServiceBusClient.mockImplementationOnce(() => ({
+				acceptNextSession: jest
+					.fn()
+					.mockResolvedValueOnce(sessions[0])
+					.mockResolvedValueOnce(sessions[1])
+					.mockReturnValue(new Promise(() => undefined)),
+				close: jest.fn().mockResolvedValue(undefined),
+			}));
+
+			const functions = createMockTriggerFunctions({ sessionMode: 'any', emitMode: 'batch', batchSize: 2 });
+			const response = await trigger.trigger.call(functions);
+			for (let i = 0; i < 10; i++) {
+				await new Promise((resolve) => setImmediate(resolve));
+			}
+
+			expect(sessions[0].receiveMessages).toHaveBeenCalledWith(2, expect.objectContaining({ maxWaitTimeInMs: 60000 }));
+			expect(functions.emit).toHaveBeenCalledTimes(2);
+			expect(emittedIds(functions, 0)).toEqual(['s1-1', 's1-2']);
+			expect(emittedIds(functions, 1)).toEqual(['s2-1', 's2-2']);
+			expect(sessions[0].completeMessage).toHaveBeenCalledTimes(2);
+			expect(sessions[1].completeMessage).toHaveBeenCalledTimes(2);
+
+			await response.closeFunction!();
+		});
+
+		it('should mix sessions in a batch only when allowed', async () => {
+			const createBatchSession = (sessionId: string) => ({
+				sessionId,
+				receiveMessages: jest
+					.fn()
+					.mockResolvedValueOnce([{ ...__mockReceivedMessage, messageId: `${sessionId}-1`, sessionId }])
+					.mockReturnValue(new Promise(() => undefined)),
+				completeMessage: jest.fn().mockResolvedValue(undefined),
+				abandonMessage: jest.fn().mockResolvedValue(undefined),
+				getSessionState: jest.fn().mockResolvedValue(null),
+				close: jest.fn().mockResolvedValue(undefined),
+			});
+			const sessions = [createBatchSession('s1'), createBatchSession('s2')];
+			ServiceBusClient.mockImplementationOnce(() => ({
+				acceptNextSession: jest
+					.fn()
+					.mockResolvedValueOnce(sessions[0])
+					.mockResolvedValueOnce(sessions[1])
+					.mockReturnValue(new Promise(() => undefined)),
+				close: jest.fn().mockResolvedValue(undefined),
+			}));
+
+			const functions = createMockTriggerFunctions({ sessionMode: 'any', emitMode: 'batch', batchSize: 2, mixSessions: true });
+			const response = await trigger.trigger.call(functions);
+			for (let i = 0; i < 10; i++) {
+				await new Promise((resolve) => setImmediate(resolve));
+			}
+
+			expect(functions.emit).toHaveBeenCalledTimes(1);
+			expect(emittedIds(functions)).toEqual(['s1-1', 's2-1']);
+			expect(sessions[0].completeMessage).toHaveBeenCalledTimes(1);
+			expect(sessions[1].completeMessage).toHaveBeenCalledTimes(1);
+
+			await response.closeFunction!();
+		});
+	});
+
+	describe('Poison Message Handling', () => {
+		const poisonParams = { settlement: 'workflowOutcome', failurePolicy: 'abandon', maxDeliveryAttempts: 3 };
+
+		it('should abandon a failed message below the delivery attempt threshold', async () => {
+			const functions = createMockTriggerFunctions(poisonParams);
+			finishExecutionsWith(functions, failedRun);
+			const { handlers } = await startTrigger(functions);
+
+			// The SDK counts deliveries from 0, so this is the second failed delivery
+			await handlers.processMessage({ ...__mockReceivedMessage, deliveryCount: 1 });
+
+			expect(__mockReceiver.abandonMessage).toHaveBeenCalled();
+			expect(__mockReceiver.deadLetterMessage).not.toHaveBeenCalled();
+		});
+
+		it('should dead-letter a poison message with the reason and execution error', async () => {
+			const functions = createMockTriggerFunctions({ ...poisonParams, poisonDeadLetterReason: 'OrderSyncPoison' });
+			finishExecutionsWith(functions, failedRun);
+			const { handlers } = await startTrigger(functions);
+
+			const message = { ...__mockReceivedMessage, deliveryCount: 2 };
+			await handlers.processMessage(message);
+
+			expect(__mockReceiver.deadLetterMessage).toHaveBeenCalledWith(message, {
+				deadLetterReason: 'OrderSyncPoison: HTTP Request failed: 500',
+				deadLetterErrorDescription: 'Failed 3 deliveries. Last error: HTTP Request failed: 500',
+			});
+			expect(__mockReceiver.abandonMessage).not.toHaveBeenCalled();
+		});
+
+		it('should forward a poison message to the parking queue and complete the original', async () => {
+			const functions = createMockTriggerFunctions({ ...poisonParams, poisonAction: 'parkingQueue', parkingQueueName: 'orders-parking' });
+			finishExecutionsWith(functions, failedRun);
+			const { handlers } = await startTrigger(functions);
+
+			const message = { ...__mockReceivedMessage, deliveryCount: 3 };
+			await handlers.processMessage(message);
+
+			const client = ServiceBusClient.mock.results[0].value;
+			expect(client.createSender).toHaveBeenCalledWith('orders-parking');
+			expect(__mockSender.sendMessages).toHaveBeenCalledWith(
+				expect.objectContaining({
+					messageId: 'test-message-id-123',
+					body: { testData: 'hello world' },
+					applicationProperties: {
+						customProp: 'value',
+						DeadLetterReason: 'MaxDeliveryAttemptsExceeded: HTTP Request failed: 500',
+						DeadLetterErrorDescription: 'Failed 4 deliveries. Last error: HTTP Request failed: 500',
+						n8nFailedAttempts: 4,
+					},
+				}),
+			);
+			expect(__mockReceiver.completeMessage).toHaveBeenCalledWith(message);
+			expect(__mockReceiver.deadLetterMessage).not.toHaveBeenCalled();
+		});
+
+		it('should require a parking queue name', async () => {
+			const functions = createMockTriggerFunctions({ ...poisonParams, poisonAction: 'parkingQueue' });
+
+			await expect(trigger.trigger.call(functions)).rejects.toThrow('Parking Queue Name is required to forward poison messages');
+		});
+
+		it('should reschedule a copy with exponential backoff and carry the failed attempts', async () => {
+			const functions = createMockTriggerFunctions({ ...poisonParams, maxDeliveryAttempts: 5, retryDelay: 'reschedule', initialRetryDelay: 10 });
+			finishExecutionsWith(functions, failedRun);
+			const { handlers } = await startTrigger(functions);
+
+			const message = {
+				...__mockReceivedMessage,
+				deliveryCount: 0,
+				applicationProperties: { customProp: 'value', n8nFailedAttempts: 2 },
+			};
+			const before = Date.now();
+			await handlers.processMessage(message);
+
+			const [copy, scheduledTime] = __mockSender.scheduleMessages.mock.calls[0];
+			expect(copy.applicationProperties).toEqual({ customProp: 'value', n8nFailedAttempts: 3 });
+			// Third failed attempt: 10s doubled twice
+			expect((scheduledTime as Date).getTime() - before).toBeGreaterThanOrEqual(40000);
+			expect((scheduledTime as Date).getTime() - before).toBeLessThan(41000);
+			expect(__mockReceiver.completeMessage).toHaveBeenCalledWith(message);
+			expect(__mockReceiver.abandonMessage).not.toHaveBeenCalled();
+		});
+
+		it('should dead-letter a rescheduled copy once the attempts carried over reach the threshold', async () => {
+			const functions = createMockTriggerFunctions({ ...poisonParams, retryDelay: 'reschedule' });
+			finishExecutionsWith(functions, failedRun);
+			const { handlers } = await startTrigger(functions);
+
+			await handlers.processMessage({ ...__mockReceivedMessage, deliveryCount: 0, applicationProperties: { n8nFailedAttempts: 2 } });
+
+			expect(__mockReceiver.deadLetterMessage).toHaveBeenCalled();
+			expect(__mockSender.scheduleMessages).not.toHaveBeenCalled();
+		});
+
+		it('should back off and stop rescheduling copies that keep failing', async () => {
+			const functions = createMockTriggerFunctions({ ...poisonParams, retryDelay: 'reschedule', initialRetryDelay: 10 });
+			finishExecutionsWith(functions, failedRun);
+			const { handlers } = await startTrigger(functions);
+
+			// Every copy is a new message, so it arrives with the SDK's first delivery count of 0
+			let message = { ...__mockReceivedMessage, deliveryCount: 0, applicationProperties: {} };
+			const delays: number[] = [];
+			for (let i = 0; i < 3; i++) {
+				const before = Date.now();
+				await handlers.processMessage(message);
+				const call = __mockSender.scheduleMessages.mock.calls[i];
+				if (!call) {
+					break;
+				}
+				delays.push(Math.round(((call[1] as Date).getTime() - before) / 1000));
+				message = { ...__mockReceivedMessage, ...call[0], deliveryCount: 0 };
+			}
+
+			expect(delays).toEqual([10, 20]);
+			const stampedAttempts = __mockSender.scheduleMessages.mock.calls.map(
+				(call: Array<{ applicationProperties: Record<string, unknown> }>) => call[0].applicationProperties.n8nFailedAttempts,
+			);
+			expect(stampedAttempts).toEqual([1, 2]);
+			expect(__mockReceiver.deadLetterMessage).toHaveBeenCalledTimes(1);
+			expect(__mockReceiver.deadLetterMessage.mock.calls[0][1].deadLetterErrorDescription).toBe(
+				'Failed 3 deliveries. Last error: HTTP Request failed: 500',
+			);
+		});
+
+		it('should reject rescheduling for topic subscriptions', async () => {
+			const functions = createMockTriggerFunctions({
+				...poisonParams,
+				resource: 'subscription',
+				topicName: 'orders',
+				subscriptionName: 'sync',
+				retryDelay: 'reschedule',
+			});
+
+			await expect(trigger.trigger.call(functions)).rejects.toThrow('Reschedule Copy is only supported for queues');
+		});
+
+		it('should defer a failed message and schedule a durable retry marker for it', async () => {
+			const functions = createMockTriggerFunctions({ ...poisonParams, retryDelay: 'defer', initialRetryDelay: 5 });
+			finishExecutionsWith(functions, failedRun);
+			const { handlers } = await startTrigger(functions);
+
+			const message = { ...__mockReceivedMessage, deliveryCount: 0, sequenceNumber: Long.fromNumber(42), sessionId: 'order-7' };
+			const before = Date.now();
+			await handlers.processMessage(message);
+
+			const client = ServiceBusClient.mock.results[0].value;
+			expect(client.createSender).toHaveBeenCalledWith('test-queue');
+			const [marker, scheduledTime] = __mockSender.scheduleMessages.mock.calls[0];
+			expect(marker).toMatchObject({
+				sessionId: 'order-7',
+				applicationProperties: { n8nDeferredSequenceNumber: '42', n8nFailedAttempts: 1 },
+			});
+			expect(Math.round(((scheduledTime as Date).getTime() - before) / 1000)).toBe(5);
+			expect(__mockReceiver.deferMessage).toHaveBeenCalledWith(message);
+			expect(__mockReceiver.abandonMessage).not.toHaveBeenCalled();
+		});
+
+		it('should process the deferred message when its retry marker arrives', async () => {
+			const functions = createMockTriggerFunctions({ ...poisonParams, retryDelay: 'defer' });
+			finishExecutionsWith(functions, { status: 'success', data: { resultData: { runData: {} } } as unknown as IRun['data'] });
+			const { handlers } = await startTrigger(functions);
+
+			const marker = {
+				...__mockReceivedMessage,
+				messageId: 'marker-1',
+				body: '',
+				applicationProperties: { n8nDeferredSequenceNumber: '1', n8nFailedAttempts: 1 },
+			};
+			await handlers.processMessage(marker);
+
+			expect(__mockReceiver.receiveDeferredMessages).toHaveBeenCalledWith(Long.fromString('1'));
+			expect(functions.emit).toHaveBeenCalledTimes(1);
+			expect(functions.emit.mock.calls[0][0][0][0].json.messageId).toBe('test-message-id-123');
+			expect(__mockReceiver.completeMessage).toHaveBeenCalledWith(__mockReceivedMessage);
+			expect(__mockReceiver.completeMessage).toHaveBeenCalledWith(marker);
+		});
+
+		it('should keep the retry marker when the deferred message cannot be settled', async () => {
+			const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+			const functions = createMockTriggerFunctions({ ...poisonParams, retryDelay: 'defer' });
+			finishExecutionsWith(functions, { status: 'success', data: { resultData: { runData: {} } } as unknown as IRun['data'] });
+			const { handlers } = await startTrigger(functions);
+
+			const deferredMessage = { ...__mockReceivedMessage, messageId: 'deferred-3' };
+			__mockReceiver.receiveDeferredMessages.mockResolvedValueOnce([deferredMessage]);
+			__mockReceiver.completeMessage.mockRejectedValueOnce(Object.assign(new Error('The lock has expired'), { code: 'MessageLockLost' }));
+			const marker = {
+				...__mockReceivedMessage,
+				messageId: 'marker-3',
+				applicationProperties: { n8nDeferredSequenceNumber: '1', n8nFailedAttempts: 1 },
+			};
+
+			await expect(handlers.processMessage(marker)).rejects.toThrow('Could not settle deferred messages deferred-3');
+
+			expect(__mockReceiver.completeMessage).toHaveBeenCalledWith(deferredMessage);
+			expect(__mockReceiver.completeMessage).not.toHaveBeenCalledWith(marker);
+			error.mockRestore();
+		});
+
+		it('should renew the lock of a deferred message while its execution runs', async () => {
+			jest.useFakeTimers({ now: new Date('2026-02-05T12:00:00Z') });
+			try {
+				const functions = createMockTriggerFunctions({ ...poisonParams, retryDelay: 'defer', maxLockRenewalDuration: 100 });
+				const { handlers } = await startTrigger(functions);
+
+				const deferredMessage = { ...__mockReceivedMessage, messageId: 'deferred-4', lockedUntilUtc: new Date('2026-02-05T12:00:30Z') };
+				__mockReceiver.receiveDeferredMessages.mockResolvedValueOnce([deferredMessage]);
+				__mockReceiver.renewMessageLock.mockImplementation(async () => new Date(Date.now() + 30000));
+				const processing = handlers.processMessage({
+					...__mockReceivedMessage,
+					messageId: 'marker-4',
+					applicationProperties: { n8nDeferredSequenceNumber: '1', n8nFailedAttempts: 1 },
+				});
+
+				// Renewed 10 seconds before each expiry (at 20, 40, 60, 80 and 100s), and no longer once Max Lock Renewal has passed
+				await jest.advanceTimersByTimeAsync(20000);
+				expect(__mockReceiver.renewMessageLock).toHaveBeenCalledTimes(1);
+				expect(__mockReceiver.renewMessageLock).toHaveBeenCalledWith(deferredMessage);
+				await jest.advanceTimersByTimeAsync(200000);
+				expect(__mockReceiver.renewMessageLock).toHaveBeenCalledTimes(5);
+
+				functions.emit.mock.calls[0][2]!.resolve({ status: 'success', data: { resultData: { runData: {} } } } as unknown as IRun);
+				await processing;
+				expect(__mockReceiver.completeMessage).toHaveBeenCalledWith(deferredMessage);
+			} finally {
+				jest.useRealTimers();
+				__mockReceiver.renewMessageLock.mockResolvedValue(new Date('2026-02-05T12:05:00Z'));
+			}
+		});
+
+		it('should count the failed attempts carried by the retry marker for the deferred message', async () => {
+			const functions = createMockTriggerFunctions({ ...poisonParams, retryDelay: 'defer' });
+			finishExecutionsWith(functions, failedRun);
+			const { handlers } = await startTrigger(functions);
+
+			const deferredMessage = { ...__mockReceivedMessage, deliveryCount: 5 };
+			__mockReceiver.receiveDeferredMessages.mockResolvedValueOnce([deferredMessage]);
+			await handlers.processMessage({
+				...__mockReceivedMessage,
+				messageId: 'marker-2',
+				applicationProperties: { n8nDeferredSequenceNumber: '1', n8nFailedAttempts: 2 },
+			});
+
+			expect(__mockReceiver.deadLetterMessage).toHaveBeenCalledWith(
+				deferredMessage,
+				expect.objectContaining({ deadLetterErrorDescription: 'Failed 3 deliveries. Last error: HTTP Request failed: 500' }),
+			);
+		});
+
+		it('should reject deferral for topic subscriptions', async () => {
+			const functions = createMockTriggerFunctions({
+				...poisonParams,
+				resource: 'subscription',
+				topicName: 'orders',
+				subscriptionName: 'sync',
+				retryDelay: 'defer',
+			});
+
+			await expect(trigger.trigger.call(functions)).rejects.toThrow('Defer is only supported for queues');
+		});
+	});
+});
+
+describe('AzureServiceBus HTTP Protocol Tests', () => {
+	let node: AzureServiceBus;
+	let mockExecuteFunctions: jest.Mocked<IExecuteFunctions>;
+	const mockFetch = jest.requireMock('node-fetch') as jest.Mock;
+
+	beforeEach(() => {
+		node = new AzureServiceBus();
+		jest.clearAllMocks();
+		
+		// Setup successful HTTP response
+		mockFetch.mockResolvedValue({
+			ok: true,
+			status: 201,
+			statusText: 'Created',
+			text: jest.fn().mockResolvedValue(''),
+		});
+	});
+
+	const createMockExecuteFunctions = (params: Record<string, unknown> = {}): jest.Mocked<IExecuteFunctions> => {
+		const defaultParams: Record<string, unknown> = {
+			resource: 'queue',
+			operation: 'sendMessage',
+			protocol: 'http',
+			queueName: 'test-queue',
+			messageBody: '{"test": "data"}',
+			contentType: 'application/json',
+			messageId: 'msg-123',
+			sessionId: '',
+			messageProperties: {},
+			...params,
+		};
+
+		return {
+			getInputData: jest.fn().mockReturnValue([{ json: {} }]),
+			getNodeParameter: jest.fn().mockImplementation((name: string, _index: number, fallback?: unknown) => {
+				return defaultParams[name] ?? fallback;
+			}),
+			getCredentials: jest.fn().mockResolvedValue({
+				connectionString: 'Endpoint=sb://test.servicebus.windows.net/;SharedAccessKeyName=RootManageSharedAccessKey;SharedAccessKey=dGVzdGtleTEyMw==',
+			}),
+			getNode: jest.fn().mockReturnValue({ name: 'Azure Service Bus' }),
+		} as unknown as jest.Mocked<IExecuteFunctions>;
+	};
+
+	it('should send message via HTTP REST API', async () => {
+		mockExecuteFunctions = createMockExecuteFunctions();
+
+		const result = await node.execute.call(mockExecuteFunctions);
+
+		expect(result[0][0].json.success).toBe(true);
+		expect(mockFetch).toHaveBeenCalledWith(
+			expect.stringContaining('https://test.servicebus.windows.net/test-queue/messages'),
+			expect.objectContaining({
+				method: 'POST',
+				body: '{"test": "data"}',
+			})
+		);
+	});
+
+	it('should include session ID in broker properties for HTTP', async () => {
+		mockExecuteFunctions = createMockExecuteFunctions({
+			sessionId: 'http-session-456',
+		});
+
+		await node.execute.call(mockExecuteFunctions);
+
+		expect(mockFetch).toHaveBeenCalledWith(
+			expect.any(String),
+			expect.objectContaining({
 				headers: expect.objectContaining({
 					BrokerProperties: expect.stringContaining('http-session-456'),
 				}),
@@ -312,6 +2471,73 @@ describe('AzureServiceBus HTTP Protocol Tests', () => {
 		);
 	});
 
+	it('should map system properties to BrokerProperties for HTTP', async () => {
+		mockExecuteFunctions = createMockExecuteFunctions({
+			systemProperties: {
+				correlationId: 'order-42',
+				subject: 'order.created',
+				replyTo: 'replies',
+				timeToLive: 90,
+				partitionKey: 'tenant-a',
+				scheduledEnqueueTimeUtc: '2030-01-01T10:00:00Z',
+			},
+		});
+
+		await node.execute.call(mockExecuteFunctions);
+
+		const headers = mockFetch.mock.calls[0][1].headers;
+		expect(JSON.parse(headers.BrokerProperties)).toEqual({
+			MessageId: 'msg-123',
+			CorrelationId: 'order-42',
+			Label: 'order.created',
+			ReplyTo: 'replies',
+			TimeToLive: 90,
+			PartitionKey: 'tenant-a',
+			ScheduledEnqueueTimeUtc: 'Tue, 01 Jan 2030 10:00:00 GMT',
+		});
+	});
+
+	it('should send typed custom properties as JSON literals in HTTP headers', async () => {
+		mockExecuteFunctions = createMockExecuteFunctions({
+			messageProperties: {
+				property: [
+					{ key: 'Priority', type: 'number', value: '7' },
+					{ key: 'IsUrgent', type: 'boolean', value: 'true' },
+					{ key: 'Region', type: 'string', value: 'eu' },
+					{ key: 'DueAt', type: 'dateTime', value: '2030-01-01T10:00:00Z' },
+				],
+			},
+		});
+
+		await node.execute.call(mockExecuteFunctions);
+
+		expect(mockFetch.mock.calls[0][1].headers).toMatchObject({
+			Priority: '7',
+			IsUrgent: 'true',
+			Region: '"eu"',
+			DueAt: '"Tue, 01 Jan 2030 10:00:00 GMT"',
+		});
+	});
+
+	it('should post a binary body unchanged via HTTP', async () => {
+		const payload = Buffer.from([0x08, 0x96, 0x01]);
+		mockExecuteFunctions = createMockExecuteFunctions({
+			bodySource: 'binary',
+			contentType: 'application/x-protobuf',
+		});
+		(mockExecuteFunctions as unknown as { helpers: object }).helpers = {
+			assertBinaryData: jest.fn().mockReturnValue({ mimeType: 'application/octet-stream' }),
+			getBinaryDataBuffer: jest.fn().mockResolvedValue(payload),
+		};
+
+		await node.execute.call(mockExecuteFunctions);
+
+		expect(mockFetch.mock.calls[0][1]).toMatchObject({
+			body: payload,
+			headers: expect.objectContaining({ 'Content-Type': 'application/x-protobuf' }),
+		});
+	});
+
 	it('should handle HTTP error responses', async () => {
 		mockFetch.mockResolvedValue({
 			ok: false,
@@ -324,4 +2550,507 @@ describe('AzureServiceBus HTTP Protocol Tests', () => {
 
 		await expect(node.execute.call(mockExecuteFunctions)).rejects.toThrow('HTTP 401');
 	});
+
+	it('should send a message to a topic via HTTP', async () => {
+		mockExecuteFunctions = createMockExecuteFunctions({
+			resource: 'topic',
+			topicName: 'orders',
+		});
+
+		const result = await node.execute.call(mockExecuteFunctions);
+
+		expect(mockFetch).toHaveBeenCalledWith(
+			'https://test.servicebus.windows.net/orders/messages?timeout=60',
+			expect.objectContaining({
+				method: 'POST',
+				headers: expect.objectContaining({ Authorization: expect.stringContaining('sr=https%3A%2F%2Ftest.servicebus.windows.net%2Forders') }),
+			})
+		);
+		expect(result[0][0].json).toMatchObject({ success: true, topicName: 'orders' });
+	});
+
+	it('should send items through the REST batch endpoint', async () => {
+		mockExecuteFunctions = createMockExecuteFunctions({
+			sendMode: 'batch',
+			sessionId: 'batch-session',
+			messageProperties: { property: [{ key: 'Region', value: 'nz' }] },
+		});
+		mockExecuteFunctions.getInputData.mockReturnValue([{ json: {} }, { json: {} }, { json: {} }]);
+
+		const result = await node.execute.call(mockExecuteFunctions);
+
+		expect(mockFetch).toHaveBeenCalledTimes(1);
+		const [url, request] = mockFetch.mock.calls[0];
+		expect(url).toBe('https://test.servicebus.windows.net/test-queue/messages?timeout=60');
+		expect(request.headers['Content-Type']).toBe('application/vnd.microsoft.servicebus.json');
+		const entries = JSON.parse(request.body);
+		expect(entries).toHaveLength(3);
+		expect(entries[0]).toEqual({
+			Body: '{"test": "data"}',
+			BrokerProperties: { MessageId: 'msg-123', SessionId: 'batch-session' },
+			UserProperties: { Region: 'nz' },
+		});
+		expect(result[0].map(item => item.json.batchNumber)).toEqual([1, 1, 1]);
+	});
+
+	it('should send one HTTP batch per partition key', async () => {
+		const partitionKeys = ['east', 'west', 'east'];
+		mockExecuteFunctions = createMockExecuteFunctions({ sendMode: 'batch' });
+		mockExecuteFunctions.getInputData.mockReturnValue(partitionKeys.map(() => ({ json: {} })));
+		const getParameter = mockExecuteFunctions.getNodeParameter.getMockImplementation()!;
+		mockExecuteFunctions.getNodeParameter.mockImplementation(((name: string, index: number, fallback?: unknown) =>
+			name === 'systemProperties' ? { partitionKey: partitionKeys[index] } : getParameter(name, index, fallback)) as typeof getParameter);
+
+		const result = await node.execute.call(mockExecuteFunctions);
+
+		const sentBatches = mockFetch.mock.calls.map(([, request]) => JSON.parse(request.body).map((entry: IDataObject) => (entry.BrokerProperties as IDataObject).PartitionKey));
+		expect(sentBatches).toEqual([['east', 'east'], ['west']]);
+		expect(result[0].map(item => item.json.batchNumber)).toEqual([1, 2, 1]);
+	});
+
+	it('should split HTTP batches by size and report oversized messages', async () => {
+		const bodies = ['a'.repeat(150 * 1024), 'b'.repeat(150 * 1024), 'c'.repeat(300 * 1024)];
+		mockExecuteFunctions = createMockExecuteFunctions({ sendMode: 'batch', topicName: 'orders', resource: 'topic' });
+		mockExecuteFunctions.getInputData.mockReturnValue(bodies.map(() => ({ json: {} })));
+		const getParameter = mockExecuteFunctions.getNodeParameter.getMockImplementation()!;
+		mockExecuteFunctions.getNodeParameter.mockImplementation(((name: string, index: number, fallback?: unknown) =>
+			name === 'messageBody' ? bodies[index] : getParameter(name, index, fallback)) as typeof getParameter);
+
+		const result = await node.execute.call(mockExecuteFunctions);
+
+		expect(mockFetch).toHaveBeenCalledTimes(2);
+		expect(result[0].map(item => item.json.batchNumber)).toEqual([1, 2, undefined]);
+		expect(result[0][2].json).toMatchObject({ success: false, error: expect.stringContaining('too large') });
+	});
+
+	describe('SAS tokens', () => {
+		const authorizationOf = (call: number): string => mockFetch.mock.calls[call][1].headers.Authorization;
+		const useCredentials = (functions: jest.Mocked<IExecuteFunctions>, credentials: Record<string, unknown>) => {
+			functions.getCredentials.mockResolvedValue({
+				connectionString: 'Endpoint=sb://test.servicebus.windows.net/;SharedAccessKeyName=CachePolicy;SharedAccessKey=Y2FjaGVrZXk=',
+				...credentials,
+			});
+		};
+
+		afterEach(() => {
+			jest.restoreAllMocks();
+		});
+
+		it('should reuse a cached token until it is close to expiring', async () => {
+			const start = Date.now();
+			const now = jest.spyOn(Date, 'now').mockReturnValue(start);
+			mockExecuteFunctions = createMockExecuteFunctions();
+			useCredentials(mockExecuteFunctions, { tokenLifetime: 1200 });
+
+			await node.execute.call(mockExecuteFunctions);
+			now.mockReturnValue(start + 10 * 60 * 1000);
+			await node.execute.call(mockExecuteFunctions);
+			now.mockReturnValue(start + 19 * 60 * 1000);
+			await node.execute.call(mockExecuteFunctions);
+
+			expect(authorizationOf(1)).toBe(authorizationOf(0));
+			expect(authorizationOf(0)).toContain(`se=${Math.floor(start / 1000) + 1200}`);
+			expect(authorizationOf(2)).not.toBe(authorizationOf(0));
+		});
+
+		it('should sign a namespace-scoped token when configured', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions();
+			useCredentials(mockExecuteFunctions, { tokenScope: 'namespace' });
+
+			await node.execute.call(mockExecuteFunctions);
+
+			expect(authorizationOf(0)).toContain('sr=https%3A%2F%2Ftest.servicebus.windows.net%2F&');
+		});
+
+		it('should send a pre-issued SharedAccessSignature as is', async () => {
+			const expiry = Math.floor(Date.now() / 1000) + 3600;
+			const signature = `SharedAccessSignature sr=https%3A%2F%2Ftest.servicebus.windows.net%2F&sig=abc%3D&se=${expiry}&skn=Partner`;
+			mockExecuteFunctions = createMockExecuteFunctions();
+			useCredentials(mockExecuteFunctions, {
+				connectionString: `Endpoint=sb://test.servicebus.windows.net/;SharedAccessSignature=${signature}`,
+			});
+
+			await node.execute.call(mockExecuteFunctions);
+
+			expect(authorizationOf(0)).toBe(signature);
+		});
+
+		it('should reject an expired pre-issued SharedAccessSignature', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions();
+			useCredentials(mockExecuteFunctions, {
+				connectionString: 'Endpoint=sb://test.servicebus.windows.net/;SharedAccessSignature=SharedAccessSignature sr=x&sig=y&se=1000&skn=Partner',
+			});
+
+			await expect(node.execute.call(mockExecuteFunctions)).rejects.toThrow('SharedAccessSignature expired at 1970-01-01T00:16:40.000Z');
+		});
+
+		it('should give the Azure SDK a named key credential for the same key', async () => {
+			const { ServiceBusClient } = jest.requireMock('@azure/service-bus');
+			const { AzureNamedKeyCredential } = jest.requireActual('@azure/core-auth');
+			mockExecuteFunctions = createMockExecuteFunctions({ protocol: 'sdk' });
+			useCredentials(mockExecuteFunctions, {});
+
+			await node.execute.call(mockExecuteFunctions);
+
+			const [host, credential] = ServiceBusClient.mock.calls[0];
+			expect(host).toBe('test.servicebus.windows.net');
+			expect(credential).toBeInstanceOf(AzureNamedKeyCredential);
+			expect(credential).toMatchObject({ name: 'CachePolicy', key: 'Y2FjaGVrZXk=' });
+		});
+
+		it('should give the Azure SDK a pre-issued SharedAccessSignature as a SAS credential', async () => {
+			const { ServiceBusClient } = jest.requireMock('@azure/service-bus');
+			const { AzureSASCredential } = jest.requireActual('@azure/core-auth');
+			const signature = `SharedAccessSignature sr=https%3A%2F%2Ftest.servicebus.windows.net%2F&sig=abc%3D&se=${Math.floor(Date.now() / 1000) + 3600}&skn=Partner`;
+			mockExecuteFunctions = createMockExecuteFunctions({ protocol: 'sdk' });
+			useCredentials(mockExecuteFunctions, {
+				connectionString: `Endpoint=sb://test.servicebus.windows.net/;SharedAccessSignature=${signature}`,
+			});
+
+			await node.execute.call(mockExecuteFunctions);
+
+			const credential = ServiceBusClient.mock.calls[0][1];
+			expect(credential).toBeInstanceOf(AzureSASCredential);
+			expect(credential.signature).toBe(signature);
+		});
+
+		it('should not log the signature string', async () => {
+			const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+			mockExecuteFunctions = createMockExecuteFunctions();
+			useCredentials(mockExecuteFunctions, { tokenLifetime: 600 });
+
+			await node.execute.call(mockExecuteFunctions);
+
+			const logged = log.mock.calls.map(args => args.map(String).join(' ')).join('\n');
+			expect(logged).not.toContain('sig=');
+			expect(logged).not.toContain('Signature string');
+		});
+	});
+
+	describe('Receive and settle via HTTP', () => {
+		const { Headers } = jest.requireActual('node-fetch');
+		const lockLocation = 'https://test.servicebus.windows.net/test-queue/messages/31907572-1647-43c3-8741-631acd554d6f/7da9cfd5-40d5-4bb1-8d64-ec5a52e1c547';
+
+		const messageResponse = (status = 201) => ({
+			ok: true,
+			status,
+			headers: new Headers({
+				BrokerProperties: JSON.stringify({
+					MessageId: 'msg-1',
+					DeliveryCount: 1,
+					SequenceNumber: 42,
+					LockToken: '7da9cfd5-40d5-4bb1-8d64-ec5a52e1c547',
+					LockedUntilUtc: 'Wed, 02 Jul 2025 10:00:30 GMT',
+					EnqueuedTimeUtc: 'Wed, 02 Jul 2025 10:00:00 GMT',
+				}),
+				'Content-Type': 'application/json',
+				Location: lockLocation,
+				Priority: '5',
+				Region: '"nz"',
+			}),
+			buffer: jest.fn().mockResolvedValue(Buffer.from('{"orderId": 7}')),
+		});
+		const emptyResponse = { ok: true, status: 204, headers: new Headers(), buffer: jest.fn().mockResolvedValue(Buffer.alloc(0)) };
+		const settledResponse = { ok: true, status: 200, text: jest.fn().mockResolvedValue('') };
+
+		it('should receive and delete from the head of the queue until it is empty', async () => {
+			mockFetch.mockResolvedValueOnce(messageResponse(200)).mockResolvedValueOnce(emptyResponse);
+			mockExecuteFunctions = createMockExecuteFunctions({
+				operation: 'receiveMessages',
+				receiveMode: 'receiveAndDelete',
+				maxMessageCount: 5,
+				maxWaitTimeInSeconds: 30,
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(mockFetch).toHaveBeenCalledTimes(2);
+			expect(mockFetch).toHaveBeenNthCalledWith(
+				1,
+				'https://test.servicebus.windows.net/test-queue/messages/head?timeout=30',
+				expect.objectContaining({ method: 'DELETE' })
+			);
+			expect(result[0]).toHaveLength(1);
+			expect(result[0][0].json).toMatchObject({
+				messageId: 'msg-1',
+				body: { orderId: 7 },
+				contentType: 'application/json',
+				deliveryCount: 1,
+				sequenceNumber: '42',
+				applicationProperties: { priority: 5, region: 'nz' },
+			});
+		});
+
+		it('should peek-lock and complete through the lock location', async () => {
+			mockFetch.mockResolvedValueOnce(messageResponse()).mockResolvedValueOnce(settledResponse);
+			mockExecuteFunctions = createMockExecuteFunctions({
+				operation: 'receiveMessages',
+				receiveMode: 'peekLock',
+				maxMessageCount: 1,
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(mockFetch).toHaveBeenNthCalledWith(1, expect.stringContaining('/test-queue/messages/head'), expect.objectContaining({ method: 'POST' }));
+			expect(mockFetch).toHaveBeenNthCalledWith(2, lockLocation, expect.objectContaining({ method: 'DELETE' }));
+			expect(result[0][0].json.lockLocation).toBeUndefined();
+		});
+
+		it('should map broker properties to system properties', async () => {
+			const response = messageResponse();
+			response.headers.set('BrokerProperties', JSON.stringify({
+				MessageId: 'msg-1',
+				CorrelationId: 'order-42',
+				Label: 'order.created',
+				To: 'fulfilment',
+				TimeToLive: 60,
+				EnqueuedTimeUtc: 'Wed, 02 Jul 2025 10:00:00 GMT',
+				EnqueuedSequenceNumber: 12,
+				State: 'Active',
+			}));
+			mockFetch.mockResolvedValueOnce(response);
+			mockExecuteFunctions = createMockExecuteFunctions({
+				operation: 'receiveMessages',
+				receiveMode: 'receiveAndDelete',
+				maxMessageCount: 1,
+				messageMetadata: 'all',
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(result[0][0].json).toMatchObject({
+				correlationId: 'order-42',
+				subject: 'order.created',
+				to: 'fulfilment',
+				timeToLive: 60000,
+				expiresAtUtc: new Date('2025-07-02T10:01:00Z'),
+				enqueuedSequenceNumber: 12,
+				state: 'active',
+			});
+		});
+
+		it('should reject raw AMQP output over HTTP', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({
+				operation: 'receiveMessages',
+				messageMetadata: 'rawAmqp',
+			});
+
+			await expect(node.execute.call(mockExecuteFunctions)).rejects.toThrow('Raw AMQP output is only supported with Azure SDK protocol');
+		});
+
+		it('should leave messages locked and output the lock location', async () => {
+			mockFetch.mockResolvedValueOnce(messageResponse());
+			mockExecuteFunctions = createMockExecuteFunctions({
+				operation: 'receiveMessages',
+				receiveMode: 'peekLock',
+				maxMessageCount: 1,
+				leaveMessagesLocked: true,
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(mockFetch).toHaveBeenCalledTimes(1);
+			expect(result[0][0].json).toMatchObject({
+				lockToken: '7da9cfd5-40d5-4bb1-8d64-ec5a52e1c547',
+				lockLocation,
+			});
+			expect(result[0][0].json.lockedUntilUtc).toEqual(new Date('2025-07-02T10:00:30Z'));
+		});
+
+		it('should receive from a subscription dead-letter sub-queue', async () => {
+			mockFetch.mockResolvedValueOnce(emptyResponse);
+			mockExecuteFunctions = createMockExecuteFunctions({
+				resource: 'topic',
+				operation: 'receiveMessages',
+				topicName: 'orders',
+				subscriptionName: 'billing',
+				subQueue: 'deadLetter',
+				receiveMode: 'receiveAndDelete',
+				maxMessageCount: 10,
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(mockFetch).toHaveBeenCalledWith(
+				expect.stringContaining('https://test.servicebus.windows.net/orders/subscriptions/billing/$DeadLetterQueue/messages/head'),
+				expect.anything()
+			);
+			expect(result[0]).toHaveLength(0);
+		});
+
+		it.each([
+			['complete', 'DELETE'],
+			['abandon', 'PUT'],
+			['renewLock', 'POST'],
+		])('should %s a message through its lock location', async (operation, method) => {
+			mockFetch.mockResolvedValueOnce(settledResponse);
+			mockExecuteFunctions = createMockExecuteFunctions({ resource: 'message', operation, lockLocation });
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(mockFetch).toHaveBeenCalledWith(lockLocation, expect.objectContaining({ method }));
+			expect(result[0][0].json).toMatchObject({ success: true, operation, lockLocation });
+		});
+
+		it('should reject dead-lettering over HTTP', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({ resource: 'message', operation: 'deadLetter', lockLocation });
+
+			await expect(node.execute.call(mockExecuteFunctions)).rejects.toThrow('only supported with Azure SDK protocol');
+		});
+
+		it('should reject sessions over HTTP', async () => {
+			mockExecuteFunctions = createMockExecuteFunctions({ operation: 'receiveMessages', sessionMode: 'next' });
+
+			await expect(node.execute.call(mockExecuteFunctions)).rejects.toThrow('Sessions are only supported with Azure SDK protocol');
+		});
+	});
+
+	it('should authenticate with a bearer token for Entra ID credentials', async () => {
+		mockExecuteFunctions = createMockExecuteFunctions({ authentication: 'entraId' });
+		mockExecuteFunctions.getCredentials.mockResolvedValue({
+			fullyQualifiedNamespace: 'test.servicebus.windows.net',
+			authenticationMethod: 'clientSecret',
+			tenantId: 'tenant-id',
+			clientId: 'client-id',
+			clientSecret: 'secret',
+		});
+
+		await node.execute.call(mockExecuteFunctions);
+
+		expect(mockFetch).toHaveBeenCalledWith(
+			'https://test.servicebus.windows.net/test-queue/messages?timeout=60',
+			expect.objectContaining({
+				headers: expect.objectContaining({ Authorization: 'Bearer entra-token' }),
+			})
+		);
+	});
+});
+
+describe('AzureServiceBusApi Credential Test', () => {
+	const mockFetch = jest.requireMock('node-fetch') as jest.Mock;
+	const validConnectionString =
+		'Endpoint=sb://test.servicebus.windows.net/;SharedAccessKeyName=RootManageSharedAccessKey;SharedAccessKey=dGVzdGtleTEyMw==';
+
+	const testCredential = (connectionString: string) =>
+		testConnectionStringCredential.call({} as ICredentialTestFunctions, {
+			id: '1',
+			name: 'Azure Service Bus',
+			type: 'azureServiceBusApi',
+			data: { connectionString },
+		});
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+	});
+
+	it('should report every missing part without calling the namespace', async () => {
+		const result = await testCredential('SharedAccessKey=dGVzdA==');
+
+		expect(result.status).toBe('Error');
+		expect(result.message).toContain('Endpoint is missing');
+		expect(result.message).toContain('SharedAccessKeyName is missing');
+		expect(mockFetch).not.toHaveBeenCalled();
+	});
+
+	it('should report a malformed endpoint and segment', async () => {
+		const result = await testCredential('Endpoint=https://test.servicebus.windows.net;oops;SharedAccessKeyName=Root;SharedAccessKey=dGVzdA==');
+
+		expect(result.status).toBe('Error');
+		expect(result.message).toContain('Endpoint "https://test.servicebus.windows.net" is malformed');
+		expect(result.message).toContain('Malformed part "oops"');
+	});
+
+	it('should reject an expired pre-issued signature', async () => {
+		const result = await testCredential(
+			'Endpoint=sb://test.servicebus.windows.net/;SharedAccessSignature=SharedAccessSignature sr=x&sig=y&se=1000&skn=Root'
+		);
+
+		expect(result).toEqual({ status: 'Error', message: 'SharedAccessSignature expired at 1970-01-01T00:16:40.000Z' });
+	});
+
+	it('should pass when the namespace accepts the signed token', async () => {
+		mockFetch.mockResolvedValue({ ok: true, status: 200, text: jest.fn().mockResolvedValue('') });
+
+		const result = await testCredential(validConnectionString);
+
+		expect(result).toEqual({ status: 'OK', message: 'Connected to test.servicebus.windows.net' });
+		expect(mockFetch).toHaveBeenCalledWith(
+			'https://test.servicebus.windows.net/$namespaceinfo?api-version=2021-05',
+			expect.objectContaining({
+				headers: { Authorization: expect.stringContaining('skn=RootManageSharedAccessKey') },
+			})
+		);
+	});
+
+	it.each([
+		['a Send-only', 'SendOnly', "Unauthorized access. 'Manage' claim(s) are required for this operation."],
+		['a Listen-only', 'ListenOnly', "Unauthorized access. 'Manage' claim(s) are required for this operation. TrackingId:1"],
+	])('should pass with a note on limited rights for %s policy key', async (_case, keyName, errorText) => {
+		mockFetch.mockResolvedValue({ ok: false, status: 401, text: jest.fn().mockResolvedValue(errorText) });
+
+		const result = await testCredential(
+			`Endpoint=sb://test.servicebus.windows.net/;SharedAccessKeyName=${keyName};SharedAccessKey=dGVzdGtleTEyMw==;EntityPath=orders`,
+		);
+
+		expect(result.status).toBe('OK');
+		expect(result.message).toContain('limited rights');
+		expect(mockFetch).toHaveBeenCalledWith(
+			'https://test.servicebus.windows.net/orders?api-version=2021-05',
+			expect.objectContaining({ headers: { Authorization: expect.stringContaining(`skn=${keyName}`) } }),
+		);
+	});
+
+	it('should pass a pre-issued signature the namespace accepts without Manage rights', async () => {
+		const expiry = Math.floor(Date.now() / 1000) + 3600;
+		mockFetch.mockResolvedValue({
+			ok: false,
+			status: 401,
+			text: jest.fn().mockResolvedValue("Unauthorized access. 'Manage' claim(s) are required for this operation."),
+		});
+
+		const result = await testCredential(
+			`Endpoint=sb://test.servicebus.windows.net/;SharedAccessSignature=SharedAccessSignature sr=x&sig=y&se=${expiry}&skn=Partner`,
+		);
+
+		expect(result.status).toBe('OK');
+	});
+
+	it('should fail on any response other than 2xx', async () => {
+		mockFetch.mockResolvedValue({ ok: false, status: 302, text: jest.fn().mockResolvedValue('') });
+
+		const result = await testCredential(validConnectionString);
+
+		expect(result).toEqual({ status: 'Error', message: 'Unexpected response from test.servicebus.windows.net (HTTP 302): ' });
+	});
+
+	it('should report a part without a value', async () => {
+		const result = await testCredential('Endpoint=sb://test.servicebus.windows.net/;SharedAccessKeyName=;SharedAccessKey=dGVzdA==');
+
+		expect(result.status).toBe('Error');
+		expect(result.message).toContain('SharedAccessKeyName has no value');
+	});
+
+	it('should fail when the namespace rejects the signature', async () => {
+		mockFetch.mockResolvedValue({
+			ok: false,
+			status: 401,
+			text: jest.fn().mockResolvedValue('InvalidSignature: The token has an invalid signature.'),
+		});
+
+		const result = await testCredential(validConnectionString);
+
+		expect(result.status).toBe('Error');
+		expect(result.message).toContain('rejected the SAS token (HTTP 401)');
+	});
+
+	it('should fail when the namespace cannot be reached', async () => {
+		mockFetch.mockRejectedValue(new Error('getaddrinfo ENOTFOUND test.servicebus.windows.net'));
+
+		const result = await testCredential(validConnectionString);
+
+		expect(result).toEqual({
+			status: 'Error',
+			message: 'Could not reach namespace test.servicebus.windows.net: getaddrinfo ENOTFOUND test.servicebus.windows.net',
+		});
+	});
 });
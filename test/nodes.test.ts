@@ -1,6 +1,7 @@
 import { AzureServiceBus } from '../nodes/AzureServiceBus/AzureServiceBus.node';
 import { AzureServiceBusTrigger } from '../nodes/AzureServiceBusTrigger/AzureServiceBusTrigger.node';
 import { AzureServiceBusApi } from '../credentials/AzureServiceBusApi.credentials';
+import { AzureServiceBusEntraIdApi } from '../credentials/AzureServiceBusEntraIdApi.credentials';
 
 describe('AzureServiceBus Node', () => {
 	let node: AzureServiceBus;
@@ -22,11 +23,21 @@ describe('AzureServiceBus Node', () => {
 			expect(node.description.version).toBe(1);
 		});
 
-		it('should require azureServiceBusApi credentials', () => {
+		it('should accept connection string or Entra ID credentials', () => {
 			expect(node.description.credentials).toBeDefined();
-			expect(node.description.credentials).toHaveLength(1);
+			expect(node.description.credentials).toHaveLength(2);
 			expect(node.description.credentials![0].name).toBe('azureServiceBusApi');
 			expect(node.description.credentials![0].required).toBe(true);
+			expect(node.description.credentials![0].displayOptions?.show?.authentication).toEqual(['connectionString']);
+			expect(node.description.credentials![0].testedBy).toBe('azureServiceBusConnectionStringTest');
+			expect(node.methods?.credentialTest?.azureServiceBusConnectionStringTest).toBeDefined();
+			expect(node.description.credentials![1].name).toBe('azureServiceBusEntraIdApi');
+			expect(node.description.credentials![1].displayOptions?.show?.authentication).toEqual(['entraId']);
+		});
+
+		it('should default to connection string authentication', () => {
+			const authenticationProperty = node.description.properties.find(p => p.name === 'authentication');
+			expect(authenticationProperty?.default).toBe('connectionString');
 		});
 
 		it('should have main input and output', () => {
@@ -34,13 +45,15 @@ describe('AzureServiceBus Node', () => {
 			expect(node.description.outputs).toContain('main');
 		});
 
-		it('should support queue and topic resources', () => {
+		it('should support queue, topic, message and entity management resources', () => {
 			const resourceProperty = node.description.properties.find(p => p.name === 'resource');
 			expect(resourceProperty).toBeDefined();
-			expect(resourceProperty?.options).toHaveLength(2);
+			expect(resourceProperty?.options).toHaveLength(4);
 			const optionValues = (resourceProperty?.options as Array<{ value: string }>).map(o => o.value);
 			expect(optionValues).toContain('queue');
 			expect(optionValues).toContain('topic');
+			expect(optionValues).toContain('message');
+			expect(optionValues).toContain('entityManagement');
 		});
 
 		it('should support sdk and http protocols', () => {
@@ -80,6 +93,31 @@ describe('AzureServiceBus Node', () => {
 			const optionValues = (queueOperationProperty?.options as Array<{ value: string }>).map(o => o.value);
 			expect(optionValues).toContain('receiveMessages');
 		});
+
+		it('should have scheduled message operations for queues', () => {
+			const queueOperationProperty = node.description.properties.find(
+				p => p.name === 'operation' && p.displayOptions?.show?.resource?.includes('queue')
+			);
+			const optionValues = (queueOperationProperty?.options as Array<{ value: string }>).map(o => o.value);
+			expect(optionValues).toContain('scheduleMessage');
+			expect(optionValues).toContain('cancelScheduledMessages');
+		});
+
+		it('should have peekMessages operation for queues', () => {
+			const queueOperationProperty = node.description.properties.find(
+				p => p.name === 'operation' && p.displayOptions?.show?.resource?.includes('queue')
+			);
+			const optionValues = (queueOperationProperty?.options as Array<{ value: string }>).map(o => o.value);
+			expect(optionValues).toContain('peekMessages');
+		});
+
+		it('should have sendAndWaitForReply operation for queues', () => {
+			const queueOperationProperty = node.description.properties.find(
+				p => p.name === 'operation' && p.displayOptions?.show?.resource?.includes('queue')
+			);
+			const optionValues = (queueOperationProperty?.options as Array<{ value: string }>).map(o => o.value);
+			expect(optionValues).toContain('sendAndWaitForReply');
+		});
 	});
 
 	describe('Topic Operations', () => {
@@ -91,6 +129,73 @@ describe('AzureServiceBus Node', () => {
 			const optionValues = (topicOperationProperty?.options as Array<{ value: string }>).map(o => o.value);
 			expect(optionValues).toContain('sendMessage');
 		});
+
+		it('should have receiveMessages operation for topics', () => {
+			const topicOperationProperty = node.description.properties.find(
+				p => p.name === 'operation' && p.displayOptions?.show?.resource?.includes('topic')
+			);
+			const optionValues = (topicOperationProperty?.options as Array<{ value: string }>).map(o => o.value);
+			expect(optionValues).toContain('receiveMessages');
+		});
+
+		it('should have subscription name for topic receive', () => {
+			const subscriptionProperty = node.description.properties.find(
+				p => p.name === 'subscriptionName' && p.displayOptions?.show?.resource?.includes('topic')
+			);
+			expect(subscriptionProperty).toBeDefined();
+			expect(subscriptionProperty?.displayOptions?.show?.operation).toContain('receiveMessages');
+		});
+	});
+
+	describe('Message Operations', () => {
+		it('should have settlement operations for messages', () => {
+			const messageOperationProperty = node.description.properties.find(
+				p => p.name === 'operation' && p.displayOptions?.show?.resource?.includes('message')
+			);
+			expect(messageOperationProperty).toBeDefined();
+			const optionValues = (messageOperationProperty?.options as Array<{ value: string }>).map(o => o.value);
+			expect(optionValues).toEqual(
+				expect.arrayContaining(['complete', 'abandon', 'defer', 'deadLetter', 'renewLock'])
+			);
+		});
+
+		it('should offer sub-queues for receiving over HTTP as well', () => {
+			const subQueueProperty = node.description.properties.find(p => p.name === 'subQueue');
+			expect(subQueueProperty?.displayOptions?.show?.protocol).toBeUndefined();
+		});
+
+		it('should have leave messages locked option for receive', () => {
+			const leaveLockedProperty = node.description.properties.find(p => p.name === 'leaveMessagesLocked');
+			expect(leaveLockedProperty).toBeDefined();
+			expect(leaveLockedProperty?.default).toBe(false);
+		});
+	});
+
+	describe('Entity Management Operations', () => {
+		it('should have CRUD, list and existence operations', () => {
+			const managementOperationProperty = node.description.properties.find(
+				p => p.name === 'operation' && p.displayOptions?.show?.resource?.includes('entityManagement')
+			);
+			expect(managementOperationProperty).toBeDefined();
+			const optionValues = (managementOperationProperty?.options as Array<{ value: string }>).map(o => o.value);
+			expect(optionValues).toEqual(expect.arrayContaining(['create', 'get', 'update', 'delete', 'getAll', 'exists']));
+		});
+
+		it('should manage queues, topics, subscriptions and rules', () => {
+			const entityTypeProperty = node.description.properties.find(p => p.name === 'managedEntityType');
+			const optionValues = (entityTypeProperty?.options as Array<{ value: string }>).map(o => o.value);
+			expect(optionValues).toEqual(['queue', 'topic', 'subscription', 'rule']);
+		});
+
+		it('should only offer create-only queue options on create', () => {
+			const createOptions = node.description.properties.find(p => p.name === 'queueOptions');
+			const updateFields = node.description.properties.find(p => p.name === 'queueUpdateFields');
+			const createNames = (createOptions?.options as Array<{ name: string }>).map(o => o.name);
+			const updateNames = (updateFields?.options as Array<{ name: string }>).map(o => o.name);
+			expect(createNames).toContain('requiresSession');
+			expect(updateNames).not.toContain('requiresSession');
+			expect(updateNames).toContain('maxDeliveryCount');
+		});
 	});
 
 	describe('Execute Method', () => {
@@ -129,10 +234,11 @@ describe('AzureServiceBusTrigger Node', () => {
 			expect(trigger.description.outputs).toContain('main');
 		});
 
-		it('should require azureServiceBusApi credentials', () => {
+		it('should accept connection string or Entra ID credentials', () => {
 			expect(trigger.description.credentials).toBeDefined();
-			expect(trigger.description.credentials).toHaveLength(1);
+			expect(trigger.description.credentials).toHaveLength(2);
 			expect(trigger.description.credentials![0].name).toBe('azureServiceBusApi');
+			expect(trigger.description.credentials![1].name).toBe('azureServiceBusEntraIdApi');
 		});
 
 		it('should support queue and subscription resources', () => {
@@ -152,6 +258,31 @@ describe('AzureServiceBusTrigger Node', () => {
 			expect(optionValues).toContain('specific');
 		});
 
+		it('should limit concurrent sessions and release idle ones', () => {
+			const maxSessionsProperty = trigger.description.properties.find(p => p.name === 'maxConcurrentSessions');
+			expect(maxSessionsProperty?.default).toBe(8);
+			expect(maxSessionsProperty?.displayOptions?.show?.sessionMode).toEqual(['any']);
+			const idleTimeoutProperty = trigger.description.properties.find(p => p.name === 'sessionIdleTimeout');
+			expect(idleTimeoutProperty?.default).toBe(60);
+		});
+
+		it('should offer rule and expression filters with an action for non-matching messages', () => {
+			const filterModeProperty = trigger.description.properties.find(p => p.name === 'filterMode');
+			expect(filterModeProperty?.default).toBe('none');
+			expect((filterModeProperty?.options as Array<{ value: string }>).map(o => o.value)).toEqual(['none', 'rules', 'expression']);
+			const filterActionProperty = trigger.description.properties.find(p => p.name === 'filterAction');
+			expect((filterActionProperty?.options as Array<{ value: string }>).map(o => o.value)).toEqual(['complete', 'abandon', 'leave']);
+		});
+
+		it('should offer batch emission with size and window', () => {
+			const emitModeProperty = trigger.description.properties.find(p => p.name === 'emitMode');
+			expect(emitModeProperty?.default).toBe('message');
+			expect((emitModeProperty?.options as Array<{ value: string }>).map(o => o.value)).toEqual(['message', 'batch']);
+			expect(trigger.description.properties.find(p => p.name === 'batchSize')?.default).toBe(100);
+			expect(trigger.description.properties.find(p => p.name === 'batchWindow')?.default).toBe(10);
+			expect(trigger.description.properties.find(p => p.name === 'mixSessions')?.default).toBe(false);
+		});
+
 		it('should have autoComplete option', () => {
 			const autoCompleteProperty = trigger.description.properties.find(p => p.name === 'autoComplete');
 			expect(autoCompleteProperty).toBeDefined();
@@ -159,6 +290,35 @@ describe('AzureServiceBusTrigger Node', () => {
 			expect(autoCompleteProperty?.default).toBe(true);
 		});
 
+		it('should settle on emit by default and offer settlement by workflow outcome', () => {
+			const settlementProperty = trigger.description.properties.find(p => p.name === 'settlement');
+			expect(settlementProperty?.default).toBe('onEmit');
+			const optionValues = (settlementProperty?.options as Array<{ value: string }>).map(o => o.value);
+			expect(optionValues).toEqual(['onEmit', 'workflowOutcome']);
+		});
+
+		it('should offer poison message actions and retry delays', () => {
+			const poisonActionProperty = trigger.description.properties.find(p => p.name === 'poisonAction');
+			expect((poisonActionProperty?.options as Array<{ value: string }>).map(o => o.value)).toEqual(['deadLetter', 'parkingQueue']);
+			const retryDelayProperty = trigger.description.properties.find(p => p.name === 'retryDelay');
+			expect(retryDelayProperty?.default).toBe('none');
+			expect((retryDelayProperty?.options as Array<{ value: string }>).map(o => o.value)).toEqual(['none', 'defer', 'reschedule']);
+		});
+
+		it('should offer body decoding modes including binary', () => {
+			const bodyOutputProperty = trigger.description.properties.find(p => p.name === 'bodyOutput');
+			expect(bodyOutputProperty?.default).toBe('auto');
+			const optionValues = (bodyOutputProperty?.options as Array<{ value: string }>).map(o => o.value);
+			expect(optionValues).toEqual(expect.arrayContaining(['auto', 'text', 'json', 'xml', 'base64', 'binary']));
+		});
+
+		it('should offer full metadata and raw AMQP output', () => {
+			const metadataProperty = trigger.description.properties.find(p => p.name === 'messageMetadata');
+			expect(metadataProperty?.default).toBe('standard');
+			const optionValues = (metadataProperty?.options as Array<{ value: string }>).map(o => o.value);
+			expect(optionValues).toEqual(['standard', 'all', 'rawAmqp']);
+		});
+
 		it('should have maxConcurrentCalls option', () => {
 			const maxConcurrentProperty = trigger.description.properties.find(p => p.name === 'maxConcurrentCalls');
 			expect(maxConcurrentProperty).toBeDefined();
@@ -207,3 +367,33 @@ describe('AzureServiceBusApi Credentials', () => {
 		});
 	});
 });
+
+describe('AzureServiceBusEntraIdApi Credentials', () => {
+	let credentials: AzureServiceBusEntraIdApi;
+
+	beforeEach(() => {
+		credentials = new AzureServiceBusEntraIdApi();
+	});
+
+	it('should have correct name', () => {
+		expect(credentials.name).toBe('azureServiceBusEntraIdApi');
+	});
+
+	it('should require the fully qualified namespace', () => {
+		const namespaceProp = credentials.properties.find(p => p.name === 'fullyQualifiedNamespace');
+		expect(namespaceProp?.required).toBe(true);
+	});
+
+	it('should support service principal, managed and workload identities', () => {
+		const methodProp = credentials.properties.find(p => p.name === 'authenticationMethod');
+		const optionValues = (methodProp?.options as Array<{ value: string }>).map(o => o.value);
+		expect(optionValues).toEqual(['clientSecret', 'clientCertificate', 'managedIdentity', 'workloadIdentity']);
+	});
+
+	it('should hide secrets', () => {
+		for (const name of ['clientSecret', 'certificate', 'certificatePassword']) {
+			const prop = credentials.properties.find(p => p.name === name);
+			expect(prop?.typeOptions?.password).toBe(true);
+		}
+	});
+});